@@ -0,0 +1,369 @@
+// gstorm: headless design storm generation with the same engine as the web app.
+//
+// Usage (after npm run build, or through npm run gstorm, which builds first):
+//   gstorm generate --category SCS --type "Type II" --duration 24 --depth 3.2 --step 6 --format swmm
+//   gstorm list
+//   gstorm help
+//
+// vite.cli.config.ts compiles this file to dist-cli/gstorm.js with the distribution tables embedded,
+// so the command runs from any directory.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+    ArealReductionMethod, CalculationResult, DepthDurationPoint, InitialAbstractionRatio, InterpolationMode, StormCategory, TimeFormat
+} from '../src/types';
+import {
+    CalculationInputs, CHICAGO_KEIFER_CHU, NOAA_ALTERNATING_BLOCK,
+    calculateHyetograph, formatAtlas14CurveName, getAtlas14ProbabilityLevels, getPublishedDurations, loadBundledDistributions, registerHuffProbabilityCurves, setEngineDebugLogger, stormSubTypesByCategory
+} from '../src/utils/tr55';
+import { parseNoaaCsv } from '../src/utils/noaaParser';
+import { SwmmRainFormat, generateHyetographCsv, generateSwmmDatContent, generateSwmmInpContent } from '../src/utils/exporters';
+import { parseStormStart } from '../src/utils/timestamps';
+import { BUNDLED_DISTRIBUTION_CSVS } from '../src/utils/distributionTables';
+
+// --- Constants ---
+const CATEGORIES: StormCategory[] = ['SCS', 'NRCS', 'Huff', 'NOAA', 'Chicago', 'Atlas14'];
+const OUTPUT_FORMATS = ['csv', 'swmm', 'inp', 'json'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+const TIME_FORMATS: TimeFormat[] = ['relative', 'iso', 'us'];
+
+// Flags that take no value
+const BOOLEAN_FLAGS = ['verbose'];
+
+const HELP_TEXT = `gstorm - design storm hyetographs from the command line
+
+Commands:
+  generate    Calculate a storm and write it as CSV, SWMM .dat, SWMM .inp sections or JSON
+  list        List storm categories, sub-types and published durations
+  help        Show this message
+
+Options for generate:
+  --category <name>          SCS, NRCS, Huff, NOAA, Chicago or Atlas14 (default SCS)
+  --type <name>              Sub-type, e.g. "Type II" (default: first of the category)
+  --duration <hours>         Storm duration (default 24)
+  --depth <value>            Total depth, in or mm (not used by Chicago)
+  --step <minutes>           Time step (default 6; NRCS and Huff allow 1 or 6)
+  --units <us|metric>        Depth units (default us)
+  --format <csv|swmm|inp|json> Output format (default csv)
+  --output <file>            Write to a file instead of standard output
+  --cn <number>              SCS curve number for rainfall excess
+  --ia-ratio <0.2|0.05>      Initial abstraction ratio (default 0.2)
+  --noaa <file>              NOAA PFDS depth CSV (NOAA category)
+  --return-period <years>    Return period taken from the NOAA CSV
+  --peak <fraction>          Peak position 0-1 for NOAA and Chicago (default 0.5)
+  --idf <a,b,c>              Chicago IDF coefficients for i = a / (t + b)^c
+  --huff-table <file>        Huff probability table to register
+  --huff-probability <pct>   Huff probability level from the table
+  --atlas14-probability <pct> Atlas 14 probability level (default 50)
+  --areal-reduction <method> TP-29 or NERC (needs --area)
+  --area <value>             Drainage area, ac or ha
+  --climate-uplift <pct>     Uniform climate-change uplift of the depth
+  --interpolation <mode>     linear or pchip (default linear)
+  --peak-shift <fraction>    Re-order a tabulated curve so its peak falls at this fraction (0-1)
+  --start <date-time>        Storm start as local YYYY-MM-DDTHH:MM; dates every step
+  --time-zone <zone>         Time zone of --start: IANA name such as America/Chicago (follows daylight
+                             saving changes) or fixed offset such as -05:00 (default +00:00)
+  --utc-offset <offset>      Same as --time-zone
+  --time-format <format>     relative, iso or us (MM/DD/YYYY HH:MM) times in csv, swmm and inp (default: iso with --start)
+  --gage <name>              SWMM rain gage name for inp (default RG1)
+  --rain-format <format>     INTENSITY, VOLUME or CUMULATIVE for inp (default INTENSITY)
+  --interval <minutes>       SWMM gage interval for inp, a multiple of --step (default: the step)
+  --scf <factor>             SWMM snow catch factor for inp (default 1.0)
+  --verbose                  Also print curve adjustment notes and engine logs to standard error
+`;
+
+// --- Argument Parsing ---
+
+interface ParsedArgs {
+    command: string;
+    options: { [flag: string]: string };
+}
+
+/**
+ * Splits the command line into a command and --flag value pairs.
+ * @param argv Arguments after the script name.
+ * @returns The parsed command and options.
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+    const [command = 'help', ...rest] = argv;
+    const options: { [flag: string]: string } = {};
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        if (!arg.startsWith('--')) {
+            throw new Error(`Unexpected argument "${arg}".`);
+        }
+        const [flag, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+        if (inlineValue !== undefined) {
+            options[flag] = inlineValue;
+        } else if (BOOLEAN_FLAGS.includes(flag)) {
+            options[flag] = 'true';
+        } else if (i + 1 < rest.length) {
+            options[flag] = rest[++i];
+        } else {
+            throw new Error(`Missing value for --${flag}.`);
+        }
+    }
+    return { command, options };
+}
+
+function parseNumberOption(options: ParsedArgs['options'], flag: string, fallback?: number): number | undefined {
+    const raw = options[flag];
+    if (raw === undefined) return fallback;
+    const value = parseFloat(raw);
+    if (isNaN(value)) {
+        throw new Error(`--${flag} must be a number (got "${raw}").`);
+    }
+    return value;
+}
+
+function parseChoiceOption<T extends string>(options: ParsedArgs['options'], flag: string, choices: readonly T[], fallback: T): T {
+    const raw = options[flag] ?? fallback;
+    if (!choices.includes(raw as T)) {
+        throw new Error(`--${flag} must be one of ${choices.join(', ')} (got "${raw}").`);
+    }
+    return raw as T;
+}
+
+// --- Commands ---
+
+/**
+ * Reads the NOAA depth-duration curve for one return period.
+ * @param filePath Path to a NOAA PFDS CSV.
+ * @param returnPeriod Return period (years).
+ * @returns Depth-duration points in minutes and inches.
+ */
+function readNoaaDepthDuration(filePath: string, returnPeriod: number): DepthDurationPoint[] {
+    const parsed = parseNoaaCsv(readFileSync(filePath, 'utf-8'));
+    if (!parsed) {
+        throw new Error(`Could not parse NOAA CSV "${filePath}".`);
+    }
+    const returnPeriodData = parsed.find(rp => rp.returnPeriod === returnPeriod);
+    if (!returnPeriodData) {
+        throw new Error(`NOAA CSV has no ${returnPeriod}-yr return period (available: ${parsed.map(rp => rp.returnPeriod).join(', ')}).`);
+    }
+    return returnPeriodData.dataPoints.map(dp => ({
+        durationMinutes: dp.durationUnits === 'minutes' ? dp.durationValue : dp.durationValue * 60,
+        depth: dp.depth,
+    }));
+}
+
+/**
+ * Builds the calculation inputs from generate options.
+ * @param options Parsed --flag values.
+ * @returns Inputs for calculateHyetograph.
+ */
+function buildCalculationInputs(options: ParsedArgs['options']): CalculationInputs {
+    const stormCategory = parseChoiceOption(options, 'category', CATEGORIES, 'SCS');
+    const stormSubType = options.type ?? stormSubTypesByCategory[stormCategory][0];
+    if (!stormSubTypesByCategory[stormCategory].includes(stormSubType)) {
+        throw new Error(`Unknown ${stormCategory} type "${stormSubType}" (available: ${stormSubTypesByCategory[stormCategory].join(', ')}).`);
+    }
+
+    const isChicago = stormCategory === 'Chicago';
+    const totalDepthInput = parseNumberOption(options, 'depth');
+    if (!isChicago && totalDepthInput === undefined) {
+        throw new Error('--depth is required.');
+    }
+
+    let depthDurationData: DepthDurationPoint[] | undefined;
+    if (stormCategory === 'NOAA') {
+        const returnPeriod = parseNumberOption(options, 'return-period');
+        if (!options.noaa || returnPeriod === undefined) {
+            throw new Error('The NOAA category needs --noaa <file> and --return-period <years>.');
+        }
+        depthDurationData = readNoaaDepthDuration(options.noaa, returnPeriod);
+    }
+
+    let idfCoefficients: CalculationInputs['idfCoefficients'];
+    if (isChicago) {
+        const [a, b, c] = (options.idf ?? '').split(',').map(value => parseFloat(value));
+        if ([a, b, c].some(value => value === undefined || isNaN(value))) {
+            throw new Error('The Chicago category needs --idf a,b,c.');
+        }
+        idfCoefficients = { a, b, c };
+    }
+
+    const huffProbability = parseNumberOption(options, 'huff-probability');
+    if (options['huff-table']) {
+        const registration = registerHuffProbabilityCurves(readFileSync(options['huff-table'], 'utf-8'));
+        if (registration.errors.length > 0) {
+            throw new Error(`Invalid Huff table:\n  ${registration.errors.join('\n  ')}`);
+        }
+    }
+
+    let arealReduction: CalculationInputs['arealReduction'];
+    if (options['areal-reduction']) {
+        const method = parseChoiceOption<ArealReductionMethod>(options, 'areal-reduction', ['TP-29', 'NERC'], 'TP-29');
+        const drainageArea = parseNumberOption(options, 'area');
+        if (drainageArea === undefined) {
+            throw new Error('--areal-reduction needs --area.');
+        }
+        arealReduction = { method, drainageArea };
+    }
+
+    let stormStart: CalculationInputs['stormStart'];
+    if (options.start) {
+        stormStart = parseStormStart(options.start, options['time-zone'] ?? options['utc-offset'] ?? '') ?? undefined;
+        if (!stormStart) {
+            throw new Error(`--start must be a local date and time like 2024-06-01T18:00, with a --time-zone like America/Chicago or -05:00, and not skipped by a daylight saving change (got "${options.start}").`);
+        }
+    }
+
+    const timeStepMinutes = parseNumberOption(options, 'step', 6)!;
+    if (!Number.isInteger(timeStepMinutes) || timeStepMinutes <= 0) {
+        throw new Error('--step must be a positive whole number of minutes.');
+    }
+    if ((stormCategory === 'NRCS' || stormCategory === 'Huff') && timeStepMinutes !== 1 && timeStepMinutes !== 6) {
+        throw new Error(`${stormCategory} storms need --step 1 or 6 (got ${timeStepMinutes}).`);
+    }
+
+    const climateUplift = parseNumberOption(options, 'climate-uplift');
+    const iaRatio = parseNumberOption(options, 'ia-ratio', 0.2);
+    if (iaRatio !== 0.2 && iaRatio !== 0.05) {
+        throw new Error('--ia-ratio must be 0.2 or 0.05.');
+    }
+
+    return {
+        totalDepthInput: totalDepthInput ?? 0,
+        durationInput: parseNumberOption(options, 'duration', 24)!,
+        stormCategory,
+        stormSubType,
+        timeStepMinutes,
+        depthUnit: parseChoiceOption(options, 'units', ['us', 'metric'] as const, 'us'),
+        durationUnit: 'hours',
+        curveNumber: parseNumberOption(options, 'cn'),
+        initialAbstractionRatio: iaRatio as InitialAbstractionRatio,
+        depthDurationData,
+        peakPosition: parseNumberOption(options, 'peak', 0.5),
+        idfCoefficients,
+        huffProbability: stormCategory === 'Huff' ? huffProbability : undefined,
+        arealReduction,
+        climateAdjustment: climateUplift !== undefined ? { method: 'uniform', upliftPercent: climateUplift } : undefined,
+        interpolationMode: parseChoiceOption<InterpolationMode>(options, 'interpolation', ['linear', 'pchip'], 'linear'),
+        atlas14Probability: parseNumberOption(options, 'atlas14-probability'),
+        peakShift: parseNumberOption(options, 'peak-shift'),
+        stormStart,
+    };
+}
+
+/**
+ * Formats a calculated storm for output.
+ * @param result The calculated storm.
+ * @param inputs Inputs it was calculated from.
+ * @param format Output format.
+ * @param timeFormat Time column format for csv, swmm and inp.
+ * @param options Parsed --flag values (SWMM gage settings for inp).
+ * @returns The file content.
+ */
+function formatResult(result: CalculationResult, inputs: CalculationInputs, format: OutputFormat, timeFormat: TimeFormat, options: ParsedArgs['options']): string {
+    switch (format) {
+        case 'swmm':
+            return generateSwmmDatContent(result, {
+                stormCategory: inputs.stormCategory,
+                stormSubType: inputs.stormSubType,
+                duration: inputs.durationInput,
+                totalDepth: inputs.totalDepthInput,
+                depthUnits: inputs.depthUnit,
+            }, timeFormat);
+        case 'inp': {
+            const content = generateSwmmInpContent(result, {
+                gageName: options.gage ?? 'RG1',
+                rainFormat: parseChoiceOption<SwmmRainFormat>(options, 'rain-format', ['INTENSITY', 'VOLUME', 'CUMULATIVE'], 'INTENSITY'),
+                intervalMinutes: parseNumberOption(options, 'interval', inputs.timeStepMinutes)!,
+                snowCatchFactor: parseNumberOption(options, 'scf', 1.0)!,
+                timeFormat,
+            });
+            if (content === null) {
+                throw new Error('--interval must be a whole multiple of --step and --scf must be positive.');
+            }
+            return content;
+        }
+        case 'json':
+            return JSON.stringify(result, null, 2) + '\n';
+        default:
+            return generateHyetographCsv(result, timeFormat);
+    }
+}
+
+function runGenerate(options: ParsedArgs['options']): number {
+    const format = parseChoiceOption(options, 'format', OUTPUT_FORMATS, 'csv');
+    const inputs = buildCalculationInputs(options);
+    const timeFormat = parseChoiceOption(options, 'time-format', TIME_FORMATS, inputs.stormStart ? 'iso' : 'relative');
+    const result = calculateHyetograph(inputs);
+    result.diagnostics
+        .filter(diagnostic => diagnostic.severity !== 'info' || options.verbose)
+        .forEach(diagnostic => console.error(`gstorm: ${diagnostic.severity} [${diagnostic.code}] ${diagnostic.message}`));
+    if (result.detailedData.length === 0) {
+        return 1;
+    }
+
+    const content = formatResult(result, inputs, format, timeFormat, options);
+    if (options.output) {
+        writeFileSync(options.output, content);
+        console.error(`gstorm: wrote ${result.detailedData.length} steps (${result.totalDepthActual.toFixed(3)} ${result.depthUnit}) to ${options.output}`);
+    } else {
+        process.stdout.write(content);
+    }
+    return 0;
+}
+
+function runList(): number {
+    (Object.keys(stormSubTypesByCategory) as StormCategory[])
+        .filter(category => stormSubTypesByCategory[category].length > 0)
+        .forEach(category => {
+            console.info(category);
+            stormSubTypesByCategory[category].forEach(subType => {
+                if (category === 'Atlas14') {
+                    // Durations are published per probability level
+                    const levels = getAtlas14ProbabilityLevels(subType);
+                    const durations = levels.length > 0 ? getPublishedDurations(category, formatAtlas14CurveName(subType, levels[0])) : [];
+                    console.info(`  ${subType}: ${levels.join(', ')}%; ${durations.join(', ')} hr (others are time-scaled)`);
+                    return;
+                }
+                const durations = getPublishedDurations(category, subType);
+                const durationText = subType === NOAA_ALTERNATING_BLOCK ? 'durations covered by the NOAA CSV'
+                    : subType === CHICAGO_KEIFER_CHU ? 'any duration'
+                    : `${durations.join(', ')} hr (others are time-scaled)`;
+                console.info(`  ${subType}: ${durationText}`);
+            });
+        });
+    return 0;
+}
+
+// --- Entry Point ---
+
+function main(argv: string[]): number {
+    let args: ParsedArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (error) {
+        console.error(`gstorm: ${(error as Error).message}`);
+        return 2;
+    }
+
+    // Engine tracing goes to standard error so it never mixes into output written to standard output
+    setEngineDebugLogger(args.options.verbose ? console.error : null);
+    loadBundledDistributions(BUNDLED_DISTRIBUTION_CSVS);
+
+    try {
+        switch (args.command) {
+            case 'generate':
+                return runGenerate(args.options);
+            case 'list':
+                return runList();
+            case 'help':
+            case '--help':
+                process.stdout.write(HELP_TEXT);
+                return 0;
+            default:
+                console.error(`gstorm: unknown command "${args.command}".\n`);
+                process.stderr.write(HELP_TEXT);
+                return 2;
+        }
+    } catch (error) {
+        console.error(`gstorm: ${(error as Error).message}`);
+        return 1;
+    }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -1,14 +1,27 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react';
+import { Chart as ChartJS } from 'chart.js';
 import InputForm from './components/InputForm'; // Import the form component
-import { calculateHyetograph, CalculationInputs } from './utils/tr55';
-import { CalculationResult, StormInputParameters, NoaaState } from './types';
+import CustomDistributionUpload from './components/CustomDistributionUpload'; // Import the custom distribution upload
+import { calculateHyetograph, CalculationInputs, NOAA_ALTERNATING_BLOCK, CHICAGO_KEIFER_CHU, stormSubTypesByCategory, getPublishedDurations, interpolateDepthDuration, getHuffProbabilityLevels, calculateClimateFactor, getAtlas14ProbabilityLevels, getAtlas14SubTypesForVolume } from './utils/tr55';
+import { loadStoredCustomDistributions, restoreCustomDistributions, StoredCustomDistribution } from './utils/customDistributions';
+import { calculateRunoffHydrograph } from './utils/runoff';
+import { CalculationDiagnostic, CalculationResult, ClimateAdjustment, ClimateChangeFactor, StormInputParameters, NoaaState, RunoffResult, StormCategory, NoaaReturnPeriodData, DepthDurationPoint, SeriesEventEntry } from './types';
 import HyetographChart from './components/HyetographChart'; // Import the chart
+import RunoffChart from './components/RunoffChart'; // Import the runoff chart
+import RunoffTable from './components/RunoffTable'; // Import the runoff table
 import SummaryTable from './components/SummaryTable'; // Import SummaryTable
 import DetailedTable from './components/DetailedTable'; // Import DetailedTable
+import DiagnosticsList from './components/DiagnosticsList'; // Errors and warnings shown in the Output panel
+import EventSeriesBuilder from './components/EventSeriesBuilder'; // Back-to-back storms with dry periods
+import ReportExport from './components/ReportExport'; // Printable PDF design storm report
 import NoaaMap from './components/NoaaMap'; // Import the map
 import NoaaDataTable from './components/NoaaDataTable'; // Import the new table
 import L from 'leaflet'; // Import Leaflet library for LatLng type
-import { parseNoaaCsv } from './utils/noaaParser'; // Import the parser
+import { parseNoaaCsv, parseNoaaAtlasVolume } from './utils/noaaParser'; // Import the parser
+import { findAtlas14Region, suggestStormTypes } from './utils/stormRegions'; // Offline storm type and Atlas 14 region lookup for map locations
+import { getBrowserTimeZone, parseStormStart } from './utils/timestamps';
+import { createProjectFile, getProjectNoaaLocation, parseProjectFile } from './utils/projectFile'; // Saved GStorm projects
+import { downloadTextFile } from './utils/download';
 
 // Default input values
 const defaultInputs: StormInputParameters = {
@@ -18,6 +31,30 @@ const defaultInputs: StormInputParameters = {
   stormSubType: 'Type II', // Default sub-type for SCS
   timeStep: '6',
   depthUnits: 'us',
+  curveNumber: '', // Empty disables the rainfall excess calculation
+  initialAbstractionRatio: 0.2,
+  drainageArea: '', // Empty disables the runoff hydrograph
+  timeOfConcentration: '1.0',
+  peakRateFactor: '484',
+  peakPosition: '0.5',
+  noaaReturnPeriod: null,
+  idfA: '60', // Example IDF curve (in/hr, t in minutes)
+  idfB: '10',
+  idfC: '0.8',
+  huffProbability: null,
+  arealReductionMethod: 'none',
+  climateMethod: 'none',
+  climateUpliftPercent: '20',
+  climateScalingRate: '7',
+  climateWarming: '2',
+  climateChangeFactors: [],
+  climateTableName: '',
+  interpolationMode: 'linear',
+  atlas14Probability: 50, // Median curve
+  peakShift: '',
+  stormStart: '', // Undated: times relative to the storm start
+  timeZone: getBrowserTimeZone(), // Browser's zone, e.g. America/Chicago
+  timeFormat: 'relative',
 };
 
 // Initial state for NOAA data
@@ -27,39 +64,68 @@ const initialNoaaState: NoaaState = {
     isLoading: false,
     error: null,
     data: null,
-    statusMessage: 'Click map to select location.'
+    statusMessage: 'Click map to select location.',
+    atlas14Volume: null,
+    retrievedAt: null,
+    stormTypeSuggestions: []
 };
 
+// Keeps the Atlas 14 probability level if the sub-type has it, otherwise the median (or middle) level
+function pickAtlas14Probability(subType: string, current: number): number {
+    const levels = getAtlas14ProbabilityLevels(subType);
+    if (levels.length === 0 || levels.includes(current)) return current;
+    return levels.includes(50) ? 50 : levels[Math.floor(levels.length / 2)];
+}
+
 function App() {
   const [inputs, setInputs] = useState<StormInputParameters>(defaultInputs);
   const [calculationResult, setCalculationResult] = useState<CalculationResult | null>(null);
+  const [calculatedInputs, setCalculatedInputs] = useState<StormInputParameters | null>(null); // Inputs behind calculationResult
+  const [runoffResult, setRunoffResult] = useState<RunoffResult | null>(null);
+  const hyetographChartRef = useRef<ChartJS<'bar'>>(null); // Drawn chart, for the PDF report
+  const [diagnostics, setDiagnostics] = useState<CalculationDiagnostic[]>([]); // Shown in the Output panel
   const [noaaState, setNoaaState] = useState<NoaaState>(initialNoaaState); // Add NOAA state
+  // Custom distributions saved in browser storage are registered before the first render
+  const [customDistributions, setCustomDistributions] = useState<StoredCustomDistribution[]>(loadStoredCustomDistributions);
+  const [seriesEvents, setSeriesEvents] = useState<SeriesEventEntry[]>([]); // Storms chained in the event series
 
   // Handler for input changes
-  const handleInputChange = (field: keyof StormInputParameters, value: string | number | (6 | 12 | 24)) => {
+  const handleInputChange = (field: keyof StormInputParameters, value: string | number) => {
     // Log the raw input change
     console.log(`Input changed: Field=${field}, Value=${value}, Type=${typeof value}`);
 
     setInputs((prev) => {
         // Store the previous category to detect changes
         const prevCategory = prev.stormCategory;
-        let processedValue: string | number | (6 | 12 | 24) | 'SCS' | 'NRCS' | 'Huff' = value;
+        let processedValue: string | number | StormCategory = value;
         let newState = { ...prev }; // Start with a copy of the previous state
 
         // Handle category change first, as it affects other fields
         if (field === 'stormCategory') {
-            const newCategory = value as 'SCS' | 'NRCS' | 'Huff';
+            const newCategory = value as StormCategory;
             processedValue = newCategory;
             newState.stormCategory = newCategory;
 
-            // Reset sub-type and duration based on new category
+            // Reset sub-type based on new category (any duration is allowed for every category)
             if (newCategory !== prevCategory) {
                 if (newCategory === 'SCS') {
                     newState.stormSubType = 'Type II'; // Default SCS sub-type
-                    // Duration remains user-selectable
+                } else if (newCategory === 'NOAA') {
+                    newState.stormSubType = NOAA_ALTERNATING_BLOCK;
+                    // Depth comes from the selected NOAA return period
+                } else if (newCategory === 'Chicago') {
+                    newState.stormSubType = CHICAGO_KEIFER_CHU;
+                    // Depth comes from the IDF curve
+                } else if (newCategory === 'Custom') {
+                    newState.stormSubType = stormSubTypesByCategory.Custom[0] ?? '';
+                } else if (newCategory === 'Atlas14') {
+                    newState.stormSubType = stormSubTypesByCategory.Atlas14[0] ?? '';
+                    newState.atlas14Probability = pickAtlas14Probability(newState.stormSubType, newState.atlas14Probability);
                 } else { // NRCS or Huff
-                    newState.duration = 24; // Force duration to 24hr
                     newState.stormSubType = newCategory === 'NRCS' ? 'Northeast Type A' : 'Huff Type I';
+                    if (newState.huffProbability !== null && !getHuffProbabilityLevels(newState.stormSubType).includes(newState.huffProbability)) {
+                        newState.huffProbability = null;
+                    }
                     // Reset timeStep if current value is invalid for NRCS/Huff
                     if (!['1', '6'].includes(String(newState.timeStep))) {
                          console.log(`Resetting timeStep to 6 for ${newCategory} category.`);
@@ -76,8 +142,8 @@ function App() {
         // Handle timeStep changes, enforcing NRCS/Huff restrictions
         else if (field === 'timeStep') {
             const timeStepValue = String(value);
-            // Allow any positive integer for SCS
-            if (newState.stormCategory === 'SCS') {
+            // Allow any positive integer for SCS, NOAA alternating block, Chicago and Custom
+            if (newState.stormCategory !== 'NRCS' && newState.stormCategory !== 'Huff') {
                 // Basic validation for positive integers (allow empty string during typing)
                 if (timeStepValue === '' || /^[1-9][0-9]*$/.test(timeStepValue)) {
                     processedValue = timeStepValue;
@@ -99,25 +165,82 @@ function App() {
                 }
             }
         }
-        // Special handling for duration (only applies if SCS)
-        else if (field === 'duration' && newState.stormCategory === 'SCS') {
-            const numValue = typeof value === 'string' ? parseInt(value, 10) : value;
-            if (typeof numValue === 'number' && [6, 12, 24].includes(numValue)) {
-                processedValue = numValue as 6 | 12 | 24;
-                console.log(`Processed duration to number: ${processedValue}`);
-            } else {
-                console.error(`Error processing input for ${field}: Expected 6, 12, or 24 but got ${value}`);
-                return prev; // Revert if duration is invalid for SCS
-            }
+        // Any duration is accepted (validated on calculation); NaN while the field is empty
+        else if (field === 'duration') {
+            processedValue = typeof value === 'string' ? parseFloat(value) : value;
+            console.log(`Processed duration to number: ${processedValue}`);
         }
          // Handle subType changes
          else if (field === 'stormSubType') {
              processedValue = String(value);
+             // Keep the Huff probability level only if the new quartile has it
+             if (newState.huffProbability !== null && !getHuffProbabilityLevels(processedValue).includes(newState.huffProbability)) {
+                 newState.huffProbability = null;
+             }
+             newState.atlas14Probability = pickAtlas14Probability(processedValue, newState.atlas14Probability);
+         }
+         // Areal reduction method must be one of the supported curves
+         else if (field === 'arealReductionMethod') {
+             if (value !== 'none' && value !== 'TP-29' && value !== 'NERC') {
+                 console.error(`Error processing input for ${field}: Unknown method ${value}`);
+                 return prev;
+             }
+             processedValue = value;
+         }
+         // Climate adjustment settings
+         else if (field === 'climateMethod') {
+             if (value !== 'none' && value !== 'uniform' && value !== 'clausius-clapeyron' && value !== 'table') {
+                 console.error(`Error processing input for ${field}: Unknown method ${value}`);
+                 return prev;
+             }
+             processedValue = value;
+         }
+         else if (field === 'climateUpliftPercent' || field === 'climateScalingRate' || field === 'climateWarming') {
+             processedValue = String(value);
+         }
+         // Time format must be one of the supported formats
+         else if (field === 'timeFormat') {
+             if (value !== 'relative' && value !== 'iso' && value !== 'us') {
+                 console.error(`Error processing input for ${field}: Unknown format ${value}`);
+                 return prev;
+             }
+             processedValue = value;
+         }
+         // Interpolation mode must be one of the supported modes
+         else if (field === 'interpolationMode') {
+             if (value !== 'linear' && value !== 'pchip') {
+                 console.error(`Error processing input for ${field}: Unknown mode ${value}`);
+                 return prev;
+             }
+             processedValue = value;
+         }
+         // Huff probability level: empty selects the bundled curve
+         else if (field === 'huffProbability') {
+             newState.huffProbability = value === '' ? null : parseFloat(String(value));
+             return newState;
+         }
+         // Atlas 14 probability level (%)
+         else if (field === 'atlas14Probability') {
+             processedValue = parseFloat(String(value));
          }
          // For depthUnits, ensure it's a string
          else if (field === 'depthUnits') {
              processedValue = String(value);
          }
+         // Keep curveNumber, runoff and peak position fields as strings (empty string disables them)
+         else if (field === 'curveNumber' || field === 'drainageArea' || field === 'timeOfConcentration' || field === 'peakRateFactor' || field === 'peakPosition' || field === 'peakShift' ||
+                  field === 'idfA' || field === 'idfB' || field === 'idfC' || field === 'stormStart' || field === 'timeZone') {
+             processedValue = String(value);
+         }
+         // Initial abstraction ratio must be one of the supported values
+         else if (field === 'initialAbstractionRatio') {
+             const ratio = parseFloat(String(value));
+             if (ratio !== 0.2 && ratio !== 0.05) {
+                 console.error(`Error processing input for ${field}: Expected 0.2 or 0.05 but got ${value}`);
+                 return prev;
+             }
+             processedValue = ratio;
+         }
 
         // Update the specific field that triggered the change
         // Use type assertion carefully here
@@ -138,34 +261,132 @@ function App() {
       // triggerCalculation(inputs);
   };
 
+  // Handler for an uploaded climate change-factor table
+  const handleClimateTableLoad = (factors: ClimateChangeFactor[], fileName: string) => {
+      setInputs((prev) => ({ ...prev, climateChangeFactors: factors, climateTableName: fileName }));
+  };
+
+  // Handler for uploaded/removed custom distributions
+  const handleCustomDistributionsChange = (entries: StoredCustomDistribution[], addedName?: string) => {
+      setCustomDistributions(entries);
+      if (addedName && stormSubTypesByCategory.Custom.includes(addedName)) {
+          // Select the newly uploaded distribution (Huff probability tables are picked from the Huff selector)
+          setInputs((prev) => ({
+              ...prev,
+              stormCategory: 'Custom',
+              stormSubType: addedName,
+              duration: getPublishedDurations('Custom', addedName).slice(-1)[0] ?? prev.duration,
+          }));
+      } else if (inputs.stormCategory === 'Custom' && !stormSubTypesByCategory.Custom.includes(inputs.stormSubType)) {
+          // The selected distribution was removed
+          setInputs((prev) => ({ ...prev, stormSubType: stormSubTypesByCategory.Custom[0] ?? '' }));
+      } else if (inputs.huffProbability !== null && !getHuffProbabilityLevels(inputs.stormSubType).includes(inputs.huffProbability)) {
+          // The selected Huff probability level was removed
+          setInputs((prev) => ({ ...prev, huffProbability: null }));
+      }
+  };
+
   // Function to validate inputs and trigger calculation
-  const triggerCalculation = useCallback((currentInputs: StormInputParameters) => {
+  // NOAA data is passed explicitly so the alternating-block storm can use the selected return period
+  const triggerCalculation = useCallback((currentInputs: StormInputParameters, noaaData: NoaaReturnPeriodData[] | null) => {
+       // Clears previous results and explains why nothing was calculated
+       const failWith = (failures: CalculationDiagnostic[]) => {
+           setDiagnostics(failures);
+           setCalculationResult(null);
+           setRunoffResult(null);
+       };
+
        // Validate and convert inputs to numbers
        // Explicitly convert to string before parsing, as the type could be number | string
        const depthNum = parseFloat(String(currentInputs.totalDepth));
-       // currentInputs.duration is already 6 | 12 | 24
+       // currentInputs.duration is already a number
        // Explicitly convert to string before parsing
        const timeStepNum = parseInt(String(currentInputs.timeStep), 10);
 
-       // Duration check needs to consider category
-       const isValidDuration = currentInputs.stormCategory === 'SCS'
-           ? [6, 12, 24].includes(currentInputs.duration)
-           : currentInputs.duration === 24;
+       // Any positive duration; curves without a published duration are time-scaled
+       const isValidDuration = !isNaN(currentInputs.duration) && currentInputs.duration > 0;
 
        // Time step validation
        const timeStepStr = String(currentInputs.timeStep);
        const isValidTimeStep =
            isNaN(timeStepNum) || timeStepNum <= 0 ? false :
-           currentInputs.stormCategory === 'SCS' ? true : // Any positive integer is fine for SCS (already parsed)
+           currentInputs.stormCategory !== 'NRCS' && currentInputs.stormCategory !== 'Huff' ? true : // Any positive integer is fine outside NRCS/Huff (already parsed)
            ['1', '6'].includes(timeStepStr); // Must be exactly '1' or '6' for NRCS/Huff
 
-       if (isNaN(depthNum) || depthNum <= 0 ||
-           !isValidDuration ||
-           !isValidTimeStep) { // Use the new time step validation
+       // Curve number is optional; when given it must be in (0, 100]
+       const curveNumberStr = String(currentInputs.curveNumber).trim();
+       const curveNumberNum = curveNumberStr === '' ? undefined : parseFloat(curveNumberStr);
+       const isValidCurveNumber = curveNumberNum === undefined ||
+           (!isNaN(curveNumberNum) && curveNumberNum > 0 && curveNumberNum <= 100);
+
+       // Alternating block needs the selected NOAA return period's depth-duration curve
+       const peakPositionNum = parseFloat(String(currentInputs.peakPosition));
+       const isValidPeakPosition = !isNaN(peakPositionNum) && peakPositionNum >= 0 && peakPositionNum <= 1;
+       // Peak timing is optional and only re-orders tabulated curves (NOAA and Chicago place their own peak)
+       const peakShiftStr = String(currentInputs.peakShift).trim();
+       const usesPeakShift = peakShiftStr !== '' && currentInputs.stormCategory !== 'NOAA' && currentInputs.stormCategory !== 'Chicago';
+       const peakShiftNum = usesPeakShift ? parseFloat(peakShiftStr) : undefined;
+       const isValidPeakShift = peakShiftNum === undefined || (peakShiftNum >= 0 && peakShiftNum <= 1);
+       // Start date is optional; when given, every step is dated
+       const stormStart = currentInputs.stormStart.trim() === '' ? undefined : parseStormStart(currentInputs.stormStart, currentInputs.timeZone);
+       let depthDurationData: DepthDurationPoint[] | undefined;
+       if (currentInputs.stormCategory === 'NOAA') {
+           const returnPeriodData = noaaData?.find(rp => rp.returnPeriod === currentInputs.noaaReturnPeriod);
+           if (!returnPeriodData) {
+               console.error("NOAA alternating block selected without NOAA data.", currentInputs);
+               failWith([{
+                   code: 'NOAA_DATA_MISSING',
+                   severity: 'error',
+                   message: 'Select a location on the map and choose a return period in the NOAA table to build an alternating block storm.'
+               }]);
+               return;
+           }
+           depthDurationData = returnPeriodData.dataPoints.map(dp => ({
+               durationMinutes: dp.durationUnits === 'minutes' ? dp.durationValue : dp.durationValue * 60,
+               depth: dp.depth,
+           }));
+       }
+
+       // Chicago storms are defined by IDF coefficients; their depth comes from the IDF curve
+       const isChicago = currentInputs.stormCategory === 'Chicago';
+       const idfCoefficients = {
+           a: parseFloat(String(currentInputs.idfA)),
+           b: parseFloat(String(currentInputs.idfB)),
+           c: parseFloat(String(currentInputs.idfC)),
+       };
+       const isValidIdf = !isChicago ||
+           (idfCoefficients.a > 0 && idfCoefficients.b >= 0 && idfCoefficients.c > 0 && idfCoefficients.c < 1);
+
+       // Climate adjustment: the selected method's inputs must be complete
+       const climateAdjustment: ClimateAdjustment | undefined = currentInputs.climateMethod === 'none' ? undefined : {
+           method: currentInputs.climateMethod,
+           upliftPercent: parseFloat(String(currentInputs.climateUpliftPercent)),
+           scalingRate: parseFloat(String(currentInputs.climateScalingRate)),
+           warming: parseFloat(String(currentInputs.climateWarming)),
+           changeFactors: currentInputs.climateChangeFactors,
+       };
+       const isValidClimate = !climateAdjustment || !isNaN(calculateClimateFactor(climateAdjustment, currentInputs.duration));
+
+       // Areal reduction needs the drainage area
+       const isValidArealReduction = currentInputs.arealReductionMethod === 'none' ||
+           parseFloat(String(currentInputs.drainageArea)) > 0;
+
+       // One diagnostic per failed check
+       const inputErrors = [
+           !isChicago && (isNaN(depthNum) || depthNum <= 0) && 'Depth must be a positive number.',
+           !isValidIdf && 'Chicago IDF coefficients need a > 0, b >= 0 and 0 < c < 1.',
+           !isValidArealReduction && 'An areal reduction factor needs a positive drainage area.',
+           !isValidClimate && 'Climate adjustments need an uplift above -100%, a scaling rate and warming, or an uploaded change-factor table.',
+           !isValidDuration && 'Duration must be a positive number of hours.',
+           !isValidTimeStep && 'Time Step must be a positive integer (only 1 or 6 allowed for NRCS/Huff).',
+           !isValidCurveNumber && 'Curve Number, if given, must be greater than 0 and at most 100.',
+           !isValidPeakPosition && 'Peak position must be between 0 and 1.',
+           !isValidPeakShift && 'Peak timing, if given, must be between 0 and 1.',
+           stormStart === null && 'Storm start needs a valid date and time (not one skipped by a daylight saving change) and a time zone such as America/Chicago or a UTC offset such as -05:00.',
+       ].filter((message): message is string => typeof message === 'string');
+       if (inputErrors.length > 0) {
            console.error("Invalid input values for calculation.", currentInputs);
-           // Update alert message
-           alert(`Please ensure all inputs are valid. Depth must be positive. Duration must be 6, 12, or 24 for SCS storms (fixed at 24 for NRCS/Huff). Time Step must be a positive integer (only 1 or 6 allowed for NRCS/Huff).`);
-           setCalculationResult(null); // Clear previous results on invalid input
+           failWith(inputErrors.map(message => ({ code: 'INVALID_INPUT', severity: 'error', message })));
            return;
        }
 
@@ -178,27 +399,73 @@ function App() {
            timeStepMinutes: timeStepNum,
            depthUnit: currentInputs.depthUnits,
            durationUnit: 'hours',
+           curveNumber: curveNumberNum,
+           initialAbstractionRatio: currentInputs.initialAbstractionRatio,
+           depthDurationData,
+           peakPosition: peakPositionNum,
+           idfCoefficients: isChicago ? idfCoefficients : undefined,
+           huffProbability: currentInputs.stormCategory === 'Huff' && currentInputs.huffProbability !== null ? currentInputs.huffProbability : undefined,
+           arealReduction: currentInputs.arealReductionMethod !== 'none'
+               ? { method: currentInputs.arealReductionMethod, drainageArea: parseFloat(String(currentInputs.drainageArea)) }
+               : undefined,
+           climateAdjustment,
+           interpolationMode: currentInputs.interpolationMode,
+           atlas14Probability: currentInputs.atlas14Probability,
+           peakShift: peakShiftNum,
+           stormStart: stormStart ?? undefined,
        };
 
+       // Runoff hydrograph is optional: it needs a curve number, drainage area and Tc
+       const drainageAreaNum = parseFloat(String(currentInputs.drainageArea));
+       const tcNum = parseFloat(String(currentInputs.timeOfConcentration));
+       const peakRateFactorNum = parseFloat(String(currentInputs.peakRateFactor));
+       const wantsRunoff = curveNumberNum !== undefined && String(currentInputs.drainageArea).trim() !== '';
+       if (wantsRunoff && (isNaN(drainageAreaNum) || drainageAreaNum <= 0 || isNaN(tcNum) || tcNum <= 0 || isNaN(peakRateFactorNum) || peakRateFactorNum <= 0)) {
+           console.error("Invalid runoff hydrograph inputs.", currentInputs);
+           failWith([{
+               code: 'INVALID_INPUT',
+               severity: 'error',
+               message: 'Runoff hydrograph inputs are invalid: Drainage Area, Time of Concentration and Peak Rate Factor must be positive numbers.'
+           }]);
+           return;
+       }
+
        try {
            const result = calculateHyetograph(calculationParams);
+           if (result.detailedData.length === 0) {
+               // The engine reports why no storm was produced
+               failWith(result.diagnostics);
+               return;
+           }
+           setDiagnostics(result.diagnostics);
            setCalculationResult(result);
+           setCalculatedInputs(currentInputs);
+           setRunoffResult(wantsRunoff && curveNumberNum !== undefined ? calculateRunoffHydrograph(result, {
+               drainageArea: drainageAreaNum,
+               curveNumber: curveNumberNum,
+               initialAbstractionRatio: currentInputs.initialAbstractionRatio,
+               timeOfConcentrationHours: tcNum,
+               peakRateFactor: peakRateFactorNum,
+           }) : null);
        } catch (error) {
             console.error("Error during hyetograph calculation:", error);
-            alert("An error occurred during calculation. Please check inputs and try again.");
-            setCalculationResult(null); // Clear results on error
+            failWith([{
+                code: 'CALCULATION_FAILED',
+                severity: 'error',
+                message: `An error occurred during calculation (${error instanceof Error ? error.message : String(error)}). Please check inputs and try again.`
+            }]);
        }
   }, []);
 
   // Handler for form submission
   const handleSubmit = () => {
       console.log("Form submitted, triggering calculation with state:", inputs);
-      triggerCalculation(inputs); // Use current state
+      triggerCalculation(inputs, noaaState.data); // Use current state
   };
 
    // Initial calculation on component mount
    useEffect(() => {
-       triggerCalculation(defaultInputs);
+       triggerCalculation(defaultInputs, null);
    }, [triggerCalculation]); // Depend on the memoized triggerCalculation
 
   // --- NOAA Data Fetching Logic ---
@@ -211,6 +478,9 @@ function App() {
           isLoading: true,
           error: null,
           data: null,
+          atlas14Volume: null,
+          retrievedAt: null,
+          stormTypeSuggestions: suggestStormTypes(lat, lon), // From the bundled boundaries, so available even if the fetch fails
           statusMessage: `Fetching data for ${lat.toFixed(4)}, ${lon.toFixed(4)}...`
       }));
 
@@ -251,11 +521,45 @@ function App() {
           }
 
           console.log('Successfully fetched and parsed NOAA data:', parsedData);
+
+          // Preselect the Atlas 14 temporal curves of the location's volume, when any are bundled, narrowed to
+          // the temporal region containing the location when the HDSC region boundaries are bundled too
+          const atlas14Volume = parseNoaaAtlasVolume(csvText);
+          const atlas14Region = findAtlas14Region(lat, lon);
+          const regionSubTypes = atlas14Volume !== null && atlas14Region?.volume === atlas14Volume
+              ? getAtlas14SubTypesForVolume(atlas14Volume, atlas14Region.region)
+              : [];
+          const atlas14SubTypes = regionSubTypes.length > 0 ? regionSubTypes : atlas14Volume !== null ? getAtlas14SubTypesForVolume(atlas14Volume) : [];
+          let atlas14Message = '';
+          if (atlas14SubTypes.length > 0) {
+              setInputs((prev) => {
+                  // Keep the selected quartile (or all cases) when the volume has it
+                  const caseLabel = prev.stormCategory === 'Atlas14' ? prev.stormSubType.replace(/^Vol\. \S+ Region \S+ /, '') : '';
+                  const stormSubType = atlas14SubTypes.find(subType => subType.endsWith(` ${caseLabel}`)) ?? atlas14SubTypes[0];
+                  return {
+                      ...prev,
+                      stormCategory: 'Atlas14',
+                      stormSubType,
+                      atlas14Probability: pickAtlas14Probability(stormSubType, prev.atlas14Probability),
+                  };
+              });
+              const regionCount = new Set(atlas14SubTypes.map(subType => subType.split(' ')[3])).size;
+              atlas14Message = regionSubTypes.length > 0
+                  ? ` Atlas 14 Volume ${atlas14Volume} Region ${atlas14Region?.region} curves preselected.`
+                  : regionCount > 1
+                  ? ` Atlas 14 Volume ${atlas14Volume} curves preselected; the volume has ${regionCount} temporal regions, so confirm the region.`
+                  : ` Atlas 14 Volume ${atlas14Volume} curves preselected.`;
+          } else if (atlas14Volume !== null) {
+              atlas14Message = ` No Atlas 14 Volume ${atlas14Volume} temporal curves are bundled.`;
+          }
+
           setNoaaState((prev: NoaaState): NoaaState => ({
               ...prev,
               isLoading: false,
               data: parsedData,
-              statusMessage: `Data loaded for ${lat.toFixed(4)}, ${lon.toFixed(4)}. Select an event.`
+              atlas14Volume,
+              retrievedAt: Date.now(),
+              statusMessage: `Data loaded for ${lat.toFixed(4)}, ${lon.toFixed(4)}. Select an event.${atlas14Message}`
           }));
 
       } catch (error: any) {
@@ -276,46 +580,167 @@ function App() {
       fetchNoaaData(latlng.lat, latlng.lng);
   }, [fetchNoaaData]); // Depend on the memoized fetch function
 
+  // --- Apply a Storm Type Suggested for the Map Location ---
+  const applyStormTypeSuggestion = (category: StormCategory, subType: string) => {
+      // Category first so its sub-type and time step resets run before the suggested sub-type is set
+      handleInputChange('stormCategory', category);
+      handleInputChange('stormSubType', subType);
+  };
+
   // --- Apply NOAA Data to Inputs ---
-  const applyNoaaDataToInputs = useCallback((depth: number, durationValue: number) => {
-        console.log(`Applying NOAA data: Depth=${depth}, Duration=${durationValue} hours`);
+  const applyNoaaDataToInputs = useCallback((depth: number, durationValue: number, returnPeriod: number) => {
+        console.log(`Applying NOAA data: Depth=${depth}, Duration=${durationValue} hours, Return Period=${returnPeriod} yr`);
 
         // Validate durationValue
-        if (![6, 12, 24].includes(durationValue)) {
-            console.error(`Invalid duration (${durationValue}) passed from NOAA table. Expected 6, 12, or 24.`);
-            alert(`Error applying NOAA data: Invalid duration (${durationValue} hours)`);
+        if (!(durationValue > 0)) {
+            console.error(`Invalid duration (${durationValue}) passed from NOAA table.`);
+            setDiagnostics([{ code: 'INVALID_INPUT', severity: 'error', message: `Error applying NOAA data: invalid duration (${durationValue} hours).` }]);
             return;
         }
 
+        // Keep an alternating-block or Atlas 14 storm if one is selected, or a distribution suggested for the
+        // location; otherwise use the most specific suggestion (SCS Type II outside every bundled region)
+        const suggestions = noaaState.stormTypeSuggestions;
+        const keepCategory = inputs.stormCategory === 'NOAA' || inputs.stormCategory === 'Atlas14'
+            || suggestions.some(s => s.stormCategory === inputs.stormCategory && s.stormSubTypes.includes(inputs.stormSubType));
+        const suggestion = suggestions[0];
+
         // Create the updated inputs object
         const updatedInputs: StormInputParameters = {
             ...inputs,
             totalDepth: depth.toFixed(3),
-            duration: durationValue as 6 | 12 | 24,
+            duration: durationValue,
             depthUnits: 'us',
-            // When applying NOAA data, default to SCS Type II? Or keep current category/subtype?
-            // For now, let's keep the current category/subtype but force duration.
-            // If the current category is NRCS/Huff, this duration might not be valid later,
-            // but triggerCalculation should handle that. Alternatively, we could force category to SCS here.
-            // Let's force to SCS for simplicity when applying NOAA data.
-            stormCategory: 'SCS',
-            stormSubType: 'Type II',
+            noaaReturnPeriod: returnPeriod,
+            stormCategory: keepCategory ? inputs.stormCategory : suggestion?.stormCategory ?? 'SCS',
+            stormSubType: keepCategory ? inputs.stormSubType : suggestion?.stormSubTypes[0] ?? 'Type II',
         };
 
         setInputs(updatedInputs);
-        triggerCalculation(updatedInputs);
+        triggerCalculation(updatedInputs, noaaState.data);
+        if (!keepCategory && suggestion) {
+            setDiagnostics((prev) => [...prev, {
+                code: 'STORM_TYPE_SUGGESTED',
+                severity: 'warning',
+                message: `${updatedInputs.stormCategory} ${updatedInputs.stormSubType} was chosen from approximate region boundaries (${suggestion.regionName}); confirm it against the published distribution maps.`,
+            }]);
+        }
 
-  }, [inputs, triggerCalculation]); // Add dependencies
+  }, [inputs, noaaState.data, noaaState.stormTypeSuggestions, triggerCalculation]); // Add dependencies
+
+  // --- Build Alternating Block Storm from a NOAA Return Period ---
+  const applyAlternatingBlockStorm = useCallback((returnPeriod: number) => {
+        const returnPeriodData = noaaState.data?.find(rp => rp.returnPeriod === returnPeriod);
+        if (!returnPeriodData) return;
+
+        // Use the current duration (or 24 hr if none is set); its depth is read off the depth-duration curve
+        const durationValue = inputs.duration > 0 ? inputs.duration : 24;
+        const depth = interpolateDepthDuration(returnPeriodData.dataPoints.map(dp => ({
+            durationMinutes: dp.durationUnits === 'minutes' ? dp.durationValue : dp.durationValue * 60,
+            depth: dp.depth,
+        })), durationValue * 60);
+        if (isNaN(depth)) {
+            setDiagnostics([{ code: 'NOAA_DATA_MISSING', severity: 'error', message: `No NOAA ${durationValue}-hr depth is available for the ${returnPeriod}-yr return period.` }]);
+            return;
+        }
+        console.log(`Building alternating block storm: Return Period=${returnPeriod} yr, Duration=${durationValue} hours`);
+
+        const updatedInputs: StormInputParameters = {
+            ...inputs,
+            totalDepth: depth.toFixed(3),
+            duration: durationValue,
+            depthUnits: 'us',
+            stormCategory: 'NOAA',
+            stormSubType: NOAA_ALTERNATING_BLOCK,
+            noaaReturnPeriod: returnPeriod,
+        };
+
+        setInputs(updatedInputs);
+        triggerCalculation(updatedInputs, noaaState.data);
+
+  }, [inputs, noaaState.data, triggerCalculation]);
+
+
+  // --- Project Files ---
+  const handleSaveProject = () => {
+      const content = createProjectFile({
+          inputs,
+          noaa: getProjectNoaaLocation(noaaState),
+          customDistributions,
+          seriesEvents,
+          results: calculationResult ? { calculatedInputs, calculationResult, runoffResult } : null,
+      });
+      const safeSubType = inputs.stormSubType.replace(/[^A-Za-z0-9_-]+/g, '_');
+      downloadTextFile(content, `GStorm_Project_${inputs.stormCategory}_${safeSubType}_${inputs.duration}hr.json`, 'application/json;charset=utf-8');
+  };
+
+  const handleOpenProject = async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow reopening the same file
+      if (!file) return;
+
+      const { project, diagnostics: loadDiagnostics } = parseProjectFile(await file.text(), defaultInputs);
+      if (!project) {
+          setDiagnostics(loadDiagnostics);
+          return;
+      }
 
+      // Distributions are registered first so the project's storm types resolve
+      const restored = restoreCustomDistributions(project.customDistributions, customDistributions);
+      setCustomDistributions(restored.entries);
+      const diagnostics: CalculationDiagnostic[] = [
+          ...loadDiagnostics,
+          ...restored.messages.map((message): CalculationDiagnostic => ({ code: 'PROJECT_FILE_ADJUSTED', severity: 'warning', message })),
+      ];
+
+      const { noaa } = project;
+      const savedDate = project.savedAt ? new Date(project.savedAt).toLocaleString() : 'an unknown date';
+      setNoaaState(noaa ? {
+          ...initialNoaaState,
+          latitude: noaa.latitude,
+          longitude: noaa.longitude,
+          data: noaa.data,
+          atlas14Volume: noaa.atlas14Volume,
+          retrievedAt: noaa.retrievedAt,
+          stormTypeSuggestions: suggestStormTypes(noaa.latitude, noaa.longitude),
+          statusMessage: `Project data for ${noaa.latitude.toFixed(4)}, ${noaa.longitude.toFixed(4)} (saved ${savedDate}). Click the map to fetch current data.`,
+      } : initialNoaaState);
+      setInputs(project.inputs);
+      setSeriesEvents(project.seriesEvents);
+
+      if (project.results) {
+          // The saved results are shown as issued rather than recalculated
+          setCalculationResult(project.results.calculationResult);
+          setCalculatedInputs(project.results.calculatedInputs);
+          setRunoffResult(project.results.runoffResult);
+          setDiagnostics([...diagnostics, ...project.results.calculationResult.diagnostics]);
+      } else {
+          triggerCalculation(project.inputs, noaa?.data ?? null);
+          setDiagnostics((prev) => [...diagnostics, ...prev]);
+      }
+  };
 
-  console.log('App render. Inputs:', inputs, 'Result:', calculationResult, 'NOAA:', noaaState);
+  console.log('App render. Inputs:', inputs, 'Result:', calculationResult, 'Runoff:', runoffResult, 'NOAA:', noaaState);
 
   return (
     <div className="container mx-auto p-4 min-h-screen flex flex-col bg-gray-50">
-      <header className="mb-6">
-        <h1 className="text-3xl font-bold text-blue-700 border-b-2 border-blue-700 pb-2">
+      <header className="mb-6 flex flex-wrap items-end justify-between gap-2 border-b-2 border-blue-700 pb-2">
+        <h1 className="text-3xl font-bold text-blue-700">
           GStorm: Rainfall Design Storm Generator (TR-55 & NOAA)
         </h1>
+        {/* --- Project Files --- */}
+        <div className="flex gap-2">
+          <label className="px-3 py-1 text-sm rounded border bg-white hover:bg-gray-100 border-gray-300 text-gray-700 cursor-pointer transition duration-150 ease-in-out">
+            Open Project
+            <input type="file" accept=".json,application/json" onChange={handleOpenProject} className="hidden" />
+          </label>
+          <button
+            onClick={handleSaveProject}
+            className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+          >
+            Save Project
+          </button>
+        </div>
       </header>
 
       <main className="flex-grow grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -331,6 +756,14 @@ function App() {
                 onInputChange={handleInputChange}
                 onUnitChange={handleUnitChange}
                 onSubmit={handleSubmit}
+                onClimateTableLoad={handleClimateTableLoad}
+                stormTypeSuggestions={noaaState.stormTypeSuggestions}
+                onApplyStormTypeSuggestion={applyStormTypeSuggestion}
+            />
+            {/* --- Custom Distribution Upload --- */}
+            <CustomDistributionUpload
+                entries={customDistributions}
+                onEntriesChange={handleCustomDistributionsChange}
             />
           </section>
 
@@ -355,6 +788,9 @@ function App() {
                 error={noaaState.error}
                 statusMessage={noaaState.statusMessage}
                 onSelectEvent={applyNoaaDataToInputs} // Pass the existing function
+                onSelectReturnPeriod={applyAlternatingBlockStorm}
+                selectedReturnPeriod={inputs.stormCategory === 'NOAA' ? inputs.noaaReturnPeriod : null}
+                calculationResult={calculationResult}
             />
           </section>
         </div>
@@ -365,25 +801,67 @@ function App() {
              <h2 className="text-xl font-semibold text-blue-600 border-b border-gray-300 pb-1 mb-4">
               Output
             </h2>
+             {/* --- Errors, Warnings and Curve Adjustments --- */}
+             {diagnostics.length > 0 && (
+                <div className="mb-4">
+                  <DiagnosticsList diagnostics={diagnostics} />
+                </div>
+             )}
              {calculationResult ? (
                 <div className="space-y-4">
                    {/* --- Hyetograph Chart --- */}
-                  <HyetographChart calculationResult={calculationResult} />
+                  <HyetographChart
+                    calculationResult={calculationResult}
+                    chartRef={hyetographChartRef}
+                    stormDescription={calculatedInputs ? `${calculatedInputs.stormCategory} ${calculatedInputs.stormSubType}` : ''}
+                  />
+
+                   {/* --- Runoff Hydrograph Chart (Optional) --- */}
+                  {runoffResult && <RunoffChart runoffResult={runoffResult} />}
 
                    {/* --- Summary Table --- */}
                   <SummaryTable calculationResult={calculationResult} />
 
+                  {/* --- PDF Report --- */}
+                  <ReportExport
+                    calculationResult={calculationResult}
+                    calculatedInputs={calculatedInputs}
+                    stormInputs={inputs}
+                    noaaState={noaaState}
+                    chartRef={hyetographChartRef}
+                  />
+
                   {/* --- Detailed Table --- */}
                   <DetailedTable
                     calculationResult={calculationResult}
                     stormInputs={inputs} // Pass inputs for filename generation
+                    runoffResult={runoffResult}
+                    calculatedInputs={calculatedInputs}
+                    noaaState={noaaState}
                    />
 
+                  {/* --- Runoff Hydrograph Table (Optional) --- */}
+                  <RunoffTable runoffResult={runoffResult} calculationResult={calculationResult} stormInputs={calculatedInputs ?? inputs} />
+
                 </div>
              ) : (
                 <p className="text-gray-500 italic">Generate a storm or provide valid inputs to see results.</p>
              )}
           </section>
+
+          {/* --- Event Series Section --- */}
+          <section className="bg-white p-4 rounded-lg shadow border border-gray-200">
+             <h2 className="text-xl font-semibold text-blue-600 border-b border-gray-300 pb-1 mb-4">
+              Event Series
+            </h2>
+            <EventSeriesBuilder
+                entries={seriesEvents}
+                onEntriesChange={setSeriesEvents}
+                currentResult={calculationResult}
+                currentInputs={calculatedInputs}
+                stormInputs={inputs}
+            />
+          </section>
         </div>
       </main>
 
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { CustomDistributionFormat } from '../utils/tr55';
+import { addCustomDistribution, removeCustomDistribution, StoredCustomDistribution } from '../utils/customDistributions';
+
+interface CustomDistributionUploadProps {
+    entries: StoredCustomDistribution[];
+    // Called after an upload or removal; addedName is the first newly registered sub-type
+    onEntriesChange: (entries: StoredCustomDistribution[], addedName?: string) => void;
+}
+
+const CustomDistributionUpload: React.FC<CustomDistributionUploadProps> = ({ entries, onEntriesChange }) => {
+    const [name, setName] = useState('');
+    const [format, setFormat] = useState<CustomDistributionFormat>('cumulative');
+    const [errors, setErrors] = useState<string[]>([]);
+    const [message, setMessage] = useState('');
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-uploading the same file after fixing it
+        if (!file) return;
+
+        const csvText = await file.text();
+        const entryName = name.trim() || file.name.replace(/\.[^.]+$/, '');
+        const registration = addCustomDistribution(entryName, format, csvText);
+        setErrors(registration.errors);
+        if (registration.errors.length > 0) {
+            setMessage('');
+            return;
+        }
+
+        setMessage(`Added: ${registration.names.join(', ')}`);
+        setName('');
+        onEntriesChange(
+            [...entries, { names: registration.names, name: entryName, format, csvText }],
+            registration.names[0]
+        );
+    };
+
+    const handleRemove = (entry: StoredCustomDistribution) => {
+        removeCustomDistribution(entry);
+        setMessage('');
+        onEntriesChange(entries.filter(stored => stored !== entry));
+    };
+
+    return (
+        <details className="mt-4 border border-gray-200 rounded-md p-3">
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">Custom Distributions</summary>
+            <div className="mt-3 space-y-3">
+                <p className="text-xs text-gray-500">
+                    Upload a CSV in the bundled design-storm layout ("Minutes - 24HR", "Name - 24HR" intensity columns)
+                    or a two-column time (H:MM or hours) / value file spanning 6, 12 or 24 hours.
+                    Huff probability tables use a "Quartile,Probability,0,10,...,100" header (percent of storm time)
+                    with one row of cumulative percent rainfall per curve, e.g. "I,10,0,...,100".
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="custom-name" className="block text-sm font-medium text-gray-700 mb-1">Name (two-column files)</label>
+                        <input
+                            type="text"
+                            id="custom-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder="Defaults to file name"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="custom-format" className="block text-sm font-medium text-gray-700 mb-1">Values</label>
+                        <select
+                            id="custom-format"
+                            value={format}
+                            onChange={(e) => setFormat(e.target.value as CustomDistributionFormat)}
+                            className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        >
+                            <option value="cumulative">Cumulative (fraction or depth)</option>
+                            <option value="incremental">Incremental (per interval)</option>
+                            <option value="huff">Huff probability table</option>
+                        </select>
+                    </div>
+                </div>
+                <input
+                    type="file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    onChange={handleFileChange}
+                    className="block w-full text-sm text-gray-600"
+                />
+                {errors.length > 0 && (
+                    <ul className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded list-disc list-inside">
+                        {errors.map((error, index) => <li key={index}>{error}</li>)}
+                    </ul>
+                )}
+                {message && <p className="text-xs text-green-700">{message}</p>}
+                {entries.length > 0 && (
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded text-sm">
+                        {entries.map(entry => (
+                            <li key={entry.names.join('|')} className="flex items-center justify-between px-2 py-1">
+                                <span className="text-gray-700">{entry.names.join(', ')}</span>
+                                <button
+                                    type="button"
+                                    onClick={() => handleRemove(entry)}
+                                    className="px-2 py-0.5 text-xs rounded border bg-gray-200 hover:bg-gray-300 border-gray-300 text-gray-700"
+                                >
+                                    Remove
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default CustomDistributionUpload;
@@ -1,100 +1,101 @@
 import React, { useState } from 'react';
-import { CalculationResult, StormInputParameters } from '../types';
+import { CalculationResult, NoaaState, RunoffResult, StormInputParameters } from '../types';
+import { HecRasBoundaryType, SwmmRainFormat, formatStepTime, generateHecHmsPackage, generateHecRasBoundary, generateHyetographCsv, generateStormWorkbook, generateSwmmDatContent, generateSwmmInpContent, generateWinTr20Records, getExportNotes, getResultTimeStep, getTimeFormatLabel } from '../utils/exporters';
+import { downloadBinaryFile, downloadTextFile } from '../utils/download';
+import { createZip } from '../utils/zip';
+import { createXlsx } from '../utils/xlsx';
 
 interface DetailedTableProps {
     calculationResult: CalculationResult | null;
     stormInputs: StormInputParameters; // Use the full type from types.ts
+    runoffResult: RunoffResult | null; // Runoff of the storm, for a HEC-RAS lateral inflow
+    calculatedInputs: StormInputParameters | null; // Inputs calculationResult was calculated from, for export names and headers
+    noaaState: NoaaState; // NOAA depth table and location, for the workbook
 }
 
-// Helper to format time for table display
-function formatTableTime(timeMinutes: number, totalDurationMinutes: number): string {
-    if (totalDurationMinutes > 120) { // Use H:MM for durations > 2 hours
-        const hours = Math.floor(timeMinutes / 60);
-        const mins = Math.round(timeMinutes % 60);
-        return `${hours}:${mins.toString().padStart(2, '0')}`;
-    } else { // Use minutes (rounded)
-        return String(Math.round(timeMinutes));
-    }
-}
-
-// Helper function to generate SWMM .dat content (Simple H:MM format)
-const generateSwmmDatContent = (result: CalculationResult, inputs: StormInputParameters): string => {
-    const timeStepMinutes = inputs.timeStep ? parseFloat(String(inputs.timeStep)) : 6; // Default to 6 mins
-    const totalDurationMinutes = result.intensityData.length * timeStepMinutes;
-
-    // Header comment similar to example
-    const depthUnit = inputs.depthUnits === 'us' ? 'in' : 'mm';
-    // Use category, subType, and duration for header
-    const safeSubType = String(inputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
-    let datContent = `;${inputs.stormCategory}_${safeSubType} ${inputs.duration}hr ${inputs.totalDepth}${depthUnit} GStorm Hyetograph\\n`;
-
-    let currentTotalMinutes = 0;
-
-    for (let i = 0; i < result.intensityData.length; i++) {
-        const hours = Math.floor(currentTotalMinutes / 60);
-        const minutes = Math.round(currentTotalMinutes % 60);
-        const timeString = `${hours}:${minutes.toString().padStart(2, '0')}`;
-        const intensity = result.intensityData[i];
-
-        // Format the line: H:MM Value
-        datContent += `${timeString}  ${intensity.toFixed(4)}\n`; // Use 4 decimal places like example
-
-        // Increment time
-        currentTotalMinutes += timeStepMinutes;
-    }
-
-    // Add final line with total duration and 0 value
-    const finalHours = Math.floor(totalDurationMinutes / 60);
-    const finalMinutes = Math.round(totalDurationMinutes % 60);
-    const finalTimeString = `${finalHours}:${finalMinutes.toString().padStart(2, '0')}`;
-    datContent += `${finalTimeString}  0\n`;
-
-
-    return datContent;
-};
-
-const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormInputs }) => {
+const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormInputs, runoffResult, calculatedInputs, noaaState }) => {
     const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+    const [tableStatus, setTableStatus] = useState('');
+    // SWMM .inp rain gage settings; an empty interval uses the storm's time step
+    const [gageName, setGageName] = useState('RG1');
+    const [rainFormat, setRainFormat] = useState<SwmmRainFormat>('INTENSITY');
+    const [gageInterval, setGageInterval] = useState('');
+    const [snowCatchFactor, setSnowCatchFactor] = useState('1.0');
+    const [inpStatus, setInpStatus] = useState('');
+    // HEC-HMS model names the meteorologic model refers to
+    const [basinModel, setBasinModel] = useState('Basin 1');
+    const [subbasins, setSubbasins] = useState('Subbasin-1');
+    const [hmsStatus, setHmsStatus] = useState('');
+    // WinTR-20 rainfall table; an empty increment uses the storm's time step
+    const [winTr20TableId, setWinTr20TableId] = useState('GSTORM');
+    const [winTr20Increment, setWinTr20Increment] = useState('');
+    const [winTr20Status, setWinTr20Status] = useState('');
+    // HEC-RAS boundary location: a 2D flow area for rain-on-grid, a river station for lateral inflow
+    const [rasBoundaryType, setRasBoundaryType] = useState<HecRasBoundaryType>('precipitation');
+    const [rasFlowArea, setRasFlowArea] = useState('Perimeter 1');
+    const [rasRiver, setRasRiver] = useState('');
+    const [rasReach, setRasReach] = useState('');
+    const [rasStation, setRasStation] = useState('');
+    const [rasStatus, setRasStatus] = useState('');
 
     if (!calculationResult || !calculationResult.detailedData || calculationResult.detailedData.length === 0) {
         return <div className="mt-4 text-center text-gray-500 italic">No detailed data available.</div>;
     }
 
     const { detailedData, intensityUnit, depthUnit } = calculationResult;
-    // Recalculate total duration based on the last step's end time
-    const totalDurationMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
+    // Rainfall excess columns are only shown when a curve number was supplied
+    const hasExcess = calculationResult.excessIntensityData !== undefined;
+    // Notes on depth adjustments (e.g., areal reduction) travel with every export
+    const exportNotes = getExportNotes(calculationResult);
+    // Exports describe the storm as calculated, even if the form has changed since
+    const exportInputs = calculatedInputs ?? stormInputs;
+    // Relative H:MM (or minutes), or calendar dates when the storm has a start date
+    const timeFormat = exportInputs.timeFormat;
+    const timeLabel = getTimeFormatLabel(calculationResult, timeFormat);
 
     const handleCopyToClipboard = () => {
         if (!calculationResult) return;
 
         const headers = [
-            `Time Start (${totalDurationMinutes > 120 ? 'H:MM' : 'min'})`,
-            `Time End (${totalDurationMinutes > 120 ? 'H:MM' : 'min'})`,
+            `Time Start (${timeLabel})`,
+            `Time End (${timeLabel})`,
             `Intensity (${intensityUnit})`,
             `Depth per Step (${depthUnit})`,
-            `Cumulative Depth (${depthUnit})`
+            `Cumulative Depth (${depthUnit})`,
+            ...(hasExcess ? [
+                `Excess per Step (${depthUnit})`,
+                `Loss per Step (${depthUnit})`,
+                `Cumulative Runoff (${depthUnit})`
+            ] : [])
         ];
         const rows = detailedData.map(item => [
-            formatTableTime(item.timeStart, totalDurationMinutes),
-            formatTableTime(item.timeEnd, totalDurationMinutes),
+            formatStepTime(item, 'start', calculationResult, timeFormat),
+            formatStepTime(item, 'end', calculationResult, timeFormat),
             item.intensity.toFixed(5),
             item.depthStep.toFixed(5),
-            item.cumulativeDepth.toFixed(5)
+            item.cumulativeDepth.toFixed(5),
+            ...(hasExcess ? [
+                (item.excessDepth ?? 0).toFixed(5),
+                (item.lossDepth ?? 0).toFixed(5),
+                (item.cumulativeRunoff ?? 0).toFixed(5)
+            ] : [])
         ]);
 
         // Use correct escape sequences: \t for tab, \n for newline
         const tableString = [
+            ...exportNotes,
             headers.join('\t'),
             ...rows.map(row => row.join('\t'))
         ].join('\n');
 
         navigator.clipboard.writeText(tableString).then(() => {
             setCopyStatus('copied');
+            setTableStatus('');
             setTimeout(() => setCopyStatus('idle'), 2000); // Reset after 2 seconds
         }).catch(err => {
             console.error('Failed to copy table to clipboard:', err);
             setCopyStatus('failed');
-            alert('Failed to copy table. Your browser might not support this feature or permissions were denied.');
+            setTableStatus('Copy failed: the browser does not allow clipboard access here. Use the CSV download instead.');
             setTimeout(() => setCopyStatus('idle'), 3000);
         });
     };
@@ -102,59 +103,29 @@ const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormI
     const handleDownloadCsv = () => {
          if (!calculationResult) return;
 
-         const headers = [
-            'Time_Start',
-            'Time_End',
-            `Intensity_(${intensityUnit.replace('/', '_per_')})`,
-            `Depth_Step_(${depthUnit})`,
-            `Cumulative_Depth_(${depthUnit})`
-         ];
-         const rows = detailedData.map(item => [
-             formatTableTime(item.timeStart, totalDurationMinutes),
-             formatTableTime(item.timeEnd, totalDurationMinutes),
-             item.intensity.toFixed(5),
-             item.depthStep.toFixed(5),
-             item.cumulativeDepth.toFixed(5)
-         ]);
-
-        let csvContent = "data:text/csv;charset=utf-8,";
-        // Use correct escape sequence \n for newline
-        csvContent += headers.join(",") + "\n";
-        rows.forEach(rowArray => {
-            let row = rowArray.join(",");
-            csvContent += row + "\n";
-        });
-
-        const encodedUri = encodeURI(csvContent);
-        const link = document.createElement("a");
-        link.setAttribute("href", encodedUri);
-
         // Generate filename using category and subType
-        const safeCategory = String(stormInputs.stormCategory);
-        const safeSubType = String(stormInputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
-        const durationValue = String(stormInputs.duration);
+        const safeCategory = String(exportInputs.stormCategory);
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
+        const durationValue = String(exportInputs.duration);
         const durationUnitString = 'hr'; // Duration is always hours
-        const depthValue = String(stormInputs.totalDepth).replace(/\./g, '-'); // Replace periods
-        const depthUnitString = stormInputs.depthUnits === 'us' ? 'in' : 'mm';
+        const depthValue = String(exportInputs.totalDepth).replace(/\./g, '-'); // Replace periods
+        const depthUnitString = exportInputs.depthUnits === 'us' ? 'in' : 'mm';
         const filename = `gstorm_hyetograph_${safeCategory}_${safeSubType}_${durationValue}${durationUnitString}_${depthValue}${depthUnitString}.csv`;
 
-        link.setAttribute("download", filename);
-        document.body.appendChild(link); // Required for Firefox
-        link.click();
-        document.body.removeChild(link);
+        // A Blob rather than a data: URI, where the '#' of the note lines would start a URL fragment
+        downloadTextFile(generateHyetographCsv(calculationResult, timeFormat), filename, 'text/csv;charset=utf-8');
     };
 
     const handleDownloadDat = () => {
-        // Pass the full stormInputs object now
-        const datString = generateSwmmDatContent(calculationResult, stormInputs);
+        const datString = generateSwmmDatContent(calculationResult, exportInputs, timeFormat);
         const blob = new Blob([datString], { type: 'text/plain;charset=utf-8' });
 
         // Generate filename using category and subType
-        const safeCategory = String(stormInputs.stormCategory);
-        const safeSubType = String(stormInputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
-        const depthUnit = stormInputs.depthUnits === 'us' ? 'in' : 'mm';
+        const safeCategory = String(exportInputs.stormCategory);
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
+        const depthUnit = exportInputs.depthUnits === 'us' ? 'in' : 'mm';
         // Use hardcoded 'hr' as duration unit is always hours now
-        const filename = `GStorm_Hyetograph_${safeCategory}_${safeSubType}_${stormInputs.totalDepth}${depthUnit}_${stormInputs.duration}hr.dat`;
+        const filename = `GStorm_Hyetograph_${safeCategory}_${safeSubType}_${exportInputs.totalDepth}${depthUnit}_${exportInputs.duration}hr.dat`;
 
         // Create a link and trigger download
         const link = document.createElement('a');
@@ -166,6 +137,104 @@ const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormI
         URL.revokeObjectURL(link.href); // Clean up
     };
 
+    const handleDownloadXlsx = () => {
+        const workbook = createXlsx(generateStormWorkbook(calculationResult, exportInputs, noaaState));
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_');
+        const depthValue = String(exportInputs.totalDepth).replace(/\./g, '-');
+        const depthUnit = exportInputs.depthUnits === 'us' ? 'in' : 'mm';
+        downloadBinaryFile(workbook, `gstorm_${exportInputs.stormCategory}_${safeSubType}_${exportInputs.duration}hr_${depthValue}${depthUnit}.xlsx`,
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    };
+
+    // Paste-ready [RAINGAGES] and [TIMESERIES] sections, or null if the gage settings are invalid
+    const buildInpContent = (): string | null => {
+        const content = generateSwmmInpContent(calculationResult, {
+            gageName,
+            rainFormat,
+            intervalMinutes: gageInterval.trim() === '' ? getResultTimeStep(calculationResult) : parseFloat(gageInterval),
+            snowCatchFactor: parseFloat(snowCatchFactor),
+            timeFormat,
+        });
+        setInpStatus(content === null ? 'The interval must be a whole multiple of the storm time step and the snow catch factor must be positive.' : '');
+        return content;
+    };
+
+    const handleDownloadInp = () => {
+        const content = buildInpContent();
+        if (content === null) return;
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_');
+        downloadTextFile(content, `GStorm_${exportInputs.stormCategory}_${safeSubType}_${exportInputs.duration}hr_${rainFormat}.inp`);
+    };
+
+    const handleCopyInp = () => {
+        const content = buildInpContent();
+        if (content === null) return;
+        navigator.clipboard.writeText(content).then(() => {
+            setInpStatus('SWMM sections copied.');
+        }).catch(err => {
+            console.error('Failed to copy SWMM sections to clipboard:', err);
+            setInpStatus('Copy failed; use the download instead.');
+        });
+    };
+
+    const handleDownloadHms = () => {
+        const subbasinNames = subbasins.split(',').map(name => name.trim()).filter(name => name !== '');
+        if (basinModel.trim() === '' || subbasinNames.length === 0) {
+            setHmsStatus('Enter the basin model and at least one subbasin name.');
+            return;
+        }
+        const files = generateHecHmsPackage(calculationResult, exportInputs, { basinModel: basinModel.trim(), subbasins: subbasinNames });
+        if (!files) {
+            setHmsStatus('HEC-HMS gages need a time step of 1, 2, 3, 4, 5, 6, 10, 12, 15, 20 or 30 min or 1, 2, 3, 4, 6, 8, 12 or 24 hr.');
+            return;
+        }
+        setHmsStatus('');
+        downloadBinaryFile(createZip(files), files[0].name.replace(/\.gage$/, '_HEC-HMS.zip'), 'application/zip');
+    };
+
+    const handleDownloadWinTr20 = () => {
+        const content = generateWinTr20Records(calculationResult, {
+            tableId: winTr20TableId,
+            incrementHours: winTr20Increment.trim() === '' ? getResultTimeStep(calculationResult) / 60 : parseFloat(winTr20Increment),
+        });
+        if (content === null) {
+            setWinTr20Status('The increment must divide the storm duration.');
+            return;
+        }
+        setWinTr20Status('');
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_');
+        downloadTextFile(content, `GStorm_WinTR20_${exportInputs.stormCategory}_${safeSubType}_${exportInputs.duration}hr.inp`);
+    };
+
+    const handleDownloadRas = () => {
+        const missingLocation = rasBoundaryType === 'precipitation'
+            ? rasFlowArea.trim() === ''
+            : rasRiver.trim() === '' || rasReach.trim() === '' || rasStation.trim() === '';
+        if (missingLocation) {
+            setRasStatus(rasBoundaryType === 'precipitation' ? 'Enter the 2D flow area name.' : 'Enter the river, reach and river station.');
+            return;
+        }
+        if (rasBoundaryType === 'lateralInflow' && !runoffResult) {
+            setRasStatus('A lateral inflow needs a runoff hydrograph: enter a curve number and drainage area.');
+            return;
+        }
+        const content = generateHecRasBoundary(calculationResult, {
+            boundaryType: rasBoundaryType,
+            flowAreaName: rasFlowArea,
+            river: rasRiver,
+            reach: rasReach,
+            station: rasStation,
+        }, runoffResult);
+        if (content === null) {
+            setRasStatus('HEC-RAS hydrographs need a time step of 1, 2, 3, 4, 5, 6, 10, 12, 15, 20 or 30 min or 1, 2, 3, 4, 6, 8, 12 or 24 hr.');
+            return;
+        }
+        setRasStatus('');
+        const safeSubType = String(exportInputs.stormSubType).replace(/\s+/g, '_');
+        const kind = rasBoundaryType === 'precipitation' ? 'Precipitation' : 'LateralInflow';
+        downloadTextFile(content, `GStorm_HEC-RAS_${kind}_${exportInputs.stormCategory}_${safeSubType}_${exportInputs.duration}hr.txt`);
+    };
+
     return (
         <div className="mt-6">
             <h3 className="text-lg font-semibold text-gray-800 mb-2">Detailed Hyetograph Data</h3>
@@ -191,17 +260,253 @@ const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormI
                 >
                     Download SWMM .dat
                 </button>
+                <button
+                    onClick={handleDownloadXlsx}
+                    className="px-3 py-1 text-sm rounded border bg-emerald-700 hover:bg-emerald-800 border-emerald-800 text-white transition duration-150 ease-in-out"
+                    title="Workbook with the inputs, summary, step table and NOAA depths"
+                >
+                    Download Excel
+                </button>
+                {tableStatus && <span className="self-center text-xs text-gray-600">{tableStatus}</span>}
             </div>
+            <details className="mb-3 border border-gray-200 rounded-md p-3">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">SWMM .inp Rain Gage</summary>
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                        <label htmlFor="swmm-gage-name" className="block text-xs font-medium text-gray-700 mb-1">Gage Name</label>
+                        <input
+                            type="text"
+                            id="swmm-gage-name"
+                            value={gageName}
+                            onChange={(e) => setGageName(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="swmm-rain-format" className="block text-xs font-medium text-gray-700 mb-1">Rain Format</label>
+                        <select
+                            id="swmm-rain-format"
+                            value={rainFormat}
+                            onChange={(e) => setRainFormat(e.target.value as SwmmRainFormat)}
+                            className="w-full px-2 py-1 border border-gray-300 bg-white rounded-md text-sm"
+                        >
+                            <option value="INTENSITY">INTENSITY</option>
+                            <option value="VOLUME">VOLUME</option>
+                            <option value="CUMULATIVE">CUMULATIVE</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="swmm-interval" className="block text-xs font-medium text-gray-700 mb-1">Interval (min)</label>
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            id="swmm-interval"
+                            placeholder={String(getResultTimeStep(calculationResult))}
+                            value={gageInterval}
+                            onChange={(e) => setGageInterval(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="swmm-scf" className="block text-xs font-medium text-gray-700 mb-1">Snow Catch Factor</label>
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            id="swmm-scf"
+                            value={snowCatchFactor}
+                            onChange={(e) => setSnowCatchFactor(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                </div>
+                <div className="mt-3 flex items-center space-x-2">
+                    <button
+                        onClick={handleDownloadInp}
+                        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition duration-150 ease-in-out shadow-sm"
+                    >
+                        Download SWMM .inp
+                    </button>
+                    <button
+                        onClick={handleCopyInp}
+                        className="px-3 py-1 text-sm rounded border bg-gray-200 hover:bg-gray-300 border-gray-300 text-gray-700"
+                    >
+                        Copy Sections
+                    </button>
+                    {inpStatus && <span className="text-xs text-gray-600">{inpStatus}</span>}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 italic">
+                    Steps are combined into the interval, which must be a whole multiple of the storm time step. Paste the sections into an existing model's .inp file.
+                </p>
+            </details>
+            <details className="mb-3 border border-gray-200 rounded-md p-3">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">HEC-HMS Package</summary>
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="hms-basin-model" className="block text-xs font-medium text-gray-700 mb-1">Basin Model</label>
+                        <input
+                            type="text"
+                            id="hms-basin-model"
+                            value={basinModel}
+                            onChange={(e) => setBasinModel(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="hms-subbasins" className="block text-xs font-medium text-gray-700 mb-1">Subbasins (comma-separated)</label>
+                        <input
+                            type="text"
+                            id="hms-subbasins"
+                            value={subbasins}
+                            onChange={(e) => setSubbasins(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                </div>
+                <div className="mt-3 flex items-center space-x-2">
+                    <button
+                        onClick={handleDownloadHms}
+                        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition duration-150 ease-in-out shadow-sm"
+                    >
+                        Download HEC-HMS .zip
+                    </button>
+                    {hmsStatus && <span className="text-xs text-gray-600">{hmsStatus}</span>}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 italic">
+                    A precipitation gage (.gage), Specified Hyetograph meteorologic model (.met) and the gage values as CSV, with import steps in README.txt.
+                    Undated storms start 01Jan2000 00:00.
+                </p>
+            </details>
+            <details className="mb-3 border border-gray-200 rounded-md p-3">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">WinTR-20 Records</summary>
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="wintr20-table-id" className="block text-xs font-medium text-gray-700 mb-1">Distribution ID</label>
+                        <input
+                            type="text"
+                            id="wintr20-table-id"
+                            maxLength={10}
+                            value={winTr20TableId}
+                            onChange={(e) => setWinTr20TableId(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="wintr20-increment" className="block text-xs font-medium text-gray-700 mb-1">Increment (hr)</label>
+                        <input
+                            type="text"
+                            inputMode="decimal"
+                            id="wintr20-increment"
+                            placeholder={String(getResultTimeStep(calculationResult) / 60)}
+                            value={winTr20Increment}
+                            onChange={(e) => setWinTr20Increment(e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                </div>
+                <div className="mt-3 flex items-center space-x-2">
+                    <button
+                        onClick={handleDownloadWinTr20}
+                        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition duration-150 ease-in-out shadow-sm"
+                    >
+                        Download WinTR-20 Records
+                    </button>
+                    {winTr20Status && <span className="text-xs text-gray-600">{winTr20Status}</span>}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 italic">
+                    STORM ANALYSIS and RAINFALL DISTRIBUTION records with cumulative dimensionless ordinates. Depths are written in inches.
+                    With NOAA data loaded, the NOAA table exports a storm for every return period.
+                </p>
+            </details>
+            <details className="mb-3 border border-gray-200 rounded-md p-3">
+                <summary className="text-sm font-medium text-gray-700 cursor-pointer">HEC-RAS Unsteady Flow Boundary</summary>
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                        <label htmlFor="ras-boundary-type" className="block text-xs font-medium text-gray-700 mb-1">Boundary</label>
+                        <select
+                            id="ras-boundary-type"
+                            value={rasBoundaryType}
+                            onChange={(e) => setRasBoundaryType(e.target.value as HecRasBoundaryType)}
+                            className="w-full px-2 py-1 border border-gray-300 bg-white rounded-md text-sm"
+                        >
+                            <option value="precipitation">Precipitation (rain-on-grid)</option>
+                            <option value="lateralInflow">Lateral inflow hydrograph</option>
+                        </select>
+                    </div>
+                    {rasBoundaryType === 'precipitation' ? (
+                        <div>
+                            <label htmlFor="ras-flow-area" className="block text-xs font-medium text-gray-700 mb-1">2D Flow Area</label>
+                            <input
+                                type="text"
+                                id="ras-flow-area"
+                                maxLength={16}
+                                value={rasFlowArea}
+                                onChange={(e) => setRasFlowArea(e.target.value)}
+                                className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            />
+                        </div>
+                    ) : (
+                        <>
+                            <div>
+                                <label htmlFor="ras-river" className="block text-xs font-medium text-gray-700 mb-1">River</label>
+                                <input
+                                    type="text"
+                                    id="ras-river"
+                                    maxLength={16}
+                                    value={rasRiver}
+                                    onChange={(e) => setRasRiver(e.target.value)}
+                                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="ras-reach" className="block text-xs font-medium text-gray-700 mb-1">Reach</label>
+                                <input
+                                    type="text"
+                                    id="ras-reach"
+                                    maxLength={16}
+                                    value={rasReach}
+                                    onChange={(e) => setRasReach(e.target.value)}
+                                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="ras-station" className="block text-xs font-medium text-gray-700 mb-1">River Station</label>
+                                <input
+                                    type="text"
+                                    id="ras-station"
+                                    maxLength={8}
+                                    value={rasStation}
+                                    onChange={(e) => setRasStation(e.target.value)}
+                                    className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="mt-3 flex items-center space-x-2">
+                    <button
+                        onClick={handleDownloadRas}
+                        className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition duration-150 ease-in-out shadow-sm"
+                    >
+                        Download HEC-RAS Boundary
+                    </button>
+                    {rasStatus && <span className="text-xs text-gray-600">{rasStatus}</span>}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 italic">
+                    A boundary block to paste into the project's unsteady flow file (.u##) with RAS closed. Precipitation is incremental
+                    depth ({depthUnit}); the lateral inflow is the runoff hydrograph ({runoffResult?.flowUnit ?? 'cfs or m³/s'}). Match the project's unit system.
+                    Any '#' note lines at the top record the storm's adjustments; paste from the Boundary Location line.
+                </p>
+            </details>
             {/* Table Container with Scrolling */}
             <div className="overflow-x-auto border border-gray-300 rounded-md max-h-[500px]">
                 <table className="min-w-full divide-y divide-gray-200 text-sm">
                     <thead className="bg-gray-100 sticky top-0 z-10">
                         <tr>
                             <th scope="col" className="px-3 py-2 text-center font-medium text-gray-600 uppercase tracking-wider">
-                                Time Start ({totalDurationMinutes > 120 ? 'H:MM' : 'min'})
+                                Time Start ({timeLabel})
                             </th>
                             <th scope="col" className="px-3 py-2 text-center font-medium text-gray-600 uppercase tracking-wider">
-                                Time End ({totalDurationMinutes > 120 ? 'H:MM' : 'min'})
+                                Time End ({timeLabel})
                             </th>
                             <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
                                 Intensity ({intensityUnit})
@@ -212,16 +517,29 @@ const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormI
                             <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
                                 Cum. Depth ({depthUnit})
                             </th>
+                            {hasExcess && (
+                                <>
+                                    <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
+                                        Excess/Step ({depthUnit})
+                                    </th>
+                                    <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
+                                        Loss/Step ({depthUnit})
+                                    </th>
+                                    <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
+                                        Cum. Runoff ({depthUnit})
+                                    </th>
+                                </>
+                            )}
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                         {detailedData.map((item, index) => (
                             <tr key={index} className="hover:bg-gray-50">
                                 <td className="px-3 py-1.5 whitespace-nowrap text-center text-gray-700">
-                                    {formatTableTime(item.timeStart, totalDurationMinutes)}
+                                    {formatStepTime(item, 'start', calculationResult, timeFormat)}
                                 </td>
                                 <td className="px-3 py-1.5 whitespace-nowrap text-center text-gray-700">
-                                    {formatTableTime(item.timeEnd, totalDurationMinutes)}
+                                    {formatStepTime(item, 'end', calculationResult, timeFormat)}
                                 </td>
                                 <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
                                     {item.intensity.toFixed(5)}
@@ -232,6 +550,19 @@ const DetailedTable: React.FC<DetailedTableProps> = ({ calculationResult, stormI
                                 <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
                                     {item.cumulativeDepth.toFixed(5)}
                                 </td>
+                                {hasExcess && (
+                                    <>
+                                        <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
+                                            {(item.excessDepth ?? 0).toFixed(5)}
+                                        </td>
+                                        <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
+                                            {(item.lossDepth ?? 0).toFixed(5)}
+                                        </td>
+                                        <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
+                                            {(item.cumulativeRunoff ?? 0).toFixed(5)}
+                                        </td>
+                                    </>
+                                )}
                             </tr>
                         ))}
                     </tbody>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { CalculationDiagnostic, DiagnosticSeverity } from '../types';
+
+interface DiagnosticsListProps {
+    diagnostics: CalculationDiagnostic[];
+}
+
+const severityStyles: Record<DiagnosticSeverity, { label: string; className: string }> = {
+    error: { label: 'Error', className: 'bg-red-50 border-red-300 text-red-800' },
+    warning: { label: 'Warning', className: 'bg-amber-50 border-amber-300 text-amber-800' },
+    info: { label: 'Note', className: 'bg-blue-50 border-blue-200 text-blue-800' },
+};
+
+// Errors first, then warnings, then notes; order within a severity is kept
+const severityOrder: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+const DiagnosticsList: React.FC<DiagnosticsListProps> = ({ diagnostics }) => {
+    if (diagnostics.length === 0) {
+        return null;
+    }
+
+    const sorted = severityOrder.flatMap(severity => diagnostics.filter(d => d.severity === severity));
+
+    return (
+        <ul className="space-y-1" aria-label="Calculation diagnostics">
+            {sorted.map((diagnostic, index) => {
+                const style = severityStyles[diagnostic.severity];
+                return (
+                    <li key={index} className={`px-3 py-2 text-sm border rounded ${style.className}`}>
+                        <span className="font-semibold">{style.label}:</span> {diagnostic.message}
+                        <span className="ml-2 text-xs font-mono opacity-60">{diagnostic.code}</span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default DiagnosticsList;
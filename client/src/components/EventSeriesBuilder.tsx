@@ -0,0 +1,196 @@
+import React, { useMemo } from 'react';
+import { CalculationResult, SeriesEventEntry, StormInputParameters } from '../types';
+import { buildEventSeries } from '../utils/eventSeries';
+import { formatTableTime, generateHyetographCsv, generateSwmmDatContent } from '../utils/exporters';
+import { downloadTextFile } from '../utils/download';
+import HyetographChart from './HyetographChart';
+import DiagnosticsList from './DiagnosticsList';
+
+interface EventSeriesBuilderProps {
+    entries: SeriesEventEntry[];
+    onEntriesChange: (entries: SeriesEventEntry[]) => void;
+    currentResult: CalculationResult | null; // Storm added by "Add Current Storm"
+    currentInputs: StormInputParameters | null; // Inputs currentResult was calculated from, for its label
+    stormInputs: StormInputParameters;       // Form inputs: the drainage area gives the series volume
+}
+
+const DEFAULT_DRY_HOURS = '24'; // Between storms; the first storm starts the series
+
+// Short label for a storm, e.g. "SCS Type II 24-hr 2.000 in"
+function describeStorm(inputs: StormInputParameters, result: CalculationResult): string {
+    return `${inputs.stormCategory} ${inputs.stormSubType} ${inputs.duration}-hr ${result.totalDepthActual.toFixed(3)} ${result.depthUnit}`;
+}
+
+const EventSeriesBuilder: React.FC<EventSeriesBuilderProps> = ({ entries, onEntriesChange, currentResult, currentInputs, stormInputs }) => {
+    const drainageArea = parseFloat(String(stormInputs.drainageArea));
+
+    const series = useMemo(() => {
+        if (entries.length === 0) return null;
+        const seriesUnit = entries[0].result.depthUnit;
+        // The area is entered in the form's units, so it only applies to a series in the same units
+        const areaInSeriesUnits = (stormInputs.depthUnits === 'us' ? 'in' : 'mm') === seriesUnit ? drainageArea : NaN;
+        return buildEventSeries(
+            entries.map(entry => ({ label: entry.label, result: entry.result, dryHoursBefore: parseFloat(entry.dryHoursBefore) })),
+            areaInSeriesUnits > 0 ? areaInSeriesUnits : undefined
+        );
+    }, [entries, drainageArea, stormInputs.depthUnits]);
+
+    const handleAdd = () => {
+        if (!currentResult || !currentInputs) return;
+        const id = entries.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+        onEntriesChange([...entries, {
+            id,
+            label: describeStorm(currentInputs, currentResult),
+            result: currentResult,
+            dryHoursBefore: entries.length === 0 ? '0' : DEFAULT_DRY_HOURS,
+        }]);
+    };
+
+    const handleDryHoursChange = (id: number, value: string) => {
+        if (value === '' || /^([0-9]*[.])?[0-9]*$/.test(value)) {
+            onEntriesChange(entries.map(entry => entry.id === id ? { ...entry, dryHoursBefore: value } : entry));
+        }
+    };
+
+    const seriesDuration = series && series.detailedData.length > 0 ? series.detailedData[series.detailedData.length - 1].timeEnd : 0;
+    const seriesTitle = `Event_series_${entries.length}_storms`;
+
+    const handleDownloadCsv = () => {
+        if (!series?.eventSeries) return;
+        downloadTextFile(generateHyetographCsv(series, stormInputs.timeFormat), `gstorm_hyetograph_${seriesTitle}.csv`, 'text/csv;charset=utf-8');
+    };
+
+    const handleDownloadDat = () => {
+        if (!series?.eventSeries) return;
+        const datString = generateSwmmDatContent(series, {
+            ...stormInputs,
+            title: `${seriesTitle} ${(seriesDuration / 60).toFixed(0)}hr ${series.totalDepthActual.toFixed(3)}${series.depthUnit}`,
+        }, stormInputs.timeFormat);
+        downloadTextFile(datString, `GStorm_Hyetograph_${seriesTitle}.dat`);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-gray-500">
+                Chain storms into one continuous series with dry periods between them. Set up a storm in the form,
+                then add it; each storm keeps the depth and distribution it had when added. All storms need the same
+                time step and units. Rainfall excess is not carried into the series.
+            </p>
+            <div className="flex space-x-2">
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={!currentResult || !currentInputs}
+                    className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Add Current Storm
+                </button>
+                {entries.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => onEntriesChange([])}
+                        className="px-3 py-1 text-sm rounded border bg-gray-200 hover:bg-gray-300 border-gray-300 text-gray-700"
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {entries.length > 0 && (
+                <table className="min-w-full divide-y divide-gray-200 border border-gray-300 text-sm">
+                    <thead className="bg-gray-100">
+                        <tr>
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">#</th>
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Storm</th>
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">Dry Before (hr)</th>
+                            <th scope="col" className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {entries.map((entry, index) => (
+                            <tr key={entry.id}>
+                                <td className="px-3 py-1.5 text-gray-700">{index + 1}</td>
+                                <td className="px-3 py-1.5 text-gray-700">{entry.label}</td>
+                                <td className="px-3 py-1.5">
+                                    <input
+                                        type="text"
+                                        inputMode="decimal"
+                                        aria-label={`Dry period before storm ${index + 1} (hours)`}
+                                        value={entry.dryHoursBefore}
+                                        onChange={(e) => handleDryHoursChange(entry.id, e.target.value)}
+                                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                    />
+                                </td>
+                                <td className="px-3 py-1.5 text-right">
+                                    <button
+                                        type="button"
+                                        onClick={() => onEntriesChange(entries.filter(other => other.id !== entry.id))}
+                                        className="text-xs text-red-600 hover:underline"
+                                    >
+                                        Remove
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {series && <DiagnosticsList diagnostics={series.diagnostics.filter(d => d.severity !== 'info' || d.code === 'SERIES_DRY_PERIOD_ROUNDED')} />}
+
+            {series?.eventSeries && (
+                <>
+                    <HyetographChart calculationResult={series} stormDescription="Event series" />
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-gray-200 border border-gray-300 text-sm">
+                            <thead className="bg-gray-100">
+                                <tr>
+                                    {['Storm', 'Start', 'End', 'Dry Before (hr)', `Depth (${series.depthUnit})`, `Peak (${series.intensityUnit})`, `5-Day Antecedent (${series.depthUnit})`].map(header => (
+                                        <th key={header} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">{header}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {series.eventSeries.events.map((event, index) => (
+                                    <tr key={index}>
+                                        <td className="px-3 py-1.5 text-gray-700">{index + 1}</td>
+                                        <td className="px-3 py-1.5 text-gray-700">{formatTableTime(event.startTime, seriesDuration)}</td>
+                                        <td className="px-3 py-1.5 text-gray-700">{formatTableTime(event.endTime, seriesDuration)}</td>
+                                        <td className="px-3 py-1.5 text-gray-700">{(event.dryPeriodBefore / 60).toFixed(2)}</td>
+                                        <td className="px-3 py-1.5 text-gray-700 font-mono">{event.depth.toFixed(3)}</td>
+                                        <td className="px-3 py-1.5 text-gray-700 font-mono">{event.peakIntensity.toFixed(3)}</td>
+                                        <td className="px-3 py-1.5 text-gray-700 font-mono">{event.antecedentDepth.toFixed(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="text-sm text-gray-700">
+                        Series total: {series.totalDepthActual.toFixed(3)} {series.depthUnit} over {(seriesDuration / 60).toFixed(2)} hr
+                        {series.eventSeries.volume && (
+                            <> ({series.eventSeries.volume.value.toFixed(3)} {series.eventSeries.volume.unit} over {series.eventSeries.volume.drainageArea} {series.eventSeries.volume.areaUnit})</>
+                        )}
+                    </p>
+                    <div className="flex space-x-2">
+                        <button
+                            type="button"
+                            onClick={handleDownloadCsv}
+                            className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+                        >
+                            Download Series CSV
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleDownloadDat}
+                            className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 transition duration-150 ease-in-out shadow-sm"
+                        >
+                            Download Series SWMM .dat
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default EventSeriesBuilder;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useId, useState } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -10,6 +10,8 @@ import {
 } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
 import { CalculationResult } from '../types'; // Use shared types
+import { buildHyetographFigure, getHyetographCaption, renderFigurePng, renderFigureSvg } from '../utils/chartImage';
+import { downloadBinaryFile, downloadTextFile } from '../utils/download';
 
 ChartJS.register(
   CategoryScale,
@@ -22,6 +24,8 @@ ChartJS.register(
 
 interface HyetographChartProps {
   calculationResult: CalculationResult | null;
+  chartRef?: React.RefObject<ChartJS<'bar'> | null>; // Gives exports (e.g. the PDF report) the drawn chart
+  stormDescription?: string; // Storm name for image captions, e.g. "SCS Type II"
 }
 
 // Helper to format time for tooltips
@@ -35,30 +39,179 @@ function formatTooltipTime(timeMinutes: number, totalDurationMinutes: number): s
     }
 }
 
-const HyetographChart: React.FC<HyetographChartProps> = ({ calculationResult }) => {
+// Export controls for publication images; empty text fields fall back to the placeholders
+const ChartImageExport: React.FC<{ calculationResult: CalculationResult; stormDescription: string }> = ({ calculationResult, stormDescription }) => {
+  const [title, setTitle] = useState('');
+  const [xAxisLabel, setXAxisLabel] = useState('');
+  const [yAxisLabel, setYAxisLabel] = useState('');
+  const [timeUnit, setTimeUnit] = useState<'min' | 'hr'>('hr');
+  const [showCumulative, setShowCumulative] = useState(true);
+  const [includeCaption, setIncludeCaption] = useState(true);
+  const [pngScale, setPngScale] = useState(3);
+  const idPrefix = useId(); // The chart appears more than once on the page
+
+  const defaults = {
+    title: 'Rainfall Hyetograph',
+    xAxisLabel: `Time (${timeUnit})`,
+    yAxisLabel: `Intensity (${calculationResult.intensityUnit})`,
+  };
+  const caption = getHyetographCaption(calculationResult, stormDescription);
+
+  const buildFigure = () => buildHyetographFigure(calculationResult, {
+    title: title.trim() || defaults.title,
+    xAxisLabel: xAxisLabel.trim() || defaults.xAxisLabel,
+    yAxisLabel: yAxisLabel.trim() || defaults.yAxisLabel,
+    timeUnit,
+    showCumulative,
+    cumulativeAxisLabel: `Cumulative Depth (${calculationResult.depthUnit})`,
+    caption: includeCaption ? caption : '',
+  });
+  const fileName = `GStorm_Hyetograph_${(title.trim() || stormDescription || 'storm').replace(/[^A-Za-z0-9_-]+/g, '_')}`;
+
+  const handleDownloadPng = () => {
+    const png = renderFigurePng(buildFigure(), pngScale);
+    if (png) downloadBinaryFile(png, `${fileName}.png`, 'image/png');
+  };
+
+  const handleDownloadSvg = () => {
+    downloadTextFile(renderFigureSvg(buildFigure()), `${fileName}.svg`, 'image/svg+xml;charset=utf-8');
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm';
+  return (
+    <details className="mt-2 border border-gray-200 rounded-md p-3">
+      <summary className="text-sm font-medium text-gray-700 cursor-pointer">Export Chart Image</summary>
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor={`${idPrefix}-title`} className="block text-xs font-medium text-gray-700 mb-1">Title</label>
+          <input id={`${idPrefix}-title`} type="text" value={title} placeholder={defaults.title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-x-label`} className="block text-xs font-medium text-gray-700 mb-1">Time Axis Label</label>
+          <input id={`${idPrefix}-x-label`} type="text" value={xAxisLabel} placeholder={defaults.xAxisLabel} onChange={(e) => setXAxisLabel(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-y-label`} className="block text-xs font-medium text-gray-700 mb-1">Intensity Axis Label</label>
+          <input id={`${idPrefix}-y-label`} type="text" value={yAxisLabel} placeholder={defaults.yAxisLabel} onChange={(e) => setYAxisLabel(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-time-unit`} className="block text-xs font-medium text-gray-700 mb-1">Time Units</label>
+          <select id={`${idPrefix}-time-unit`} value={timeUnit} onChange={(e) => setTimeUnit(e.target.value as 'min' | 'hr')} className={inputClass}>
+            <option value="hr">Hours</option>
+            <option value="min">Minutes</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-png-scale`} className="block text-xs font-medium text-gray-700 mb-1">PNG Resolution</label>
+          <select id={`${idPrefix}-png-scale`} value={pngScale} onChange={(e) => setPngScale(Number(e.target.value))} className={inputClass}>
+            <option value={2}>2x (2400 px wide)</option>
+            <option value={3}>3x (3600 px wide)</option>
+            <option value={4}>4x (4800 px wide)</option>
+          </select>
+        </div>
+        <div className="flex flex-col justify-end gap-1 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showCumulative} onChange={(e) => setShowCumulative(e.target.checked)} />
+            Cumulative depth overlay
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={includeCaption} onChange={(e) => setIncludeCaption(e.target.checked)} />
+            Storm parameter caption
+          </label>
+        </div>
+      </div>
+      {includeCaption && <p className="mt-2 text-xs text-gray-500 italic">Caption: {caption}</p>}
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={handleDownloadPng}
+          className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+        >
+          Download PNG
+        </button>
+        <button
+          onClick={handleDownloadSvg}
+          className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+        >
+          Download SVG
+        </button>
+      </div>
+    </details>
+  );
+};
+
+const HyetographChart: React.FC<HyetographChartProps> = ({ calculationResult, chartRef, stormDescription = '' }) => {
   if (!calculationResult || !calculationResult.detailedData || calculationResult.detailedData.length === 0) {
     // Render a placeholder or nothing if no data
     return <div className="text-center text-gray-500 italic p-4 border border-dashed border-gray-300 rounded-md">No storm data to display chart.</div>;
   }
 
-  const { labels, intensityData, intensityUnit, detailedData } = calculationResult;
+  const { labels, intensityData, intensityUnit, detailedData, excessIntensityData, climateAdjustment, peakShift } = calculationResult;
 
   // Determine total duration for tooltip formatting
   const totalDurationMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
 
+  const datasets = [
+    {
+      label: excessIntensityData ? `Gross Rainfall (${intensityUnit})` : `Rainfall Intensity (${intensityUnit})`,
+      data: intensityData,
+      backgroundColor: 'rgba(54, 162, 235, 0.6)', // Blueish color
+      borderColor: 'rgba(54, 162, 235, 1)',
+      borderWidth: 1,
+      barPercentage: 1.0, // Bars touch
+      categoryPercentage: 1.0, // Bars touch
+      grouped: false, // Overlay effective rainfall on top of gross rainfall
+      order: 2,
+    },
+  ];
+
+  // Effective rainfall (excess) is drawn over the gross bars when a curve number was supplied
+  if (excessIntensityData) {
+    datasets.push({
+      label: `Effective Rainfall (${intensityUnit})`,
+      data: excessIntensityData,
+      backgroundColor: 'rgba(255, 99, 71, 0.7)', // Tomato color
+      borderColor: 'rgba(255, 99, 71, 1)',
+      borderWidth: 1,
+      barPercentage: 1.0,
+      categoryPercentage: 1.0,
+      grouped: false,
+      order: 1,
+    });
+  }
+
+  // The unadjusted (baseline) storm is outlined over the climate-adjusted bars
+  if (climateAdjustment) {
+    datasets.push({
+      label: `Baseline Rainfall (${intensityUnit})`,
+      data: climateAdjustment.baselineIntensityData,
+      backgroundColor: 'rgba(0, 0, 0, 0)',
+      borderColor: 'rgba(55, 65, 81, 0.9)', // Dark gray outline
+      borderWidth: 1,
+      barPercentage: 1.0,
+      categoryPercentage: 1.0,
+      grouped: false,
+      order: 0,
+    });
+  }
+
+  // The storm with the curve's own timing is outlined behind the shifted bars
+  if (peakShift) {
+    datasets.push({
+      label: `Original Timing (${intensityUnit})`,
+      data: peakShift.originalIntensityData,
+      backgroundColor: 'rgba(0, 0, 0, 0)',
+      borderColor: 'rgba(217, 119, 6, 0.9)', // Amber outline
+      borderWidth: 1,
+      barPercentage: 1.0,
+      categoryPercentage: 1.0,
+      grouped: false,
+      order: 0,
+    });
+  }
+
   const chartData = {
     labels: labels.slice(0, -1), // Remove the last label which marks the end time, not a bar start
-    datasets: [
-      {
-        label: `Rainfall Intensity (${intensityUnit})`,
-        data: intensityData,
-        backgroundColor: 'rgba(54, 162, 235, 0.6)', // Blueish color
-        borderColor: 'rgba(54, 162, 235, 1)',
-        borderWidth: 1,
-        barPercentage: 1.0, // Bars touch
-        categoryPercentage: 1.0, // Bars touch
-      },
-    ],
+    datasets,
   };
 
   const options = {
@@ -120,8 +273,11 @@ const HyetographChart: React.FC<HyetographChartProps> = ({ calculationResult })
   };
 
   return (
-    <div className="relative h-[40vh] min-h-[300px] w-full bg-white p-2 rounded shadow-sm border border-gray-200">
-      <Bar options={options} data={chartData} />
+    <div>
+      <div className="relative h-[40vh] min-h-[300px] w-full bg-white p-2 rounded shadow-sm border border-gray-200">
+        <Bar ref={chartRef} options={options} data={chartData} />
+      </div>
+      <ChartImageExport calculationResult={calculationResult} stormDescription={stormDescription} />
     </div>
   );
 };
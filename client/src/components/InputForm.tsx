@@ -1,37 +1,69 @@
-import React from 'react';
-import { StormInputParameters } from '../types'; // Import the type
+import React, { useState } from 'react';
+import { ClimateChangeFactor, StormCategory, StormInputParameters, StormTypeSuggestion } from '../types'; // Import the type
 // Import the available sub-types exported from tr55.ts
-import { stormSubTypesByCategory } from '../utils/tr55';
+import { stormSubTypesByCategory, calculateChicagoDepth, getPublishedDurations, findNearestPublishedDuration, getHuffProbabilityLevels, parseClimateFactorTable, getAtlas14ProbabilityLevels, formatAtlas14CurveName } from '../utils/tr55';
 
 interface InputFormProps {
   // Use the full StormInputParameters type
   inputs: StormInputParameters;
   // Update the callback signature
-  onInputChange: (field: keyof StormInputParameters, value: string | number | 6 | 12 | 24) => void;
+  onInputChange: (field: keyof StormInputParameters, value: string | number) => void;
   onUnitChange: (unitType: 'depth', value: 'us' | 'metric') => void;
   onSubmit: () => void;
+  onClimateTableLoad: (factors: ClimateChangeFactor[], fileName: string) => void;
+  stormTypeSuggestions: StormTypeSuggestion[]; // For the location picked on the map
+  onApplyStormTypeSuggestion: (category: StormCategory, subType: string) => void;
 }
 
-const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChange, onSubmit }) => {
+const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChange, onSubmit, onClimateTableLoad, stormTypeSuggestions, onApplyStormTypeSuggestion }) => {
+    const [climateTableErrors, setClimateTableErrors] = useState<string[]>([]);
 
-    const handleNumericChange = (field: 'totalDepth' | 'timeStep', value: string) => {
+    const handleNumericChange = (field: 'totalDepth' | 'timeStep' | 'curveNumber' | 'drainageArea' | 'timeOfConcentration' | 'peakPosition' | 'peakShift' | 'idfA' | 'idfB' | 'idfC', value: string) => {
         // Allow empty string, positive numbers, and partial decimals like "1."
         if (value === '' || /^[+]?([0-9]*[.])?[0-9]*$/.test(value)) {
             onInputChange(field, value);
         }
     };
 
-    // Duration change handler (Only applicable for SCS)
-    const handleDurationChange = (value: string) => {
-        const durationValue = parseInt(value, 10) as 6 | 12 | 24;
-        if (inputs.stormCategory === 'SCS') {
-            onInputChange('duration', durationValue);
+    // Climate inputs may be negative (drying trends, cooling scenarios)
+    const handleSignedChange = (field: 'climateUpliftPercent' | 'climateScalingRate' | 'climateWarming', value: string) => {
+        if (value === '' || /^[+-]?([0-9]*[.])?[0-9]*$/.test(value)) {
+            onInputChange(field, value);
+        }
+    };
+
+    const handleClimateTableChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-uploading the same file after fixing it
+        if (!file) return;
+        const { factors, errors } = parseClimateFactorTable(await file.text());
+        setClimateTableErrors(errors);
+        if (errors.length === 0) {
+            onClimateTableLoad(factors, file.name);
         }
     };
 
     // Get the list of sub-types for the currently selected category
     const currentSubTypes = stormSubTypesByCategory[inputs.stormCategory] || [];
-    const isSCS = inputs.stormCategory === 'SCS';
+    const isNOAA = inputs.stormCategory === 'NOAA';
+    const isChicago = inputs.stormCategory === 'Chicago';
+    // Chicago depth is derived from the IDF curve; show it in place of the depth input
+    const chicagoDepth = isChicago
+        ? calculateChicagoDepth({ a: parseFloat(String(inputs.idfA)), b: parseFloat(String(inputs.idfB)), c: parseFloat(String(inputs.idfC)) }, inputs.duration * 60)
+        : NaN;
+    const isCustom = inputs.stormCategory === 'Custom';
+    // Tabulated curves are time-scaled when the duration is not one they are published for
+    const isHuff = inputs.stormCategory === 'Huff';
+    const huffLevels = isHuff ? getHuffProbabilityLevels(inputs.stormSubType) : [];
+    const usesHuffProbability = isHuff && inputs.huffProbability !== null; // Dimensionless curve, no published duration
+    const isAtlas14 = inputs.stormCategory === 'Atlas14';
+    const atlas14Levels = isAtlas14 ? getAtlas14ProbabilityLevels(inputs.stormSubType) : [];
+    const publishedDurations = isNOAA || isChicago || usesHuffProbability ? []
+        : getPublishedDurations(inputs.stormCategory, isAtlas14 ? formatAtlas14CurveName(inputs.stormSubType, inputs.atlas14Probability) : inputs.stormSubType);
+    const scaledFromDuration = publishedDurations.length > 0 && inputs.duration > 0 && !publishedDurations.includes(inputs.duration)
+        ? findNearestPublishedDuration(publishedDurations, inputs.duration)
+        : null;
+    const hasCurveNumber = String(inputs.curveNumber).trim() !== '';
 
   return (
     <form onSubmit={(e) => { e.preventDefault(); onSubmit(); }} className="space-y-4">
@@ -46,12 +78,16 @@ const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChan
             inputMode="decimal" // Hint for mobile keyboards
             id="total-depth"
             name="totalDepth"
-            value={inputs.totalDepth}
+            value={isChicago ? (isNaN(chicagoDepth) ? '' : chicagoDepth.toFixed(3)) : inputs.totalDepth}
             onChange={(e) => handleNumericChange('totalDepth', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${isChicago ? 'bg-gray-100 cursor-not-allowed' : ''}`}
             required
             min="0"
+            disabled={isChicago}
           />
+          {isChicago && (
+              <p className="mt-1 text-xs text-gray-500 italic">Depth computed from the IDF curve.</p>
+          )}
           <div className="mt-2 flex items-center space-x-4">
             <label className="flex items-center text-sm text-gray-600">
               <input
@@ -93,6 +129,10 @@ const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChan
             <option value="SCS">SCS (TR-55)</option>
             <option value="NRCS">NRCS (Regional)</option>
             <option value="Huff">Huff (Regional)</option>
+            <option value="NOAA">NOAA Atlas 14 (Alternating Block)</option>
+            <option value="Chicago">Chicago (IDF)</option>
+            <option value="Custom">Custom (Uploaded)</option>
+            <option value="Atlas14">NOAA Atlas 14 (Temporal)</option>
           </select>
         </div>
 
@@ -115,26 +155,127 @@ const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChan
           </select>
         </div>
 
-        {/* Duration Dropdown (Conditional) */}
+        {/* Storm Types Suggested for the Map Location (Conditional) */}
+        {stormTypeSuggestions.length > 0 && (
+          <div className="md:col-span-2 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-900">
+            <p className="font-medium mb-1">Suggested for the selected location (approximate):</p>
+            <ul className="space-y-1">
+              {stormTypeSuggestions.map(suggestion => {
+                const isSelected = inputs.stormCategory === suggestion.stormCategory && suggestion.stormSubTypes.includes(inputs.stormSubType);
+                return (
+                  <li key={suggestion.regionName} className="flex flex-wrap items-center gap-2">
+                    <span>{suggestion.regionName}</span>
+                    {suggestion.stormSubTypes.length > 1 ? (
+                      <select
+                        aria-label={`${suggestion.regionName} sub-type`}
+                        value={isSelected ? inputs.stormSubType : ''}
+                        onChange={(e) => e.target.value && onApplyStormTypeSuggestion(suggestion.stormCategory, e.target.value)}
+                        className="px-2 py-1 border border-blue-300 bg-white rounded text-xs"
+                      >
+                        <option value="">Use...</option>
+                        {suggestion.stormSubTypes.map(subType => (
+                          <option key={subType} value={subType}>{subType}</option>
+                        ))}
+                      </select>
+                    ) : isSelected ? (
+                      <span className="text-xs text-blue-700 italic">(selected)</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => onApplyStormTypeSuggestion(suggestion.stormCategory, suggestion.stormSubTypes[0])}
+                        className="px-2 py-0.5 border border-blue-300 bg-white rounded text-xs hover:bg-blue-100"
+                      >
+                        Use
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="mt-1 text-xs text-blue-700 italic">
+              NRCS areas and the Alaska, Hawaii and Puerto Rico extents follow state outlines, but the SCS type boundaries in the lower 48 are hand-drawn from TR-55 Figure B-2: confirm the type against the published map, especially near a boundary, and pick the NRCS sub-area (or the Alaska type) from the regional maps.
+            </p>
+          </div>
+        )}
+
+        {/* Huff Probability Level (Conditional) */}
+        {isHuff && (
+          <div>
+            <label htmlFor="huff-probability" className="block text-sm font-medium text-gray-700 mb-1">
+              Probability Level
+            </label>
+            <select
+              id="huff-probability"
+              name="huffProbability"
+              value={inputs.huffProbability ?? ''}
+              onChange={(e) => onInputChange('huffProbability', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="">Bundled 24-hr curve</option>
+              {/* Higher levels are upper envelopes: more of the rain falls early, so 90% is the most front-loaded */}
+              {huffLevels.map(level => (
+                <option key={level} value={level}>{level}% ({level > 50 ? 'front-loaded' : level < 50 ? 'back-loaded' : 'median'})</option>
+              ))}
+            </select>
+            {huffLevels.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500 italic">Upload a Huff probability table under Custom Distributions to add 10%–90% curves.</p>
+            )}
+          </div>
+        )}
+
+        {/* Atlas 14 Probability Level (Conditional) */}
+        {isAtlas14 && (
+          <div>
+            <label htmlFor="atlas14-probability" className="block text-sm font-medium text-gray-700 mb-1">
+              Probability Level
+            </label>
+            <select
+              id="atlas14-probability"
+              name="atlas14Probability"
+              value={inputs.atlas14Probability}
+              onChange={(e) => onInputChange('atlas14Probability', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              disabled={atlas14Levels.length === 0}
+            >
+              {atlas14Levels.map(level => (
+                <option key={level} value={level}>{level}%{level === 50 ? ' (median)' : ''}</option>
+              ))}
+            </select>
+            {currentSubTypes.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500 italic">No Atlas 14 temporal tables are bundled; add NOAA's CSVs to src/utils/atlas14 (see its README).</p>
+            )}
+          </div>
+        )}
+
+        {/* Duration */}
         <div>
-          <label htmlFor="duration" className={`block text-sm font-medium mb-1 ${isSCS ? 'text-gray-700' : 'text-gray-400'}`}>
+          <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-1">
             Duration (hours)
           </label>
-          <select
+          <input
+            type="number"
             id="duration"
             name="duration"
-            value={inputs.duration} // Value is now 6, 12, or 24
-            onChange={(e) => handleDurationChange(e.target.value)}
-            className={`w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${!isSCS ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+            list="published-durations"
+            value={isNaN(inputs.duration) ? '' : inputs.duration}
+            onChange={(e) => onInputChange('duration', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             required
-            disabled={!isSCS} // Disable if not SCS
-          >
-            <option value={6}>6 hours</option>
-            <option value={12}>12 hours</option>
-            <option value={24}>24 hours</option>
-          </select>
-          {!isSCS && (
-              <p className="mt-1 text-xs text-gray-500 italic">Duration fixed at 24 hours for NRCS/Huff storms.</p>
+            min="0"
+            step="any"
+          />
+          <datalist id="published-durations">
+            {publishedDurations.map(hours => (
+              <option key={hours} value={hours} />
+            ))}
+          </datalist>
+          {scaledFromDuration !== null && (
+              <p className="mt-1 text-xs text-amber-700 italic">
+                  No published {inputs.duration}-hr curve; the {scaledFromDuration}-hr curve will be time-scaled to {inputs.duration} hours.
+              </p>
+          )}
+          {isCustom && currentSubTypes.length === 0 && (
+              <p className="mt-1 text-xs text-gray-500 italic">Upload a distribution under Custom Distributions below.</p>
           )}
         </div>
 
@@ -154,12 +295,374 @@ const InputForm: React.FC<InputFormProps> = ({ inputs, onInputChange, onUnitChan
             required
             min="1"
           />
-          {inputs.stormCategory !== 'SCS' && (
+          {(inputs.stormCategory === 'NRCS' || inputs.stormCategory === 'Huff') && (
                <p className="mt-1 text-xs text-gray-500 italic">Time step must be 1 or 6 minutes for NRCS/Huff storms.</p>
           )}
         </div>
+
+        {/* Interpolation Mode */}
+        <div>
+          <label htmlFor="interpolation-mode" className="block text-sm font-medium text-gray-700 mb-1">
+            Curve Interpolation
+          </label>
+          <select
+            id="interpolation-mode"
+            name="interpolationMode"
+            value={inputs.interpolationMode}
+            onChange={(e) => onInputChange('interpolationMode', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="linear">Linear</option>
+            <option value="pchip">Monotone cubic (PCHIP)</option>
+          </select>
+        </div>
+
+        {/* Storm Start Date and Time Format */}
+        <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="storm-start" className="block text-sm font-medium text-gray-700 mb-1">
+              Storm Start (optional)
+            </label>
+            <input
+              type="datetime-local"
+              id="storm-start"
+              name="stormStart"
+              value={inputs.stormStart}
+              onChange={(e) => onInputChange('stormStart', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="time-zone" className="block text-sm font-medium text-gray-700 mb-1">
+              Time Zone
+            </label>
+            <input
+              type="text"
+              id="time-zone"
+              name="timeZone"
+              list="time-zone-options"
+              placeholder="America/Chicago or -05:00"
+              value={inputs.timeZone}
+              onChange={(e) => onInputChange('timeZone', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <datalist id="time-zone-options">
+              {['America/New_York', 'America/Chicago', 'America/Denver', 'America/Phoenix', 'America/Los_Angeles', 'America/Anchorage', 'Pacific/Honolulu', 'America/Puerto_Rico', 'UTC', '-05:00'].map(zone => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="time-format" className="block text-sm font-medium text-gray-700 mb-1">
+              Time Format
+            </label>
+            <select
+              id="time-format"
+              name="timeFormat"
+              value={inputs.timeFormat}
+              onChange={(e) => onInputChange('timeFormat', e.target.value)}
+              disabled={inputs.stormStart.trim() === ''}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
+            >
+              <option value="relative">Relative (H:MM)</option>
+              <option value="iso">ISO 8601</option>
+              <option value="us">MM/DD/YYYY HH:MM</option>
+            </select>
+          </div>
+          <p className="md:col-span-3 -mt-2 text-xs text-gray-500 italic">
+            A start date dates every step for the detailed table, CSV and SWMM downloads. SWMM files use MM/DD/YYYY HH:MM for either dated format.
+            A named zone follows its daylight saving changes during the storm; a fixed offset does not.
+          </p>
+        </div>
+
+        {/* Chicago IDF Coefficients */}
+        {isChicago && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              IDF: i = a / (t + b)^c
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(['idfA', 'idfB', 'idfC'] as const).map(field => (
+                <input
+                  key={field}
+                  type="text"
+                  inputMode="decimal"
+                  name={field}
+                  aria-label={`IDF coefficient ${field.slice(3).toLowerCase()}`}
+                  placeholder={field.slice(3).toLowerCase()}
+                  value={inputs[field]}
+                  onChange={(e) => handleNumericChange(field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 italic">t in minutes, i in {inputs.depthUnits === 'us' ? 'in/hr' : 'mm/hr'}.</p>
+          </div>
+        )}
+
+        {/* Peak Position (NOAA Alternating Block and Chicago) */}
+        {(isNOAA || isChicago) && (
+          <div>
+            <label htmlFor="peak-position" className="block text-sm font-medium text-gray-700 mb-1">
+              {isChicago ? 'Peak Advancement Ratio r' : 'Peak Position (fraction of duration)'}
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              id="peak-position"
+              name="peakPosition"
+              value={inputs.peakPosition}
+              onChange={(e) => handleNumericChange('peakPosition', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            {isNOAA && <p className="mt-1 text-xs text-gray-500 italic">
+              {inputs.noaaReturnPeriod !== null
+                ? `Using the ${inputs.noaaReturnPeriod}-yr NOAA depth-duration curve.`
+                : 'Choose a return period in the NOAA table below.'}
+            </p>}
+          </div>
+        )}
+
+        {/* Peak Timing (storm shifting of tabulated curves) */}
+        {!isNOAA && !isChicago && (
+          <div>
+            <label htmlFor="peak-shift" className="block text-sm font-medium text-gray-700 mb-1">
+              Peak Timing (optional, fraction of duration)
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              id="peak-shift"
+              name="peakShift"
+              list="peak-shift-presets"
+              placeholder="Published timing"
+              value={inputs.peakShift}
+              onChange={(e) => handleNumericChange('peakShift', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+            <datalist id="peak-shift-presets">
+              <option value="0.33">Front-loaded</option>
+              <option value="0.5">Centred</option>
+              <option value="0.75">Back-loaded</option>
+            </datalist>
+            <p className="mt-1 text-xs text-gray-500 italic">Re-orders the curve's blocks around the new peak; total depth and nested maxima are kept.</p>
+          </div>
+        )}
+
+        {/* SCS Curve Number (Optional) */}
+        <div>
+          <label htmlFor="curve-number" className="block text-sm font-medium text-gray-700 mb-1">
+            Curve Number (optional)
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            id="curve-number"
+            name="curveNumber"
+            value={inputs.curveNumber}
+            onChange={(e) => handleNumericChange('curveNumber', e.target.value)}
+            placeholder="e.g. 75"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500 italic">Leave blank for gross rainfall only.</p>
+        </div>
+
+        {/* Initial Abstraction Ratio */}
+        <div>
+          <label htmlFor="ia-ratio" className={`block text-sm font-medium mb-1 ${hasCurveNumber ? 'text-gray-700' : 'text-gray-400'}`}>
+            Initial Abstraction Ratio (Ia/S)
+          </label>
+          <select
+            id="ia-ratio"
+            name="initialAbstractionRatio"
+            value={inputs.initialAbstractionRatio}
+            onChange={(e) => onInputChange('initialAbstractionRatio', e.target.value)}
+            className={`w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${!hasCurveNumber ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+            disabled={!hasCurveNumber}
+          >
+            <option value={0.2}>0.20 (TR-55 standard)</option>
+            <option value={0.05}>0.05 (S converted)</option>
+          </select>
+        </div>
       </div>
 
+      {/* Watershed (Optional): areal reduction, and the runoff hydrograph when a curve number is given */}
+      <fieldset className="border border-gray-200 rounded-md p-3">
+        <legend className="px-1 text-sm font-medium text-gray-700">Watershed / Runoff Hydrograph (optional)</legend>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="drainage-area" className="block text-sm font-medium text-gray-700 mb-1">
+              Drainage Area ({inputs.depthUnits === 'us' ? 'ac' : 'ha'})
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              id="drainage-area"
+              name="drainageArea"
+              value={inputs.drainageArea}
+              onChange={(e) => handleNumericChange('drainageArea', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="areal-reduction" className="block text-sm font-medium text-gray-700 mb-1">
+              Areal Reduction Factor
+            </label>
+            <select
+              id="areal-reduction"
+              name="arealReductionMethod"
+              value={inputs.arealReductionMethod}
+              onChange={(e) => onInputChange('arealReductionMethod', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="none">None (point depth)</option>
+              <option value="TP-29">NWS TP-29 (≤ 400 sq mi)</option>
+              <option value="NERC">NERC / FSR (≤ 10,000 km²)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="time-of-concentration" className="block text-sm font-medium text-gray-700 mb-1">
+              Time of Concentration (hr)
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              id="time-of-concentration"
+              name="timeOfConcentration"
+              value={inputs.timeOfConcentration}
+              onChange={(e) => handleNumericChange('timeOfConcentration', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="peak-rate-factor" className="block text-sm font-medium text-gray-700 mb-1">
+              Peak Rate Factor
+            </label>
+            <select
+              id="peak-rate-factor"
+              name="peakRateFactor"
+              value={inputs.peakRateFactor}
+              onChange={(e) => onInputChange('peakRateFactor', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="600">600 (steep terrain)</option>
+              <option value="484">484 (standard)</option>
+              <option value="300">300 (flat terrain)</option>
+            </select>
+          </div>
+        </div>
+        {!hasCurveNumber && (
+          <p className="mt-2 text-xs text-gray-500 italic">A curve number is required to compute the runoff hydrograph.</p>
+        )}
+        {inputs.arealReductionMethod !== 'none' && (
+          <p className="mt-2 text-xs text-gray-500 italic">The point depth is reduced by the factor for this drainage area and storm duration before it is distributed.</p>
+        )}
+      </fieldset>
+
+      {/* Climate Adjustment (Optional) */}
+      <fieldset className="border border-gray-200 rounded-md p-3">
+        <legend className="px-1 text-sm font-medium text-gray-700">Climate Adjustment (optional)</legend>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="climate-method" className="block text-sm font-medium text-gray-700 mb-1">
+              Method
+            </label>
+            <select
+              id="climate-method"
+              name="climateMethod"
+              value={inputs.climateMethod}
+              onChange={(e) => onInputChange('climateMethod', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              <option value="none">None (baseline)</option>
+              <option value="uniform">Uniform uplift (%)</option>
+              <option value="clausius-clapeyron">Clausius–Clapeyron scaling</option>
+              <option value="table">Change-factor table (upload)</option>
+            </select>
+          </div>
+          {inputs.climateMethod === 'uniform' && (
+            <div>
+              <label htmlFor="climate-uplift" className="block text-sm font-medium text-gray-700 mb-1">
+                Uplift (%)
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                id="climate-uplift"
+                name="climateUpliftPercent"
+                value={inputs.climateUpliftPercent}
+                onChange={(e) => handleSignedChange('climateUpliftPercent', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+          )}
+          {inputs.climateMethod === 'clausius-clapeyron' && (
+            <>
+              <div>
+                <label htmlFor="climate-rate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Scaling Rate (%/°C)
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  id="climate-rate"
+                  name="climateScalingRate"
+                  value={inputs.climateScalingRate}
+                  onChange={(e) => handleSignedChange('climateScalingRate', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="climate-warming" className="block text-sm font-medium text-gray-700 mb-1">
+                  Warming (°C)
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  id="climate-warming"
+                  name="climateWarming"
+                  value={inputs.climateWarming}
+                  onChange={(e) => handleSignedChange('climateWarming', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                />
+              </div>
+            </>
+          )}
+          {inputs.climateMethod === 'table' && (
+            <div className="md:col-span-2">
+              <label htmlFor="climate-table" className="block text-sm font-medium text-gray-700 mb-1">
+                Change Factors (duration, factor)
+              </label>
+              <input
+                type="file"
+                id="climate-table"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={handleClimateTableChange}
+                className="block w-full text-sm text-gray-600"
+              />
+              {inputs.climateChangeFactors.length > 0 && climateTableErrors.length === 0 && (
+                <p className="mt-1 text-xs text-green-700">
+                  {inputs.climateTableName}: {inputs.climateChangeFactors.map(f => `${f.durationHours} hr × ${f.factor.toFixed(3)}`).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        {inputs.climateMethod === 'table' && (
+          <p className="mt-2 text-xs text-gray-500 italic">
+            Durations in hours (or minutes if the header says "min"); factors as multipliers, or percent change if the header mentions "%".
+          </p>
+        )}
+        {climateTableErrors.length > 0 && (
+          <ul className="mt-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded list-disc list-inside">
+            {climateTableErrors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        )}
+        {inputs.climateMethod !== 'none' && (
+          <p className="mt-2 text-xs text-gray-500 italic">The baseline storm is overlaid on the chart for comparison.</p>
+        )}
+      </fieldset>
+
       <button
         type="submit"
         className="mt-4 w-full inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition duration-150 ease-in-out"
@@ -1,12 +1,17 @@
 import React from 'react';
-import { NoaaReturnPeriodData } from '../types';
+import { CalculationResult, NoaaReturnPeriodData } from '../types';
+import { generateWinTr20Records, getNoaaWinTr20Storms, getResultTimeStep } from '../utils/exporters';
+import { downloadTextFile } from '../utils/download';
 
 interface NoaaDataTableProps {
     noaaData: NoaaReturnPeriodData[] | null;
     isLoading: boolean;
     error: string | null;
     statusMessage: string;
-    onSelectEvent: (depth: number, durationValue: number) => void; // Callback for selecting 6, 12, 24hr
+    onSelectEvent: (depth: number, durationHours: number, returnPeriod: number) => void; // Callback for selecting any duration (hours)
+    onSelectReturnPeriod: (returnPeriod: number) => void; // Callback for building an alternating block storm
+    selectedReturnPeriod: number | null; // Return period of the current alternating block storm, if any
+    calculationResult: CalculationResult | null; // Distribution the WinTR-20 storm list uses
 }
 
 const NoaaDataTable: React.FC<NoaaDataTableProps> = ({
@@ -14,7 +19,10 @@ const NoaaDataTable: React.FC<NoaaDataTableProps> = ({
     isLoading,
     error,
     statusMessage,
-    onSelectEvent
+    onSelectEvent,
+    onSelectReturnPeriod,
+    selectedReturnPeriod,
+    calculationResult
 }) => {
 
     if (isLoading) {
@@ -75,10 +83,34 @@ const NoaaDataTable: React.FC<NoaaDataTableProps> = ({
         dataMap.set(rp.returnPeriod, durationMap);
     });
 
+    // --- WinTR-20 Storm List ---
+    // One storm per return period at the calculated storm's duration, all using its distribution
+    const handleDownloadWinTr20 = () => {
+        if (!calculationResult || calculationResult.detailedData.length === 0) return;
+        const durationMinutes = calculationResult.detailedData[calculationResult.detailedData.length - 1].timeEnd;
+        const content = generateWinTr20Records(calculationResult, {
+            tableId: 'GSTORM',
+            incrementHours: getResultTimeStep(calculationResult) / 60,
+            storms: getNoaaWinTr20Storms(noaaData, durationMinutes),
+        });
+        if (content === null) return;
+        downloadTextFile(content, `GStorm_WinTR20_NOAA_${durationMinutes / 60}hr.inp`);
+    };
+
     // --- Render Table ---
     return (
         <div className="mt-4 p-4 border rounded-lg shadow bg-white overflow-x-auto">
-             <h3 className="text-lg font-semibold text-gray-700 mb-3">NOAA Atlas 14 Precipitation Frequency (inches)</h3>
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-gray-700">NOAA Atlas 14 Precipitation Frequency (inches)</h3>
+                <button
+                    onClick={handleDownloadWinTr20}
+                    disabled={!calculationResult || calculationResult.detailedData.length === 0}
+                    className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="WinTR-20 storm list for every return period at the calculated storm's duration, using its distribution"
+                >
+                    Download WinTR-20 Storms
+                </button>
+            </div>
             <table className="min-w-full divide-y divide-gray-200 text-sm">
                 <thead className="bg-gray-50">
                     <tr>
@@ -94,27 +126,35 @@ const NoaaDataTable: React.FC<NoaaDataTableProps> = ({
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                     {noaaData.map(rpData => ( // Iterate through original data to maintain RP order
-                        <tr key={rpData.returnPeriod} className="hover:bg-gray-50">
+                        <tr key={rpData.returnPeriod} className={rpData.returnPeriod === selectedReturnPeriod ? 'bg-blue-50' : 'hover:bg-gray-50'}>
                             <td className="px-3 py-1.5 whitespace-nowrap font-medium text-gray-800 sticky left-0 bg-white hover:bg-gray-50 z-10">
                                 {rpData.returnPeriod}-yr
+                                <button
+                                    onClick={() => onSelectReturnPeriod(rpData.returnPeriod)}
+                                    className="ml-2 px-1.5 py-0.5 text-xs bg-green-600 hover:bg-green-700 text-white rounded transition duration-150 ease-in-out shadow-sm"
+                                    title={`Build an alternating block storm from the ${rpData.returnPeriod}-yr depth-duration curve`}
+                                >
+                                    Alt. Block
+                                </button>
                             </td>
                             {allDurationLabels.map(label => {
                                 const pointData = dataMap.get(rpData.returnPeriod)?.get(label);
-                                const isSelectable = pointData && pointData.durationUnits === 'hours' && [6, 12, 24].includes(pointData.durationValue);
+                                const isSelectable = pointData !== undefined;
+                                const durationHours = pointData ? (pointData.durationUnits === 'minutes' ? pointData.durationValue / 60 : pointData.durationValue) : 0;
                                 const cellContent = pointData ? pointData.depth.toFixed(2) : '-';
 
                                 return (
                                     <td key={label} className={`px-3 py-1.5 whitespace-nowrap text-right ${isSelectable ? 'font-semibold text-blue-600 cursor-pointer hover:bg-blue-100 hover:underline' : 'text-gray-600'}`}>
                                         {isSelectable ? (
                                             <span
-                                                onClick={() => onSelectEvent(pointData.depth, pointData.durationValue)}
+                                                onClick={() => onSelectEvent(pointData.depth, durationHours, rpData.returnPeriod)}
                                                 title={`Select ${rpData.returnPeriod}-yr, ${label} event`}
                                                 role="button"
                                                 tabIndex={0} // Make it focusable
                                                 onKeyDown={(e) => { // Allow selection with Enter/Space
                                                      if (e.key === 'Enter' || e.key === ' ') {
                                                         e.preventDefault(); // Prevent scrolling on Space
-                                                        onSelectEvent(pointData.depth, pointData.durationValue);
+                                                        onSelectEvent(pointData.depth, durationHours, rpData.returnPeriod);
                                                      }
                                                 }}
                                             >
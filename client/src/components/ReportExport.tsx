@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { CalculationResult, NoaaState, StormInputParameters } from '../types';
+import { generateStormReport } from '../utils/report';
+import { canvasToPdfImage } from '../utils/pdf';
+import { downloadBinaryFile } from '../utils/download';
+
+interface ReportExportProps {
+    calculationResult: CalculationResult;
+    calculatedInputs: StormInputParameters | null; // Inputs calculationResult was calculated from
+    stormInputs: StormInputParameters;             // Form inputs, if the storm predates calculatedInputs
+    noaaState: NoaaState;
+    chartRef: React.RefObject<ChartJS<'bar'> | null>; // Hyetograph chart drawn on the page
+}
+
+const ReportExport: React.FC<ReportExportProps> = ({ calculationResult, calculatedInputs, stormInputs, noaaState, chartRef }) => {
+    const [projectTitle, setProjectTitle] = useState('');
+    const [preparedBy, setPreparedBy] = useState('');
+
+    const handleDownload = () => {
+        const inputs = calculatedInputs ?? stormInputs;
+        const canvas = chartRef.current?.canvas;
+        const pdf = generateStormReport(calculationResult, inputs, noaaState, {
+            projectTitle,
+            preparedBy,
+            chartImage: canvas ? canvasToPdfImage(canvas) : null,
+        });
+        const safeTitle = (projectTitle.trim() || 'design_storm').replace(/[^A-Za-z0-9_-]+/g, '_');
+        downloadBinaryFile(pdf, `GStorm_Report_${safeTitle}.pdf`, 'application/pdf');
+    };
+
+    return (
+        <details className="border border-gray-200 rounded-md p-3">
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">PDF Report</summary>
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="report-project-title" className="block text-xs font-medium text-gray-700 mb-1">Project Title</label>
+                    <input
+                        type="text"
+                        id="report-project-title"
+                        value={projectTitle}
+                        onChange={(e) => setProjectTitle(e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="report-prepared-by" className="block text-xs font-medium text-gray-700 mb-1">Prepared By</label>
+                    <input
+                        type="text"
+                        id="report-prepared-by"
+                        value={preparedBy}
+                        onChange={(e) => setPreparedBy(e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                </div>
+            </div>
+            <div className="mt-3">
+                <button
+                    onClick={handleDownload}
+                    className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+                >
+                    Download PDF Report
+                </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500 italic">
+                Letter-size report with the project, location, NOAA source, distribution citation, inputs, chart, summary and full step table,
+                with signature lines and space for a seal. Generated in the browser.
+            </p>
+        </details>
+    );
+};
+
+export default ReportExport;
@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { RunoffResult } from '../types'; // Use shared types
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface RunoffChartProps {
+  runoffResult: RunoffResult | null;
+}
+
+const RunoffChart: React.FC<RunoffChartProps> = ({ runoffResult }) => {
+  if (!runoffResult || runoffResult.detailedData.length === 0) {
+    return <div className="text-center text-gray-500 italic p-4 border border-dashed border-gray-300 rounded-md">No runoff hydrograph to display.</div>;
+  }
+
+  const { labels, dischargeData, flowUnit, detailedData } = runoffResult;
+
+  // Determine total duration for axis formatting
+  const totalDurationMinutes = detailedData[detailedData.length - 1].time;
+
+  const chartData = {
+    labels,
+    datasets: [
+      {
+        label: `Discharge (${flowUnit})`,
+        data: dischargeData,
+        borderColor: 'rgba(75, 192, 192, 1)', // Teal color
+        backgroundColor: 'rgba(75, 192, 192, 0.2)',
+        borderWidth: 2,
+        pointRadius: 0, // Hydrographs have many ordinates; hide points
+        tension: 0.1,
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: 'Runoff Hydrograph (NRCS Unit Hydrograph)',
+      },
+      tooltip: {
+          callbacks: {
+              label: function(context: any) {
+                  let label = context.dataset.label || '';
+                  if (label) {
+                      label += ': ';
+                  }
+                  if (context.parsed.y !== null) {
+                      label += context.parsed.y.toFixed(3) + ' ' + flowUnit;
+                  }
+                  return label;
+              }
+          }
+      }
+    },
+    scales: {
+      x: {
+        title: {
+          display: true,
+          text: totalDurationMinutes > 120 ? 'Time (H:MM)' : 'Time (Minutes)',
+        },
+         ticks: {
+             maxRotation: 70,
+             minRotation: 0,
+             autoSkip: true,
+             maxTicksLimit: 20 // Adjust as needed for readability
+         }
+      },
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: `Discharge (${flowUnit})`,
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="relative h-[40vh] min-h-[300px] w-full bg-white p-2 rounded shadow-sm border border-gray-200">
+      <Line options={options} data={chartData} />
+    </div>
+  );
+};
+
+export default RunoffChart;
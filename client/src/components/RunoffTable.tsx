@@ -0,0 +1,119 @@
+import React from 'react';
+import { CalculationResult, RunoffResult, StormInputParameters } from '../types';
+import { downloadTextFile } from '../utils/download';
+import { getExportNotes } from '../utils/exporters';
+
+interface RunoffTableProps {
+    runoffResult: RunoffResult | null;
+    calculationResult: CalculationResult | null; // Storm the hydrograph was computed from (export notes)
+    stormInputs: StormInputParameters; // Inputs the runoff was calculated from, for filename generation
+}
+
+// Helper to format time for table display
+function formatTableTime(timeMinutes: number, totalDurationMinutes: number): string {
+    if (totalDurationMinutes > 120) { // Use H:MM for durations > 2 hours
+        const hours = Math.floor(timeMinutes / 60);
+        const mins = Math.round(timeMinutes % 60);
+        return `${hours}:${mins.toString().padStart(2, '0')}`;
+    } else { // Use minutes (rounded)
+        return String(Math.round(timeMinutes));
+    }
+}
+
+const RunoffTable: React.FC<RunoffTableProps> = ({ runoffResult, calculationResult, stormInputs }) => {
+    if (!runoffResult || runoffResult.detailedData.length === 0) {
+        return null;
+    }
+
+    const { detailedData, flowUnit, volumeUnit, peakFlow, timeToPeak, runoffVolume, runoffDepth, lagTime, unitHydrographTimeToPeak, peakRateFactor, warnings } = runoffResult;
+    const depthUnit = stormInputs.depthUnits === 'us' ? 'in' : 'mm';
+    const totalDurationMinutes = detailedData[detailedData.length - 1].time;
+
+    const handleDownloadCsv = () => {
+        const headers = [
+            'Time',
+            `Discharge_(${flowUnit.replace('³', '3').replace('/', '_per_')})`
+        ];
+        const rows = detailedData.map(item => [
+            formatTableTime(item.time, totalDurationMinutes),
+            item.discharge.toFixed(5)
+        ]);
+
+        const notes = calculationResult ? getExportNotes(calculationResult).map(note => `# ${note}`) : [];
+        const csvContent = [...notes, headers.join(','), ...rows.map(row => row.join(','))].join('\n') + '\n';
+
+        // Generate filename using category, subType and watershed parameters
+        const safeCategory = String(stormInputs.stormCategory);
+        const safeSubType = String(stormInputs.stormSubType).replace(/\s+/g, '_'); // Replace spaces
+        const depthValue = String(stormInputs.totalDepth).replace(/\./g, '-'); // Replace periods
+        const filename = `gstorm_runoff_${safeCategory}_${safeSubType}_${stormInputs.duration}hr_${depthValue}${depthUnit}_CN${stormInputs.curveNumber}.csv`;
+
+        downloadTextFile(csvContent, filename, 'text/csv;charset=utf-8');
+    };
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">Runoff Hydrograph</h3>
+            <table className="min-w-full divide-y divide-gray-200 border border-gray-300 mb-3">
+                <tbody className="bg-white divide-y divide-gray-200">
+                    <tr>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800 w-2/5">Peak Flow</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{peakFlow.toFixed(3)} {flowUnit}</td>
+                    </tr>
+                    <tr>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">Time to Peak</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{(timeToPeak / 60).toFixed(2)} hr</td>
+                    </tr>
+                    <tr>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">Runoff Volume (Depth)</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{runoffVolume.toFixed(3)} {volumeUnit} ({runoffDepth.toFixed(3)} {depthUnit})</td>
+                    </tr>
+                    <tr>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">Lag / Unit Hydrograph Tp / PRF</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">{lagTime.toFixed(1)} min / {unitHydrographTimeToPeak.toFixed(1)} min / {peakRateFactor}</td>
+                    </tr>
+                </tbody>
+            </table>
+            {warnings.map((warning, index) => (
+                <p key={index} className="mb-2 text-xs text-amber-700 italic">{warning}</p>
+            ))}
+            <div className="flex space-x-2 mb-3">
+                <button
+                    onClick={handleDownloadCsv}
+                    className="px-3 py-1 text-sm rounded border bg-blue-500 hover:bg-blue-600 border-blue-600 text-white transition duration-150 ease-in-out"
+                >
+                    Download Hydrograph CSV
+                </button>
+            </div>
+            {/* Table Container with Scrolling */}
+            <div className="overflow-x-auto border border-gray-300 rounded-md max-h-[300px]">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-100 sticky top-0 z-10">
+                        <tr>
+                            <th scope="col" className="px-3 py-2 text-center font-medium text-gray-600 uppercase tracking-wider">
+                                Time ({totalDurationMinutes > 120 ? 'H:MM' : 'min'})
+                            </th>
+                            <th scope="col" className="px-3 py-2 text-right font-medium text-gray-600 uppercase tracking-wider">
+                                Discharge ({flowUnit})
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {detailedData.map((item, index) => (
+                            <tr key={index} className="hover:bg-gray-50">
+                                <td className="px-3 py-1.5 whitespace-nowrap text-center text-gray-700">
+                                    {formatTableTime(item.time, totalDurationMinutes)}
+                                </td>
+                                <td className="px-3 py-1.5 whitespace-nowrap text-right text-gray-700 font-mono">
+                                    {item.discharge.toFixed(5)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default RunoffTable;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { CalculationResult } from '../types';
+import { formatTimeLabel } from '../utils/tr55';
 
 interface SummaryTableProps {
     calculationResult: CalculationResult | null;
@@ -10,7 +11,9 @@ const SummaryTable: React.FC<SummaryTableProps> = ({ calculationResult }) => {
         return null; // Don't render anything if no results
     }
 
-    const { totalDepthActual, peakIntensity, depthUnit, intensityUnit } = calculationResult;
+    const { totalDepthActual, peakIntensity, depthUnit, intensityUnit, totalExcessDepth, runoffParameters, scaledFromDuration, arealReduction, climateAdjustment, interpolationComparison, peakShift, detailedData } = calculationResult;
+    const totalDurationMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
+    const interpolationLabels = { linear: 'Linear', pchip: 'PCHIP' };
 
     return (
         <div className="overflow-x-auto mt-4">
@@ -42,6 +45,115 @@ const SummaryTable: React.FC<SummaryTableProps> = ({ calculationResult }) => {
                             {peakIntensity.toFixed(3)} {intensityUnit}
                         </td>
                     </tr>
+                    {interpolationComparison && (
+                        <tr>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                Peak Intensity with {interpolationLabels[interpolationComparison.alternateMode]} Interpolation
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                {interpolationComparison.alternatePeakIntensity.toFixed(3)} {intensityUnit}
+                                {' '}({(peakIntensity - interpolationComparison.alternatePeakIntensity) >= 0 ? '+' : ''}
+                                {(peakIntensity - interpolationComparison.alternatePeakIntensity).toFixed(3)} {intensityUnit} with {interpolationLabels[interpolationComparison.mode]})
+                            </td>
+                        </tr>
+                    )}
+                    {peakShift && (
+                        <tr>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                Peak Timing
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                Shifted to {peakShift.position} of the duration: peak step at {formatTimeLabel(peakShift.shiftedPeakTime, totalDurationMinutes)}
+                                {' '}(published timing {formatTimeLabel(peakShift.originalPeakTime, totalDurationMinutes)})
+                            </td>
+                        </tr>
+                    )}
+                    {climateAdjustment && (
+                        <>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Climate Adjustment
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {climateAdjustment.description} (factor {climateAdjustment.factor.toFixed(4)})
+                                </td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Baseline Point Depth / Peak Intensity
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {climateAdjustment.baselineDepth.toFixed(3)} {depthUnit} / {climateAdjustment.baselinePeakIntensity.toFixed(3)} {intensityUnit}
+                                </td>
+                            </tr>
+                        </>
+                    )}
+                    {arealReduction && (
+                        <>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Point Rainfall Depth
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {arealReduction.pointDepth.toFixed(3)} {depthUnit}
+                                </td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Areal Reduction Factor
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {arealReduction.factor.toFixed(4)} ({arealReduction.method}, {arealReduction.drainageArea} {arealReduction.areaUnit})
+                                </td>
+                            </tr>
+                        </>
+                    )}
+                    {scaledFromDuration !== undefined && (
+                        <tr>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                Distribution Time Basis
+                            </td>
+                            <td className="px-4 py-2 text-sm text-amber-700">
+                                Published {scaledFromDuration}-hr curve time-scaled to the storm duration (used outside its published duration)
+                            </td>
+                        </tr>
+                    )}
+                    {runoffParameters && totalExcessDepth !== undefined && (
+                        <>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Curve Number (Ia/S)
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {runoffParameters.curveNumber} ({runoffParameters.initialAbstractionRatio})
+                                </td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Potential Retention S / Initial Abstraction Ia
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {runoffParameters.potentialRetention.toFixed(3)} / {runoffParameters.initialAbstraction.toFixed(3)} {depthUnit}
+                                </td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Total Runoff (Effective Rainfall)
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {totalExcessDepth.toFixed(3)} {depthUnit}
+                                </td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-800">
+                                    Total Losses
+                                </td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                                    {(totalDepthActual - totalExcessDepth).toFixed(3)} {depthUnit}
+                                </td>
+                            </tr>
+                        </>
+                    )}
                 </tbody>
             </table>
         </div>
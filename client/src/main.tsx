@@ -1,5 +1,6 @@
 import { StrictMode } from 'react';
 import ReactDOM from 'react-dom/client';
+import './utils/bundledDistributions'; // Register the bundled storm distributions and region boundaries before the app reads them
 import App from './App'; // TS will resolve .tsx
 import './index.css';
 import 'leaflet/dist/leaflet.css';
@@ -7,6 +7,124 @@ export interface StormStep {
   intensity: number;       // Calculated intensity (in/hr or mm/hr)
   depthStep: number;       // Depth during this step (in or mm)
   cumulativeDepth: number; // Cumulative depth up to the end of this step (in or mm)
+  // SCS Curve Number rainfall excess (only present when a curve number is supplied)
+  cumulativeRunoff?: number; // Cumulative runoff (rainfall excess) up to the end of this step (in or mm)
+  excessDepth?: number;      // Rainfall excess (effective rainfall) during this step (in or mm)
+  lossDepth?: number;        // Losses (initial abstraction + infiltration) during this step (in or mm)
+  // Calendar time (only present when the storm has a start date)
+  timestampStart?: number;   // Epoch milliseconds (UTC) at the start of this step
+  timestampEnd?: number;     // Epoch milliseconds (UTC) at the end of this step
+}
+
+// Calendar start of a storm: an instant plus the UTC offset its times are written in
+export interface StormCalendar {
+  start: number;            // Epoch milliseconds (UTC)
+  utcOffsetMinutes: number; // Offset at the start, e.g. -300 for UTC-05:00
+  timeZone?: string;        // IANA zone, e.g. "America/Chicago", whose daylight saving changes local times follow; absent for a fixed offset
+}
+
+// How step times are written in tables and exports: H:MM from the storm start, ISO 8601, or MM/DD/YYYY HH:MM
+export type TimeFormat = 'relative' | 'iso' | 'us';
+
+// Initial abstraction ratio (Ia = ratio * S) used by the SCS runoff equation
+export type InitialAbstractionRatio = 0.2 | 0.05;
+
+// Parameters of the SCS Curve Number loss calculation applied to a storm
+export interface RunoffParameters {
+  curveNumber: number;
+  initialAbstractionRatio: InitialAbstractionRatio;
+  potentialRetention: number; // S, potential maximum retention (in or mm)
+  initialAbstraction: number; // Ia, initial abstraction (in or mm)
+}
+
+// Areal reduction factor curve applied to point rainfall depths
+export type ArealReductionMethod = 'TP-29' | 'NERC';
+
+// Areal reduction applied to a storm's point depth
+export interface ArealReduction {
+  method: ArealReductionMethod;
+  factor: number;        // Areal reduction factor for the storm duration (0-1)
+  pointDepth: number;    // Depth before reduction (in or mm)
+  drainageArea: number;  // Drainage area the factor was evaluated for
+  areaUnit: 'ac' | 'ha';
+}
+
+// Climate-change adjustment of design depths
+export type ClimateAdjustmentMethod = 'uniform' | 'clausius-clapeyron' | 'table';
+
+// Duration-specific change factor from an uploaded table
+export interface ClimateChangeFactor {
+  durationHours: number;
+  factor: number; // Multiplier on the baseline depth (e.g., 1.15)
+}
+
+// Climate adjustment settings passed to the calculation
+export interface ClimateAdjustment {
+  method: ClimateAdjustmentMethod;
+  upliftPercent?: number;                 // Uniform: percentage increase applied to every duration
+  scalingRate?: number;                   // Clausius–Clapeyron: % increase per °C (about 7)
+  warming?: number;                       // Clausius–Clapeyron: temperature change (°C)
+  changeFactors?: ClimateChangeFactor[];  // Table: factors by duration, sorted by duration
+}
+
+// Climate adjustment applied to a storm
+export interface AppliedClimateAdjustment {
+  description: string;   // e.g., 'Clausius–Clapeyron 7%/°C × 2 °C'
+  factor: number;        // Factor at the storm duration
+  baselineDepth: number; // Depth before adjustment (in or mm)
+  baselineIntensityData: number[]; // Intensities of the unadjusted storm, for overlaying on the chart
+  baselinePeakIntensity: number;
+}
+
+// How target times are mapped onto the tabulated cumulative curves
+export type InterpolationMode = 'linear' | 'pchip';
+
+// Peak intensity under the interpolation mode that was not selected, for comparison
+export interface InterpolationComparison {
+  mode: InterpolationMode;          // Mode used for the result
+  alternateMode: InterpolationMode;
+  alternatePeakIntensity: number;   // Peak intensity with the alternate mode (in/hr or mm/hr)
+}
+
+// Severity of a calculation diagnostic; an error means no storm was produced
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Condition reported by a calculation diagnostic
+export type DiagnosticCode =
+  | 'INVALID_INPUT'          // An input is missing or out of range
+  | 'NOAA_DATA_MISSING'      // No depth-duration curve covers the storm duration
+  | 'IDF_NO_DEPTH'           // The IDF curve gives no depth for the duration
+  | 'HUFF_CURVE_MISSING'     // The selected Huff probability curve is not registered
+  | 'DISTRIBUTION_NOT_FOUND' // No curve is published for the category and sub-type
+  | 'DISTRIBUTION_TOO_SHORT' // The curve has fewer than two points
+  | 'DURATION_TIME_SCALED'   // A published curve was stretched to the storm duration
+  | 'AREA_OUTSIDE_ARF_RANGE' // Drainage area beyond the areal reduction curves
+  | 'DEPTH_TOLERANCE'        // Total depth differs from the target by more than 1%
+  | 'CURVE_START_ADJUSTED'   // Curve start point forced to (0, 0)
+  | 'CURVE_END_ADJUSTED'     // Curve end point added or forced to 1.0
+  | 'CURVE_POINTS_TRIMMED'   // Points past the curve duration removed
+  | 'CURVE_NON_MONOTONIC'    // Decreasing or repeated points removed
+  | 'SERIES_INCOMPATIBLE'    // Event series storms differ in time step or units
+  | 'SERIES_DRY_PERIOD_ROUNDED' // Dry period between events rounded to whole time steps
+  | 'STORM_TYPE_SUGGESTED'   // The storm type was taken from the approximate region boundaries
+  | 'PROJECT_FILE_INVALID'   // An opened project file cannot be read
+  | 'PROJECT_FILE_MIGRATED'  // An opened project file was upgraded from an older format version
+  | 'PROJECT_FILE_ADJUSTED'  // Part of an opened project could not be restored as saved
+  | 'CALCULATION_FAILED';    // Unexpected failure while calculating
+
+// A problem or adjustment reported by the calculation
+export interface CalculationDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+// Storm re-ordered so its peak falls at a chosen fraction of the duration
+export interface PeakShift {
+  position: number;                // Requested peak position (fraction of the duration)
+  originalIntensityData: number[]; // Intensities with the curve's own timing, for overlaying on the chart
+  originalPeakTime: number;        // Start of the peak step with the curve's own timing (minutes)
+  shiftedPeakTime: number;         // Start of the peak step after shifting (minutes)
 }
 
 // Represents the complete result of a hyetograph calculation
@@ -18,16 +136,111 @@ export interface CalculationResult {
   intensityUnit: string;      // e.g., 'in/hr' or 'mm/hr'
   depthUnit: string;          // e.g., 'in' or 'mm'
   detailedData: StormStep[];  // Array containing data for each time step
+  // Effective rainfall (only present when a curve number is supplied)
+  excessIntensityData?: number[];     // Rainfall excess intensity values for the chart y-axis
+  totalExcessDepth?: number;          // Total runoff depth (in or mm)
+  runoffParameters?: RunoffParameters;
+  scaledFromDuration?: number; // Published duration (hours) of the curve time-scaled to the storm duration, if any
+  arealReduction?: ArealReduction; // Present when an areal reduction factor was applied to the depth
+  climateAdjustment?: AppliedClimateAdjustment; // Present when a climate-change adjustment was applied
+  interpolationComparison?: InterpolationComparison;
+  peakShift?: PeakShift; // Present when the curve's blocks were re-ordered around a new peak time
+  eventSeries?: EventSeries; // Present when several storms were chained into one continuous series
+  calendar?: StormCalendar; // Present when the storm has a start date; steps then carry timestamps
+  diagnostics: CalculationDiagnostic[]; // Errors (empty result), warnings and curve adjustments, in the order found
+}
+
+// One storm within a continuous event series (times in minutes from the series start)
+export interface SeriesEventSummary {
+  label: string;
+  startTime: number;
+  endTime: number;
+  depth: number;            // Storm depth (in or mm)
+  peakIntensity: number;    // in/hr or mm/hr
+  dryPeriodBefore: number;  // Minutes since the previous storm ended (or since the series start)
+  antecedentDepth: number;  // Rainfall in the 5 days before the storm (in or mm), for antecedent conditions
+  notes: string[];          // The storm's own export notes (adjustments to its depth or timing)
+}
+
+// Storms chained with dry periods into one time series
+export interface EventSeries {
+  events: SeriesEventSummary[];
+  timeStep: number;         // Common time step (minutes)
+  volume?: { value: number; unit: string; drainageArea: number; areaUnit: string }; // Rainfall volume over the drainage area, when given
+}
+
+// Represents a single ordinate of the computed runoff hydrograph
+export interface RunoffStep {
+  time: number;      // minutes from start of storm
+  discharge: number; // Discharge at this time (cfs or m³/s)
+}
+
+// Represents the result of convolving rainfall excess with the NRCS unit hydrograph
+export interface RunoffResult {
+  labels: string[];            // Formatted time labels for the chart x-axis
+  dischargeData: number[];     // Discharge values for the chart y-axis
+  detailedData: RunoffStep[];  // Hydrograph ordinates
+  peakFlow: number;            // Peak discharge (cfs or m³/s)
+  timeToPeak: number;          // Time of peak discharge (minutes from start of storm)
+  runoffVolume: number;        // Runoff volume (acre-ft or m³)
+  runoffDepth: number;         // Runoff depth over the drainage area (in or mm)
+  flowUnit: string;            // e.g., 'cfs' or 'm³/s'
+  volumeUnit: string;          // e.g., 'acre-ft' or 'm³'
+  lagTime: number;             // Watershed lag, 0.6 * Tc (minutes)
+  unitHydrographTimeToPeak: number; // Tp = D/2 + lag (minutes)
+  peakRateFactor: number;
+  warnings: string[];          // Non-fatal notes about the computation (e.g., time step too coarse)
+}
+
+// Storm distribution categories: CSV-backed curves (SCS, NRCS, Huff), NOAA alternating block,
+// Chicago (IDF), user-uploaded custom distributions and NOAA Atlas 14 temporal distributions
+export type StormCategory = 'SCS' | 'NRCS' | 'Huff' | 'NOAA' | 'Chicago' | 'Custom' | 'Atlas14';
+
+// IDF curve coefficients for i = a / (t + b)^c, with t in minutes and i in in/hr or mm/hr
+export interface IdfCoefficients {
+  a: number;
+  b: number;
+  c: number;
+}
+
+// A single point of a depth-duration curve (e.g., one NOAA Atlas 14 frequency estimate)
+export interface DepthDurationPoint {
+  durationMinutes: number;
+  depth: number; // inches
 }
 
 // Represents the input parameters gathered from the form
 export interface StormInputParameters {
     totalDepth: number | string; // Allow string for input field binding
-    duration: 6 | 12 | 24; // Restrict duration to specific hour values
-    stormCategory: 'SCS' | 'NRCS' | 'Huff'; // Main category
+    duration: number; // Hours; 6, 12 or 24 for CSV-backed curves, any positive value for Chicago
+    stormCategory: StormCategory; // Main category
     stormSubType: string; // Specific type within the category (e.g., 'Type II', 'Northeast Type A', 'Huff Type I')
     timeStep: number | string;
     depthUnits: 'us' | 'metric';
+    curveNumber: number | string; // Optional SCS curve number; empty string disables rainfall excess
+    initialAbstractionRatio: InitialAbstractionRatio;
+    drainageArea: number | string;        // Optional, acres (US) or hectares (metric); empty disables runoff hydrograph
+    timeOfConcentration: number | string; // Hours
+    peakRateFactor: number | string;      // NRCS peak rate factor (e.g., 484 standard, 300 flat terrain)
+    peakPosition: number | string;        // Fraction of the duration at which the peak is placed (0-1); alternating block and Chicago ratio r
+    noaaReturnPeriod: number | null;      // NOAA return period (yr) used by the alternating-block storm
+    idfA: number | string;                // Chicago storm IDF coefficients (i = a / (t + b)^c)
+    idfB: number | string;
+    idfC: number | string;
+    huffProbability: number | null;       // Huff probability level (%); null uses the bundled 24-hr quartile curve
+    arealReductionMethod: ArealReductionMethod | 'none'; // Areal reduction factor curve (uses drainageArea)
+    climateMethod: ClimateAdjustmentMethod | 'none';
+    climateUpliftPercent: number | string;   // Uniform uplift (%)
+    climateScalingRate: number | string;     // Clausius–Clapeyron rate (%/°C)
+    climateWarming: number | string;         // Clausius–Clapeyron warming (°C)
+    climateChangeFactors: ClimateChangeFactor[]; // Parsed from the uploaded change-factor table
+    climateTableName: string;                // File name of the uploaded table
+    interpolationMode: InterpolationMode;
+    atlas14Probability: number;              // Atlas 14 probability level (%), e.g. 50 for the median curve
+    peakShift: number | string;              // Peak timing (fraction of duration) for tabulated curves; empty keeps the published timing
+    stormStart: string;                      // Local start date and time (YYYY-MM-DDTHH:MM); empty keeps times relative
+    timeZone: string;                        // Time zone of the start time: IANA name (e.g. "America/Chicago") or fixed offset (e.g. "-05:00")
+    timeFormat: TimeFormat;                  // Time column of the detailed table and exports
 }
 
 // Represents the structure of parsed NOAA PFDS data for the table
@@ -50,5 +263,22 @@ export interface NoaaState {
     isLoading: boolean;
     error: string | null;
     data: NoaaReturnPeriodData[] | null; // Array of return periods, each with data points
+    atlas14Volume: number | null; // NOAA Atlas 14 volume covering the location, from the PFDS response
+    retrievedAt: number | null; // When the depths were fetched (epoch ms), cited in reports
+    stormTypeSuggestions: StormTypeSuggestion[]; // Distributions suggested for the location, most specific first
     statusMessage: string; // User-facing status like "Click map", "Fetching...", "Error..."
-} 
\ No newline at end of file
+} 
+// Storm distribution suggested for a map location by the bundled region boundaries
+export interface StormTypeSuggestion {
+    regionName: string;          // e.g. "NRCS Ohio Valley", "SCS Type II"
+    stormCategory: StormCategory;
+    stormSubTypes: string[];     // Sub-types used in the region; NRCS regions are further split into sub-areas
+}
+
+// A storm added to the event series builder (a snapshot of the storm calculated when it was added)
+export interface SeriesEventEntry {
+    id: number;
+    label: string;
+    result: CalculationResult;
+    dryHoursBefore: string; // Kept as text while editing
+}
@@ -0,0 +1,18 @@
+import { loadBundledDistributions, setEngineDebugLogger } from './tr55';
+import { BUNDLED_DISTRIBUTION_CSVS } from './distributionTables';
+import { loadAtlas14Regions, loadStormRegions } from './stormRegions';
+import stormRegionsGeoJson from './storm-regions.geojson?raw';
+
+// HDSC temporal region boundaries, when supplied in ./atlas14 (see atlas14/README.md)
+const atlas14RegionsGeoJson = Object.values(
+    import.meta.glob<string>('./atlas14/regions.geojson', { query: '?raw', import: 'default', eager: true })
+)[0];
+
+// Curve parsing is traced to the browser console in development builds only
+if (import.meta.env.DEV) setEngineDebugLogger(console.log);
+
+// Registers the bundled distributions when imported (browser entry point)
+loadBundledDistributions(BUNDLED_DISTRIBUTION_CSVS);
+// ...and the region boundaries behind the map's storm type suggestions and Atlas 14 region preselection
+loadStormRegions(stormRegionsGeoJson);
+if (atlas14RegionsGeoJson !== undefined) loadAtlas14Regions(atlas14RegionsGeoJson);
@@ -0,0 +1,299 @@
+import { CalculationResult } from '../types';
+import { measurePdfText } from './pdf';
+
+// --- Figure Layout ---
+
+const FIGURE_WIDTH = 1200; // Logical pixels; PNGs are scaled up from this
+const PLOT_HEIGHT = 520;
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif'; // Helvetica metrics are used for wrapping
+const CAPTION_SIZE = 15;
+const COLORS = {
+    rainfall: 'rgba(54, 162, 235, 0.6)',
+    rainfallBorder: 'rgb(54, 162, 235)',
+    excess: 'rgba(255, 99, 71, 0.7)',
+    cumulative: 'rgb(31, 41, 55)',
+    axis: 'rgb(55, 65, 81)',
+    grid: 'rgb(229, 231, 235)',
+    text: 'rgb(17, 24, 39)',
+};
+
+// Titles, labels and overlays for an exported hyetograph
+export interface HyetographFigureOptions {
+    title: string;
+    xAxisLabel: string;
+    yAxisLabel: string;
+    timeUnit: 'min' | 'hr';  // Unit of the time axis ticks
+    showCumulative: boolean; // Cumulative depth line on a right-hand axis
+    cumulativeAxisLabel: string;
+    caption: string;         // Wrapped below the plot; empty for none
+}
+
+// Drawing primitives in logical pixels from the top-left corner
+export type FigureItem =
+    | { type: 'rect'; x: number; y: number; width: number; height: number; fill: string; stroke?: string }
+    | { type: 'polyline'; points: [number, number][]; stroke: string; width: number }
+    | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; anchor: 'start' | 'middle' | 'end'; rotate?: boolean; fill: string };
+
+export interface Figure {
+    width: number;
+    height: number;
+    items: FigureItem[];
+}
+
+/**
+ * Tick spacing of 1, 2 or 5 times a power of ten giving about the target number of ticks.
+ */
+function getNiceStep(range: number, targetTicks: number): number {
+    const rough = range / Math.max(targetTicks, 1);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const normalized = rough / magnitude;
+    return (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+}
+
+/**
+ * Formats a tick value without floating-point noise.
+ */
+function formatTick(value: number, step: number): string {
+    const decimals = Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+    return value.toFixed(decimals);
+}
+
+/**
+ * Breaks text into lines that fit a width (Helvetica metrics, as drawn).
+ */
+function wrapCaption(text: string, size: number, width: number): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && measurePdfText(candidate, size) > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        if (line) lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Describes a storm for a figure caption: its parameters, depth, peak and any export notes.
+ * @param result The calculated storm.
+ * @param description Storm name, e.g. "SCS Type II" (omitted when empty).
+ * @returns The caption text.
+ */
+export function getHyetographCaption(result: CalculationResult, description: string): string {
+    const { detailedData, totalDepthActual, depthUnit, peakIntensity, intensityUnit, totalExcessDepth } = result;
+    const durationHours = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd / 60 : 0;
+    const timeStep = detailedData.length > 0 ? detailedData[0].timeEnd - detailedData[0].timeStart : 0;
+    const parts = [
+        description,
+        `${durationHours.toFixed(2)} hr, ${totalDepthActual.toFixed(3)} ${depthUnit} total, ${timeStep}-min step`,
+        `peak ${peakIntensity.toFixed(3)} ${intensityUnit}`,
+        ...(totalExcessDepth !== undefined ? [`runoff ${totalExcessDepth.toFixed(3)} ${depthUnit}`] : []),
+    ].filter(part => part !== '');
+    return `${parts.join('; ')}.`;
+}
+
+/**
+ * Lays out a publication-style hyetograph: intensity bars (with effective rainfall over them when
+ * present), an optional cumulative depth line on a right-hand axis, legend, axis titles and a
+ * wrapped caption. The same figure is drawn as SVG and PNG so both exports match.
+ * @param result The calculated storm.
+ * @param options Title, axis labels, time unit, overlay and caption.
+ * @returns The figure.
+ */
+export function buildHyetographFigure(result: CalculationResult, options: HyetographFigureOptions): Figure {
+    const { detailedData, excessIntensityData, depthUnit } = result;
+    const items: FigureItem[] = [];
+    const totalMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
+    const timeScale = options.timeUnit === 'hr' ? 60 : 1;
+    const captionLines = options.caption.trim() ? wrapCaption(options.caption.trim(), CAPTION_SIZE, FIGURE_WIDTH - 80) : [];
+
+    const plot = {
+        left: 100,
+        right: FIGURE_WIDTH - (options.showCumulative ? 100 : 40),
+        top: options.title.trim() ? 90 : 50,
+        bottom: 0,
+    };
+    plot.bottom = plot.top + PLOT_HEIGHT;
+    const plotWidth = plot.right - plot.left;
+    const height = plot.bottom + 80 + (captionLines.length > 0 ? 16 + captionLines.length * CAPTION_SIZE * 1.4 : 0);
+
+    items.push({ type: 'rect', x: 0, y: 0, width: FIGURE_WIDTH, height, fill: 'rgb(255, 255, 255)' });
+    if (options.title.trim()) {
+        items.push({ type: 'text', x: FIGURE_WIDTH / 2, y: 45, text: options.title.trim(), size: 24, bold: true, anchor: 'middle', fill: COLORS.text });
+    }
+
+    // --- Axes and Grid ---
+    const maxIntensity = Math.max(...result.intensityData, 0);
+    const yStep = getNiceStep(maxIntensity > 0 ? maxIntensity : 1, 6);
+    const yMax = Math.max(yStep, Math.ceil(maxIntensity / yStep - 1e-9) * yStep);
+    const toY = (value: number) => plot.bottom - (value / yMax) * PLOT_HEIGHT;
+    const toX = (minutes: number) => plot.left + (totalMinutes > 0 ? minutes / totalMinutes : 0) * plotWidth;
+
+    for (let value = 0; value <= yMax + yStep / 2; value += yStep) {
+        const y = toY(value);
+        items.push({ type: 'polyline', points: [[plot.left, y], [plot.right, y]], stroke: COLORS.grid, width: 1 });
+        items.push({ type: 'text', x: plot.left - 10, y: y + 5, text: formatTick(value, yStep), size: 14, anchor: 'end', fill: COLORS.axis });
+    }
+    const totalTime = totalMinutes / timeScale;
+    const xStep = getNiceStep(totalTime > 0 ? totalTime : 1, 12);
+    for (let value = 0; value <= totalTime + 1e-9; value += xStep) {
+        const x = toX(value * timeScale);
+        items.push({ type: 'polyline', points: [[x, plot.bottom], [x, plot.bottom + 6]], stroke: COLORS.axis, width: 1 });
+        items.push({ type: 'text', x, y: plot.bottom + 24, text: formatTick(value, xStep), size: 14, anchor: 'middle', fill: COLORS.axis });
+    }
+
+    // --- Bars ---
+    detailedData.forEach((step, index) => {
+        const x = toX(step.timeStart);
+        const width = toX(step.timeEnd) - x;
+        if (step.intensity > 0) {
+            items.push({ type: 'rect', x, y: toY(step.intensity), width, height: plot.bottom - toY(step.intensity), fill: COLORS.rainfall, stroke: width > 3 ? COLORS.rainfallBorder : undefined });
+        }
+        const excess = excessIntensityData?.[index] ?? 0;
+        if (excess > 0) {
+            items.push({ type: 'rect', x, y: toY(excess), width, height: plot.bottom - toY(excess), fill: COLORS.excess });
+        }
+    });
+
+    // --- Cumulative Depth ---
+    if (options.showCumulative && detailedData.length > 0) {
+        const total = result.totalDepthActual;
+        const cStep = getNiceStep(total > 0 ? total : 1, 6);
+        const cMax = Math.max(cStep, Math.ceil(total / cStep - 1e-9) * cStep);
+        const toCumulativeY = (value: number) => plot.bottom - (value / cMax) * PLOT_HEIGHT;
+        items.push({
+            type: 'polyline',
+            points: [[toX(0), toCumulativeY(0)], ...detailedData.map((step): [number, number] => [toX(step.timeEnd), toCumulativeY(step.cumulativeDepth)])],
+            stroke: COLORS.cumulative,
+            width: 2.5,
+        });
+        for (let value = 0; value <= cMax + cStep / 2; value += cStep) {
+            items.push({ type: 'text', x: plot.right + 10, y: toCumulativeY(value) + 5, text: formatTick(value, cStep), size: 14, anchor: 'start', fill: COLORS.axis });
+        }
+        items.push({ type: 'polyline', points: [[plot.right, plot.top], [plot.right, plot.bottom]], stroke: COLORS.axis, width: 1.5 });
+        items.push({ type: 'text', x: FIGURE_WIDTH - 25, y: (plot.top + plot.bottom) / 2, text: options.cumulativeAxisLabel, size: 16, anchor: 'middle', rotate: true, fill: COLORS.text });
+    }
+
+    items.push({ type: 'polyline', points: [[plot.left, plot.top], [plot.left, plot.bottom], [plot.right, plot.bottom]], stroke: COLORS.axis, width: 1.5 });
+    items.push({ type: 'text', x: (plot.left + plot.right) / 2, y: plot.bottom + 55, text: options.xAxisLabel, size: 16, anchor: 'middle', fill: COLORS.text });
+    items.push({ type: 'text', x: 30, y: (plot.top + plot.bottom) / 2, text: options.yAxisLabel, size: 16, anchor: 'middle', rotate: true, fill: COLORS.text });
+
+    // --- Legend ---
+    const legend: { label: string; color: string; line?: boolean }[] = [
+        { label: excessIntensityData ? 'Gross rainfall' : 'Rainfall intensity', color: COLORS.rainfall },
+        ...(excessIntensityData ? [{ label: 'Effective rainfall', color: COLORS.excess }] : []),
+        ...(options.showCumulative ? [{ label: `Cumulative depth (${depthUnit})`, color: COLORS.cumulative, line: true }] : []),
+    ];
+    const legendWidth = Math.max(...legend.map(entry => measurePdfText(entry.label, 14))) + 50;
+    const legendX = plot.left + 10; // Top left, clear of the cumulative curve's upper end
+    items.push({ type: 'rect', x: legendX, y: plot.top + 10, width: legendWidth, height: legend.length * 24 + 12, fill: 'rgba(255, 255, 255, 0.9)', stroke: COLORS.grid });
+    legend.forEach((entry, i) => {
+        const y = plot.top + 28 + i * 24;
+        if (entry.line) {
+            items.push({ type: 'polyline', points: [[legendX + 10, y - 5], [legendX + 34, y - 5]], stroke: entry.color, width: 2.5 });
+        } else {
+            items.push({ type: 'rect', x: legendX + 10, y: y - 12, width: 24, height: 13, fill: entry.color });
+        }
+        items.push({ type: 'text', x: legendX + 42, y, text: entry.label, size: 14, anchor: 'start', fill: COLORS.text });
+    });
+
+    // --- Caption ---
+    captionLines.forEach((line, i) => {
+        items.push({ type: 'text', x: 40, y: plot.bottom + 100 + i * CAPTION_SIZE * 1.4, text: line, size: CAPTION_SIZE, anchor: 'start', fill: COLORS.text });
+    });
+
+    return { width: FIGURE_WIDTH, height: Math.ceil(height), items };
+}
+
+// --- Figure Rendering ---
+
+/**
+ * Escapes text for SVG markup.
+ */
+function escapeSvg(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a figure as a standalone SVG document.
+ * @param figure The figure.
+ * @returns The SVG markup.
+ */
+export function renderFigureSvg(figure: Figure): string {
+    const r = (value: number) => Math.round(value * 100) / 100;
+    const body = figure.items.map(item => {
+        switch (item.type) {
+            case 'rect':
+                return `<rect x="${r(item.x)}" y="${r(item.y)}" width="${r(item.width)}" height="${r(item.height)}" fill="${item.fill}"${item.stroke ? ` stroke="${item.stroke}" stroke-width="1"` : ''}/>`;
+            case 'polyline':
+                return `<polyline points="${item.points.map(([x, y]) => `${r(x)},${r(y)}`).join(' ')}" fill="none" stroke="${item.stroke}" stroke-width="${item.width}" stroke-linejoin="round"/>`;
+            case 'text':
+                return `<text x="${r(item.x)}" y="${r(item.y)}" font-size="${item.size}"${item.bold ? ' font-weight="bold"' : ''} text-anchor="${item.anchor}" fill="${item.fill}"` +
+                    `${item.rotate ? ` transform="rotate(-90 ${r(item.x)} ${r(item.y)})"` : ''}>${escapeSvg(item.text)}</text>`;
+        }
+    }).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${figure.width}" height="${figure.height}" viewBox="0 0 ${figure.width} ${figure.height}" font-family="${FONT_FAMILY}">\n` +
+        `${body}\n</svg>\n`;
+}
+
+/**
+ * Renders a figure to PNG at a multiple of its logical size.
+ * @param figure The figure.
+ * @param scale Pixel density (e.g. 3 gives a 3600-pixel-wide image).
+ * @returns The PNG bytes, or null if the canvas cannot be drawn.
+ */
+export function renderFigurePng(figure: Figure, scale: number): Uint8Array | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(figure.width * scale);
+    canvas.height = Math.round(figure.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        console.error('Chart image export: the canvas cannot be drawn.');
+        return null;
+    }
+    context.scale(scale, scale);
+    figure.items.forEach(item => {
+        switch (item.type) {
+            case 'rect':
+                context.fillStyle = item.fill;
+                context.fillRect(item.x, item.y, item.width, item.height);
+                if (item.stroke) {
+                    context.strokeStyle = item.stroke;
+                    context.lineWidth = 1;
+                    context.strokeRect(item.x, item.y, item.width, item.height);
+                }
+                break;
+            case 'polyline':
+                context.strokeStyle = item.stroke;
+                context.lineWidth = item.width;
+                context.lineJoin = 'round';
+                context.beginPath();
+                item.points.forEach(([x, y], i) => (i === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+                context.stroke();
+                break;
+            case 'text':
+                context.save();
+                context.fillStyle = item.fill;
+                context.font = `${item.bold ? 'bold ' : ''}${item.size}px ${FONT_FAMILY}`;
+                context.textAlign = item.anchor === 'middle' ? 'center' : item.anchor === 'end' ? 'right' : 'left';
+                context.translate(item.x, item.y);
+                if (item.rotate) context.rotate(-Math.PI / 2);
+                context.fillText(item.text, 0, 0);
+                context.restore();
+                break;
+        }
+    });
+    const binary = atob(canvas.toDataURL('image/png').split(',')[1] ?? '');
+    const png = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        png[i] = binary.charCodeAt(i);
+    }
+    return png;
+}
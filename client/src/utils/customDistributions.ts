@@ -0,0 +1,116 @@
+import {
+    CustomDistributionFormat, CustomDistributionRegistration, registerCustomDistribution, unregisterCustomDistribution,
+    registerHuffProbabilityCurves, unregisterHuffProbabilityCurve
+} from './tr55';
+
+// --- Constants ---
+const STORAGE_KEY = 'gstorm.customDistributions';
+
+// An uploaded distribution file as kept in browser storage
+export interface StoredCustomDistribution {
+    names: string[]; // Sub-types the file registered
+    name: string;    // Name entered for two-column files
+    format: CustomDistributionFormat;
+    csvText: string;
+}
+
+// --- Storage Helpers ---
+
+function readStorage(): StoredCustomDistribution[] {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error('Failed to read custom distributions from browser storage:', error);
+        return [];
+    }
+}
+
+function writeStorage(entries: StoredCustomDistribution[]): void {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        console.error('Failed to save custom distributions to browser storage:', error);
+    }
+}
+
+// Huff probability tables are registered alongside the bundled Huff curves rather than under 'Custom'
+function registerEntry(name: string, format: CustomDistributionFormat, csvText: string): CustomDistributionRegistration {
+    return format === 'huff' ? registerHuffProbabilityCurves(csvText) : registerCustomDistribution(name, csvText, format);
+}
+
+// --- Public API ---
+
+/**
+ * Re-registers every custom distribution saved in browser storage.
+ * Entries that no longer validate are dropped from storage.
+ * @returns The stored entries that were registered.
+ */
+export function loadStoredCustomDistributions(): StoredCustomDistribution[] {
+    const loaded: StoredCustomDistribution[] = [];
+    readStorage().forEach(entry => {
+        const registration = registerEntry(entry.name, entry.format, entry.csvText);
+        if (registration.errors.length > 0) {
+            console.warn(`Dropping stored custom distribution "${entry.name}":`, registration.errors);
+            return;
+        }
+        loaded.push({ ...entry, names: registration.names });
+    });
+    writeStorage(loaded);
+    return loaded;
+}
+
+/**
+ * Validates, registers and saves an uploaded distribution file.
+ * @param name Name for two-column files.
+ * @param format Whether two-column values are cumulative or incremental, or 'huff' for a probability table.
+ * @param csvText Raw file content.
+ * @returns The registration outcome (errors are not saved).
+ */
+export function addCustomDistribution(name: string, format: CustomDistributionFormat, csvText: string): CustomDistributionRegistration {
+    const registration = registerEntry(name, format, csvText);
+    if (registration.errors.length === 0) {
+        writeStorage([...readStorage(), { names: registration.names, name: name.trim(), format, csvText }]);
+    }
+    return registration;
+}
+
+/**
+ * Unregisters a saved distribution file and removes it from storage.
+ * @param entry The stored entry to remove.
+ */
+export function removeCustomDistribution(entry: StoredCustomDistribution): void {
+    entry.names.forEach(entry.format === 'huff' ? unregisterHuffProbabilityCurve : unregisterCustomDistribution);
+    writeStorage(readStorage().filter(stored => stored.names.join('|') !== entry.names.join('|')));
+}
+
+/**
+ * Restores the distribution files saved in a project, replacing stored files that register
+ * any of the same sub-types (so the project's storms are rebuilt from the curves it was saved with).
+ * @param projectEntries Distribution files from the project.
+ * @param current The entries currently stored.
+ * @returns The stored entries afterwards, and a message for each file that was replaced or could not be registered.
+ */
+export function restoreCustomDistributions(projectEntries: StoredCustomDistribution[], current: StoredCustomDistribution[]): { entries: StoredCustomDistribution[]; messages: string[] } {
+    let entries = [...current];
+    const messages: string[] = [];
+    projectEntries.forEach(entry => {
+        const overlapping = entries.filter(stored => stored.names.some(name => entry.names.includes(name)));
+        const identical = overlapping.length === 1 && overlapping[0].format === entry.format && overlapping[0].csvText === entry.csvText;
+        if (identical) return;
+
+        overlapping.forEach(stored => {
+            removeCustomDistribution(stored);
+            messages.push(`The stored "${stored.names.join(', ')}" distribution was replaced by the project's copy.`);
+        });
+        entries = entries.filter(stored => !overlapping.includes(stored));
+        const registration = addCustomDistribution(entry.name, entry.format, entry.csvText);
+        if (registration.errors.length > 0) {
+            messages.push(`The project's "${entry.names.join(', ')}" distribution could not be restored: ${registration.errors.join(' ')}`);
+            return;
+        }
+        entries.push({ ...entry, names: registration.names });
+    });
+    return { entries, messages };
+}
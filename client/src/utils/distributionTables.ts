@@ -0,0 +1,21 @@
+import type { BundledDistributionCsvs } from './tr55';
+
+// --- Import Raw CSV Data ---
+// Vite/Webpack specific import to get raw text content; the CLI build embeds the same text
+import scsCsvData from './design-storms.csv?raw';
+import nrcsCsvData from './NRCS-design-storms.csv?raw';
+import huffCsvData from './Huff-design-storms.csv?raw';
+
+// NOAA Atlas 14 temporal tables dropped into ./atlas14 (see atlas14/README.md), keyed by file name
+const atlas14CsvData = Object.fromEntries(
+    Object.entries(import.meta.glob<string>('./atlas14/*.csv', { query: '?raw', import: 'default', eager: true }))
+        .map(([path, csvText]) => [path.replace(/^.*\//, ''), csvText])
+);
+
+// Raw text of every bundled distribution table, for loadBundledDistributions
+export const BUNDLED_DISTRIBUTION_CSVS: BundledDistributionCsvs = {
+    scs: scsCsvData,
+    nrcs: nrcsCsvData,
+    huff: huffCsvData,
+    atlas14: atlas14CsvData,
+};
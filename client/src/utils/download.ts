@@ -0,0 +1,36 @@
+/**
+ * Triggers a browser download of text content as a file.
+ * @param content The file content.
+ * @param filename The suggested download filename.
+ * @param mimeType MIME type of the content.
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string = 'text/plain;charset=utf-8'): void {
+    const blob = new Blob([content], { type: mimeType });
+
+    // Create a link and trigger download
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link); // Required for Firefox
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href); // Clean up
+}
+
+/**
+ * Triggers a browser download of binary content (e.g. a zip archive) as a file.
+ * @param content The file bytes.
+ * @param filename The suggested download filename.
+ * @param mimeType MIME type of the content.
+ */
+export function downloadBinaryFile(content: Uint8Array, filename: string, mimeType: string = 'application/octet-stream'): void {
+    const blob = new Blob([content], { type: mimeType });
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link); // Required for Firefox
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href); // Clean up
+}
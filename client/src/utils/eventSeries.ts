@@ -0,0 +1,164 @@
+import { CalculationDiagnostic, CalculationResult, SeriesEventSummary, StormStep } from '../types';
+import { formatTimeLabel } from './tr55';
+import { applyStormCalendar } from './timestamps';
+import { getExportNotes } from './exporters';
+
+// --- Constants ---
+const ANTECEDENT_WINDOW_MINUTES = 5 * 24 * 60; // NRCS antecedent moisture uses the 5-day rainfall
+const ACRE_FEET_PER_ACRE_INCH = 1 / 12;
+const CUBIC_METERS_PER_HECTARE_MM = 10;
+const TIME_TOLERANCE = 1e-6;
+
+// A calculated storm and the dry period that precedes it in the series
+export interface SeriesEventInput {
+    label: string;
+    result: CalculationResult; // From calculateHyetograph
+    dryHoursBefore: number;    // Hours without rain before the storm (the first storm's is a lead-in)
+}
+
+// Empty series carrying the diagnostics that explain why no series was built
+function createEmptySeries(diagnostics: CalculationDiagnostic[]): CalculationResult {
+    return {
+        labels: [],
+        intensityData: [],
+        peakIntensity: 0,
+        totalDepthActual: 0,
+        intensityUnit: 'N/A',
+        depthUnit: 'N/A',
+        detailedData: [],
+        diagnostics
+    };
+}
+
+/**
+ * Time step (minutes) of a calculated storm, from its first step.
+ */
+function getTimeStep(result: CalculationResult): number {
+    const first = result.detailedData[0];
+    return first ? first.timeEnd - first.timeStart : NaN;
+}
+
+// --- Series Builder ---
+
+/**
+ * Chains calculated storms into one continuous rainfall series, with zero-rain steps for the dry
+ * periods between them. Every storm must use the same time step and units; dry periods are rounded
+ * to whole time steps. Rainfall excess is not carried over, since losses depend on the antecedent
+ * conditions the series is meant to test.
+ * @param events Storms in series order, each with the dry period before it.
+ * @param drainageArea Optional area (acres for US units, hectares for metric) for the rainfall volume.
+ * @returns The series as a single storm result with an eventSeries summary, or an empty result
+ *          with diagnostics if the storms cannot be combined.
+ */
+export function buildEventSeries(events: SeriesEventInput[], drainageArea?: number): CalculationResult {
+    if (events.length === 0) {
+        return createEmptySeries([{ code: 'INVALID_INPUT', severity: 'error', message: 'Add at least one storm to build a series.' }]);
+    }
+    const empty = events.find(event => event.result.detailedData.length === 0);
+    if (empty) {
+        return createEmptySeries([{ code: 'INVALID_INPUT', severity: 'error', message: `${empty.label}: the storm has no data.` }]);
+    }
+    const invalidDry = events.find(event => !(event.dryHoursBefore >= 0));
+    if (invalidDry) {
+        return createEmptySeries([{ code: 'INVALID_INPUT', severity: 'error', message: `${invalidDry.label}: the dry period must be zero or more hours.` }]);
+    }
+
+    const first = events[0].result;
+    const timeStep = getTimeStep(first);
+    const incompatible = events.filter(event =>
+        Math.abs(getTimeStep(event.result) - timeStep) > TIME_TOLERANCE || event.result.depthUnit !== first.depthUnit);
+    if (incompatible.length > 0) {
+        return createEmptySeries(incompatible.map(event => ({
+            code: 'SERIES_INCOMPATIBLE',
+            severity: 'error',
+            message: `${event.label} uses a ${getTimeStep(event.result)}-min step in ${event.result.depthUnit}; ` +
+                `every storm in the series needs the ${timeStep}-min step in ${first.depthUnit} of ${events[0].label}.`
+        })));
+    }
+
+    // The storms' own warnings and adjustments still apply to the series
+    const diagnostics: CalculationDiagnostic[] = events.flatMap(event =>
+        event.result.diagnostics.map(diagnostic => ({ ...diagnostic, message: `${event.label}: ${diagnostic.message}` })));
+
+    // --- Lay Out Storms and Dry Periods ---
+    const steps: { intensity: number; depthStep: number }[] = [];
+    const summaries: SeriesEventSummary[] = [];
+    let previousEnd = 0;
+    events.forEach(event => {
+        const dryMinutes = event.dryHoursBefore * 60;
+        const dryStepCount = Math.round(dryMinutes / timeStep);
+        if (Math.abs(dryStepCount * timeStep - dryMinutes) > TIME_TOLERANCE) {
+            diagnostics.push({
+                code: 'SERIES_DRY_PERIOD_ROUNDED',
+                severity: 'info',
+                message: `${event.label}: dry period of ${event.dryHoursBefore} hr rounded to ${(dryStepCount * timeStep / 60).toFixed(2)} hr (whole ${timeStep}-min steps).`
+            });
+        }
+        for (let i = 0; i < dryStepCount; i++) {
+            steps.push({ intensity: 0, depthStep: 0 });
+        }
+
+        const startTime = steps.length * timeStep;
+        const antecedentStart = startTime - ANTECEDENT_WINDOW_MINUTES;
+        const antecedentDepth = steps.reduce((sum, step, index) =>
+            index * timeStep >= antecedentStart - TIME_TOLERANCE ? sum + step.depthStep : sum, 0);
+
+        event.result.detailedData.forEach(step => steps.push({ intensity: step.intensity, depthStep: step.depthStep }));
+        const endTime = steps.length * timeStep;
+
+        summaries.push({
+            label: event.label,
+            startTime,
+            endTime,
+            depth: event.result.totalDepthActual,
+            peakIntensity: event.result.peakIntensity,
+            dryPeriodBefore: startTime - previousEnd,
+            antecedentDepth,
+            notes: getExportNotes(event.result),
+        });
+        previousEnd = endTime;
+    });
+
+    // --- Series Result ---
+    const totalDurationMinutes = steps.length * timeStep;
+    let cumulativeDepth = 0;
+    const detailedData: StormStep[] = steps.map((step, index) => {
+        cumulativeDepth += step.depthStep;
+        return {
+            timeStart: index * timeStep,
+            timeEnd: (index + 1) * timeStep,
+            intensity: step.intensity,
+            depthStep: step.depthStep,
+            cumulativeDepth,
+        };
+    });
+    const labels = detailedData.map(step => formatTimeLabel(step.timeStart, totalDurationMinutes));
+    labels.push(formatTimeLabel(totalDurationMinutes, totalDurationMinutes));
+
+    const isMetric = first.depthUnit === 'mm';
+    const volume = drainageArea !== undefined && drainageArea > 0 ? {
+        value: cumulativeDepth * drainageArea * (isMetric ? CUBIC_METERS_PER_HECTARE_MM : ACRE_FEET_PER_ACRE_INCH),
+        unit: isMetric ? 'm³' : 'acre-ft',
+        drainageArea,
+        areaUnit: isMetric ? 'ha' : 'acres',
+    } : undefined;
+
+    const series: CalculationResult = {
+        labels,
+        intensityData: detailedData.map(step => step.intensity),
+        peakIntensity: Math.max(...summaries.map(summary => summary.peakIntensity)),
+        totalDepthActual: cumulativeDepth,
+        intensityUnit: first.intensityUnit,
+        depthUnit: first.depthUnit,
+        detailedData,
+        eventSeries: { events: summaries, timeStep, volume },
+        diagnostics,
+    };
+
+    // A dated first storm dates the series; its lead-in dry period comes before it
+    const firstCalendar = events[0].result.calendar;
+    if (firstCalendar) {
+        applyStormCalendar(series, { ...firstCalendar, start: firstCalendar.start - summaries[0].startTime * 60000 });
+    }
+    return series;
+}
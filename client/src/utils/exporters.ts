@@ -0,0 +1,921 @@
+import { CalculationResult, NoaaReturnPeriodData, NoaaState, RunoffResult, StormInputParameters, StormStep, TimeFormat } from '../types';
+import { describeCalendarZone, formatCalendarTimestamp, getCalendarUtcOffset, parseUtcOffset } from './timestamps';
+import { interpolateDepthDuration } from './tr55';
+import { ZipEntry } from './zip';
+import { XlsxCell, XlsxSheet } from './xlsx';
+
+// Storm inputs that label an exported file; a title replaces the label built from them (e.g. for an event series)
+export type HyetographExportInfo = Pick<StormInputParameters, 'stormCategory' | 'stormSubType' | 'duration' | 'totalDepth' | 'depthUnits'> & { title?: string };
+
+// --- Export Metadata ---
+
+/**
+ * Describes adjustments made to a storm that every export should carry with its data,
+ * so a file read on its own still says how its depths were derived.
+ * @param result The calculated storm.
+ * @returns Note lines without a comment prefix (empty when nothing was adjusted).
+ */
+export function getExportNotes(result: CalculationResult): string[] {
+    const notes: string[] = [];
+    const { arealReduction, climateAdjustment, scaledFromDuration, peakShift, eventSeries, calendar, depthUnit, totalDepthActual } = result;
+
+    if (calendar) {
+        notes.push(`Storm start ${formatCalendarTimestamp(calendar.start, calendar, 'iso')} (local times in ${describeCalendarZone(calendar)})`);
+    }
+
+    if (climateAdjustment) {
+        notes.push(
+            `Climate adjustment: ${climateAdjustment.description}, factor ${climateAdjustment.factor.toFixed(4)} at the storm duration; ` +
+            `baseline depth ${climateAdjustment.baselineDepth.toFixed(3)} ${depthUnit}`
+        );
+    }
+
+    if (arealReduction) {
+        notes.push(
+            `Areal reduction factor ${arealReduction.factor.toFixed(4)} (${arealReduction.method}, ` +
+            `${arealReduction.drainageArea} ${arealReduction.areaUnit}): point depth ${arealReduction.pointDepth.toFixed(3)} ${depthUnit} ` +
+            `reduced to ${totalDepthActual.toFixed(3)} ${depthUnit}`
+        );
+    }
+    if (scaledFromDuration !== undefined) {
+        notes.push(`Distribution time-scaled from its published ${scaledFromDuration}-hr curve`);
+    }
+    if (peakShift) {
+        notes.push(`Blocks re-ordered so the peak falls at ${peakShift.position} of the duration (published timing not kept)`);
+    }
+    if (eventSeries) {
+        const seriesDuration = result.detailedData.length > 0 ? result.detailedData[result.detailedData.length - 1].timeEnd : 0;
+        eventSeries.events.forEach((event, index) => {
+            notes.push(
+                `Event ${index + 1} (${event.label}): ${formatTableTime(event.startTime, seriesDuration)}-${formatTableTime(event.endTime, seriesDuration)}, ` +
+                `${event.depth.toFixed(3)} ${depthUnit} after ${(event.dryPeriodBefore / 60).toFixed(2)} hr dry ` +
+                `(5-day antecedent rainfall ${event.antecedentDepth.toFixed(3)} ${depthUnit})`
+            );
+            event.notes.forEach(note => notes.push(`Event ${index + 1}: ${note}`));
+        });
+        if (eventSeries.volume) {
+            notes.push(`Series rainfall volume ${eventSeries.volume.value.toFixed(3)} ${eventSeries.volume.unit} over ${eventSeries.volume.drainageArea} ${eventSeries.volume.areaUnit}`);
+        }
+    }
+
+    return notes;
+}
+
+// --- Hyetograph Files ---
+
+/**
+ * Formats a time for tables and CSV exports: H:MM for storms longer than 2 hours, otherwise whole minutes.
+ * @param timeMinutes Time from the start of the storm (minutes).
+ * @param totalDurationMinutes Storm duration (minutes).
+ * @returns The formatted time.
+ */
+export function formatTableTime(timeMinutes: number, totalDurationMinutes: number): string {
+    if (totalDurationMinutes > 120) { // Use H:MM for durations > 2 hours
+        const hours = Math.floor(timeMinutes / 60);
+        const mins = Math.round(timeMinutes % 60);
+        return `${hours}:${mins.toString().padStart(2, '0')}`;
+    } else { // Use minutes (rounded)
+        return String(Math.round(timeMinutes));
+    }
+}
+
+/**
+ * Time format actually available for a storm: dated formats need a start date, so undated storms stay relative.
+ * @param result The calculated storm.
+ * @param timeFormat Requested format.
+ * @returns The format to use.
+ */
+export function resolveTimeFormat(result: CalculationResult, timeFormat: TimeFormat): TimeFormat {
+    return result.calendar ? timeFormat : 'relative';
+}
+
+/**
+ * Describes a time column's format for headers, e.g. "H:MM" or "MM/DD/YYYY HH:MM".
+ * @param result The calculated storm.
+ * @param timeFormat Requested format.
+ * @returns The format label.
+ */
+export function getTimeFormatLabel(result: CalculationResult, timeFormat: TimeFormat): string {
+    const format = resolveTimeFormat(result, timeFormat);
+    if (format === 'iso') return 'ISO 8601';
+    if (format === 'us') return 'MM/DD/YYYY HH:MM';
+    const { detailedData } = result;
+    const totalDurationMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
+    return totalDurationMinutes > 120 ? 'H:MM' : 'min';
+}
+
+/**
+ * Formats the start or end time of a step: relative to the storm start (as formatTableTime) or as a calendar date.
+ * @param step The step.
+ * @param edge Which end of the step.
+ * @param result The calculated storm the step belongs to.
+ * @param timeFormat Requested format; relative when the storm has no start date.
+ * @returns The formatted time.
+ */
+export function formatStepTime(step: StormStep, edge: 'start' | 'end', result: CalculationResult, timeFormat: TimeFormat): string {
+    const format = resolveTimeFormat(result, timeFormat);
+    const timestamp = edge === 'start' ? step.timestampStart : step.timestampEnd;
+    if (format !== 'relative' && result.calendar && timestamp !== undefined) {
+        return formatCalendarTimestamp(timestamp, result.calendar, format);
+    }
+    const { detailedData } = result;
+    const totalDurationMinutes = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0;
+    return formatTableTime(edge === 'start' ? step.timeStart : step.timeEnd, totalDurationMinutes);
+}
+
+/**
+ * Generates the detailed hyetograph table as CSV, preceded by the export notes as '#' comment lines.
+ * Rainfall excess columns are included when a curve number was applied.
+ * @param result The calculated storm.
+ * @param timeFormat Time column format (dated formats need a storm start date).
+ * @returns The CSV text.
+ */
+export function generateHyetographCsv(result: CalculationResult, timeFormat: TimeFormat = 'relative'): string {
+    const { detailedData, intensityUnit, depthUnit } = result;
+    const hasExcess = result.excessIntensityData !== undefined;
+
+    const headers = [
+        'Time_Start',
+        'Time_End',
+        `Intensity_(${intensityUnit.replace('/', '_per_')})`,
+        `Depth_Step_(${depthUnit})`,
+        `Cumulative_Depth_(${depthUnit})`,
+        ...(hasExcess ? [
+            `Excess_Step_(${depthUnit})`,
+            `Loss_Step_(${depthUnit})`,
+            `Cumulative_Runoff_(${depthUnit})`
+        ] : [])
+    ];
+    const rows = detailedData.map(item => [
+        formatStepTime(item, 'start', result, timeFormat),
+        formatStepTime(item, 'end', result, timeFormat),
+        item.intensity.toFixed(5),
+        item.depthStep.toFixed(5),
+        item.cumulativeDepth.toFixed(5),
+        ...(hasExcess ? [
+            (item.excessDepth ?? 0).toFixed(5),
+            (item.lossDepth ?? 0).toFixed(5),
+            (item.cumulativeRunoff ?? 0).toFixed(5)
+        ] : [])
+    ]);
+
+    let csvContent = '';
+    getExportNotes(result).forEach(note => {
+        csvContent += `# ${note}\n`;
+    });
+    csvContent += headers.join(",") + "\n";
+    rows.forEach(rowArray => {
+        csvContent += rowArray.join(",") + "\n";
+    });
+    return csvContent;
+}
+
+// --- SWMM Files ---
+
+// Rain gage data formats SWMM accepts for a time series
+export type SwmmRainFormat = 'INTENSITY' | 'VOLUME' | 'CUMULATIVE';
+
+// Rain gage settings for a SWMM .inp fragment
+export interface SwmmInpOptions {
+    gageName: string;
+    rainFormat: SwmmRainFormat;
+    intervalMinutes: number; // Recording interval; a whole multiple of the storm's time step
+    snowCatchFactor: number;
+    timeFormat?: TimeFormat; // Dated formats write MM/DD/YYYY dates (needs a storm start date)
+}
+
+/**
+ * Time step of a calculated storm (minutes), from its steps rather than the inputs.
+ * @param result The calculated storm.
+ * @returns The step length, or NaN for an empty storm.
+ */
+export function getResultTimeStep(result: CalculationResult): number {
+    const first = result.detailedData[0];
+    return first ? first.timeEnd - first.timeStart : NaN;
+}
+
+/**
+ * Formats minutes as SWMM's H:MM.
+ */
+function formatSwmmClock(timeMinutes: number): string {
+    const hours = Math.floor(timeMinutes / 60);
+    const minutes = Math.round(timeMinutes % 60);
+    return `${hours}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Splits a time from the storm start into SWMM date and time fields: MM/DD/YYYY and HH:MM for a
+ * dated storm when a dated format is requested (SWMM reads no other date layout, so ISO 8601 is
+ * written the same way), otherwise no date and H:MM from the storm start.
+ */
+function formatSwmmDateTime(result: CalculationResult, timeMinutes: number, timeFormat: TimeFormat): { date: string; time: string } {
+    const calendar = resolveTimeFormat(result, timeFormat) !== 'relative' ? result.calendar : undefined;
+    if (!calendar) {
+        return { date: '', time: formatSwmmClock(timeMinutes) };
+    }
+    const [date, time] = formatCalendarTimestamp(calendar.start + timeMinutes * 60000, calendar, 'us').split(' ');
+    return { date, time };
+}
+
+/**
+ * Generates SWMM rain gage time series (.dat) content: one "time intensity" line per step
+ * (with a MM/DD/YYYY date first when dated) and a closing zero at the storm end.
+ * @param result The calculated storm.
+ * @param info Storm inputs used for the header line.
+ * @param timeFormat Time format (dated formats need a storm start date).
+ * @returns The .dat file content.
+ */
+export function generateSwmmDatContent(result: CalculationResult, info: HyetographExportInfo, timeFormat: TimeFormat = 'relative'): string {
+    // Header comment similar to example
+    const depthUnit = info.depthUnits === 'us' ? 'in' : 'mm';
+    // Use category, subType, and duration for header
+    const safeSubType = String(info.stormSubType).replace(/\s+/g, '_'); // Replace spaces
+    // Adjustment notes go first as their own comment lines
+    let datContent = getExportNotes(result).map(note => `;${note}\n`).join('');
+    datContent += `;${info.title ?? `${info.stormCategory}_${safeSubType} ${info.duration}hr ${info.totalDepth}${depthUnit}`} GStorm Hyetograph\n`;
+
+    const formatDatTime = (timeMinutes: number) => {
+        const { date, time } = formatSwmmDateTime(result, timeMinutes, timeFormat);
+        return date ? `${date} ${time}` : time;
+    };
+
+    // Times come from the steps themselves, so they match the storm whatever the inputs say
+    result.detailedData.forEach(step => {
+        // Format the line: time (H:MM or MM/DD/YYYY HH:MM) and value
+        datContent += `${formatDatTime(step.timeStart)}  ${step.intensity.toFixed(4)}\n`; // Use 4 decimal places like example
+    });
+
+    // Add final line with total duration and 0 value
+    const totalDurationMinutes = result.detailedData.length > 0 ? result.detailedData[result.detailedData.length - 1].timeEnd : 0;
+    datContent += `${formatDatTime(totalDurationMinutes)}  0\n`;
+
+    return datContent;
+}
+
+/**
+ * Generates a paste-ready SWMM 5 .inp fragment with [RAINGAGES] and [TIMESERIES] sections.
+ * Steps are combined into the gage interval. Each value is stamped at the start of its interval:
+ * INTENSITY is the mean intensity, VOLUME the depth and CUMULATIVE the total depth at the
+ * interval's end, as SWMM reads them.
+ * @param result The calculated storm.
+ * @param options Gage name, rain format, interval, snow catch factor and time format.
+ * @returns The fragment, or null if the interval is not a whole multiple of the storm's time step.
+ */
+export function generateSwmmInpContent(result: CalculationResult, options: SwmmInpOptions): string | null {
+    const { rainFormat, intervalMinutes, snowCatchFactor, timeFormat = 'relative' } = options;
+    const timeStep = getResultTimeStep(result);
+    const stepsPerInterval = Math.round(intervalMinutes / timeStep);
+    if (!(timeStep > 0) || stepsPerInterval < 1 || Math.abs(stepsPerInterval * timeStep - intervalMinutes) > 1e-6) {
+        console.error(`SWMM .inp export: the ${intervalMinutes}-min interval is not a whole multiple of the ${timeStep}-min time step.`);
+        return null;
+    }
+    if (!(snowCatchFactor > 0)) {
+        console.error(`SWMM .inp export: invalid snow catch factor ${snowCatchFactor}.`);
+        return null;
+    }
+
+    // SWMM names cannot contain spaces
+    const gageName = options.gageName.trim().replace(/\s+/g, '_') || 'RG1';
+    const seriesName = `${gageName}_TS`;
+    const valueUnit = rainFormat === 'INTENSITY' ? result.intensityUnit : result.depthUnit;
+
+    let content = getExportNotes(result).map(note => `;${note}\n`).join('');
+    content += `;GStorm ${rainFormat.toLowerCase()} series in ${valueUnit}; set the project's flow units to match (in for CFS/GPM/MGD, mm for CMS/LPS/MLD)\n`;
+    content += '\n[RAINGAGES]\n';
+    content += ';;Name           Format    Interval SCF      Source    \n';
+    content += ';;-------------- --------- ------ ------ ----------\n';
+    content += `${gageName.padEnd(16)} ${rainFormat.padEnd(9)} ${formatSwmmClock(intervalMinutes).padEnd(6)} ${String(snowCatchFactor).padEnd(6)} TIMESERIES ${seriesName}\n`;
+
+    content += '\n[TIMESERIES]\n';
+    content += ';;Name           Date       Time       Value     \n';
+    content += ';;-------------- ---------- ---------- ----------\n';
+    const writeRow = (timeMinutes: number, value: number) => {
+        const { date, time } = formatSwmmDateTime(result, timeMinutes, timeFormat);
+        content += `${seriesName.padEnd(16)} ${date.padEnd(10)} ${time.padEnd(10)} ${value.toFixed(5)}\n`;
+    };
+
+    const { detailedData } = result;
+    for (let i = 0; i < detailedData.length; i += stepsPerInterval) {
+        const intervalSteps = detailedData.slice(i, i + stepsPerInterval);
+        const depth = intervalSteps.reduce((sum, step) => sum + step.depthStep, 0);
+        const lastStep = intervalSteps[intervalSteps.length - 1];
+        const value = rainFormat === 'INTENSITY' ? depth / ((lastStep.timeEnd - intervalSteps[0].timeStart) / 60)
+            : rainFormat === 'VOLUME' ? depth
+            : lastStep.cumulativeDepth;
+        writeRow(intervalSteps[0].timeStart, value);
+    }
+    // Closing zero ends the storm at its last step
+    if (detailedData.length > 0) {
+        writeRow(detailedData[detailedData.length - 1].timeEnd, 0);
+    }
+
+    return content;
+}
+
+// --- HEC-HMS Files ---
+
+// Recording intervals HEC-HMS accepts for a time-series gage (minutes)
+const HEC_HMS_INTERVALS = [1, 2, 3, 4, 5, 6, 10, 12, 15, 20, 30, 60, 120, 180, 240, 360, 480, 720, 1440];
+const HEC_HMS_VERSION = '4.9';
+const HEC_HMS_UNDATED_START = Date.UTC(2000, 0, 1); // HMS needs dates; undated storms start 01Jan2000 00:00
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Model names the meteorologic model refers to
+export interface HecHmsOptions {
+    basinModel: string;  // Basin model the .met file is used with
+    subbasins: string[]; // Subbasins assigned the gage
+    now?: Date;          // Last-modified stamp (defaults to now)
+}
+
+// Storm inputs that label the HEC-HMS files
+export type HecHmsExportInfo = HyetographExportInfo & Pick<StormInputParameters, 'noaaReturnPeriod'>;
+
+/**
+ * DSS interval name (E part) for an interval HMS accepts, e.g. "15MIN", "1HOUR", "1DAY".
+ */
+function formatDssInterval(minutes: number): string {
+    if (minutes >= 1440) return `${minutes / 1440}DAY`;
+    return minutes >= 60 ? `${minutes / 60}HOUR` : `${minutes}MIN`;
+}
+
+/**
+ * Fields of an instant whose UTC fields hold the local date and time.
+ */
+function getLocalParts(localTime: number): { day: number; month: number; year: number; hour: number; minute: number } {
+    const date = new Date(localTime);
+    return { day: date.getUTCDate(), month: date.getUTCMonth(), year: date.getUTCFullYear(), hour: date.getUTCHours(), minute: date.getUTCMinutes() };
+}
+
+/**
+ * Formats a local time the way HMS writes dates and times in its model files, e.g. "1 June 2024, 18:00".
+ */
+function formatHmsDateTime(localTime: number): string {
+    const { day, month, year, hour, minute } = getLocalParts(localTime);
+    return `${day} ${MONTH_NAMES[month]} ${year}, ${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Formats an interval-ending local time as DSS date and time, e.g. "01Jun2024" and "18:15";
+ * midnight is written as 24:00 of the day that ends, as DSS does.
+ */
+function formatDssDateTime(localTime: number): { date: string; time: string } {
+    const parts = getLocalParts(localTime);
+    const isMidnight = parts.hour === 0 && parts.minute === 0;
+    const { day, month, year, hour, minute } = getLocalParts(isMidnight ? localTime - 60000 : localTime);
+    return {
+        date: `${day.toString().padStart(2, '0')}${MONTH_NAMES[month].slice(0, 3)}${year}`,
+        time: isMidnight ? '24:00' : `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
+    };
+}
+
+/**
+ * Generates a HEC-HMS specified-hyetograph package: a precipitation gage (.gage), a meteorologic
+ * model (.met) assigning the gage to the subbasins, the incremental precipitation as CSV, and a
+ * README with the import steps. HMS keeps gage data in the project's DSS file, which a browser
+ * cannot write, so the gage points at a DSS record the CSV values are entered into.
+ * @param result The calculated storm.
+ * @param info Storm inputs used for names and descriptions.
+ * @param options Basin model and subbasin names.
+ * @returns The package files, or null if the time step is not an interval HMS supports.
+ */
+export function generateHecHmsPackage(result: CalculationResult, info: HecHmsExportInfo, options: HecHmsOptions): ZipEntry[] | null {
+    const timeStep = getResultTimeStep(result);
+    if (!HEC_HMS_INTERVALS.includes(timeStep)) {
+        console.error(`HEC-HMS export: the ${timeStep}-min time step is not an HMS gage interval (${HEC_HMS_INTERVALS.join(', ')} min).`);
+        return null;
+    }
+
+    const now = options.now ?? new Date();
+    const modifiedDate = `${now.getDate()} ${MONTH_NAMES[now.getMonth()]} ${now.getFullYear()}`;
+    const modifiedTime = now.toTimeString().slice(0, 8);
+    const isMetric = result.depthUnit === 'mm';
+    const units = isMetric ? 'MM' : 'IN';
+
+    // Local start time (the storm calendar, or the HMS default date); HMS steps are regular, so a
+    // daylight saving change during the storm is not applied
+    const localStart = result.calendar
+        ? result.calendar.start + result.calendar.utcOffsetMinutes * 60000
+        : HEC_HMS_UNDATED_START;
+    const { detailedData } = result;
+    const localEnd = localStart + (detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd : 0) * 60000;
+
+    const depthUnit = info.depthUnits === 'us' ? 'in' : 'mm';
+    const returnPeriod = info.noaaReturnPeriod ? `${info.noaaReturnPeriod}-yr ` : '';
+    const description = info.title ?? `GStorm ${returnPeriod}${info.stormCategory} ${info.stormSubType} ${info.duration}-hr ${info.totalDepth} ${depthUnit}`;
+    // HMS names allow spaces, but file names and DSS parts are kept simple
+    const name = (info.title ?? `GStorm_${info.stormCategory}_${info.stormSubType}_${info.duration}hr`).replace(/[^A-Za-z0-9_-]+/g, '_');
+    const dssFile = 'gstorm.dss';
+    const dssPathname = `//${name.toUpperCase()}/PRECIP-INC/${formatDssDateTime(localStart + 60000).date.toUpperCase()}/${formatDssInterval(timeStep)}/GSTORM/`;
+    const notes = getExportNotes(result);
+
+    const gage = [
+        'Gage Manager: GStorm',
+        `     Version: ${HEC_HMS_VERSION}`,
+        '     Filepath Separator: \\',
+        'End:',
+        '',
+        `Gage: ${name}`,
+        `     Description: ${description}`,
+        `     Last Modified Date: ${modifiedDate}`,
+        `     Last Modified Time: ${modifiedTime}`,
+        '     Reference Height Units: Meters',
+        '     Reference Height: 10.0',
+        '     Gage Type: Precipitation',
+        '     Precipitation Type: INCREMENTAL',
+        `     Units: ${units}`,
+        '     Data Type: PER-CUM',
+        '     Local to Project: YES',
+        `     Start Time: ${formatHmsDateTime(localStart)}`,
+        `     End Time: ${formatHmsDateTime(localEnd)}`,
+        `     DSS File Name: ${dssFile}`,
+        `     DSS Pathname: ${dssPathname}`,
+        'End:',
+        '',
+    ].join('\n');
+
+    const met = [
+        `Meteorology: ${name}`,
+        `     Description: ${description}`,
+        `     Last Modified Date: ${modifiedDate}`,
+        `     Last Modified Time: ${modifiedTime}`,
+        `     Version: ${HEC_HMS_VERSION}`,
+        `     Unit System: ${isMetric ? 'Metric' : 'English'}`,
+        '     Set Missing Data to Default: Yes',
+        '     Precipitation Method: Specified Hyetograph',
+        '     Air Temperature Method: None',
+        '     Atmospheric Pressure Method: None',
+        '     Dew Point Method: None',
+        '     Wind Speed Method: None',
+        '     Shortwave Radiation Method: None',
+        '     Longwave Radiation Method: None',
+        '     Snowmelt Method: None',
+        '     Evapotranspiration Method: No Evapotranspiration',
+        `     Use Basin Model: ${options.basinModel}`,
+        'End:',
+        '',
+        'Precip Method Parameters: Specified Hyetograph',
+        `     Last Modified Date: ${modifiedDate}`,
+        `     Last Modified Time: ${modifiedTime}`,
+        'End:',
+        '',
+        ...options.subbasins.flatMap(subbasin => [
+            `Subbasin: ${subbasin}`,
+            `     Gage: ${name}`,
+            'End:',
+            '',
+        ]),
+    ].join('\n');
+
+    // Incremental depth stamped at the end of each interval, as HMS and DSS store PER-CUM data
+    let csv = notes.map(note => `# ${note}\n`).join('');
+    csv += `Ordinate,Date,Time,Precipitation (${units})\n`;
+    detailedData.forEach((step, index) => {
+        const { date, time } = formatDssDateTime(localStart + step.timeEnd * 60000);
+        csv += `${index + 1},${date},${time},${step.depthStep.toFixed(5)}\n`;
+    });
+
+    const readme = [
+        `GStorm HEC-HMS package: ${description}`,
+        '',
+        `${name}.gage   Precipitation gage (incremental ${units}, ${formatDssInterval(timeStep)}), ${formatHmsDateTime(localStart)} to ${formatHmsDateTime(localEnd)}`,
+        `${name}.met    Specified Hyetograph meteorologic model for basin model "${options.basinModel}"`,
+        `${name}.csv    Incremental precipitation, stamped at the end of each interval`,
+        '',
+        'Import:',
+        '1. In HMS, create a precipitation time-series gage (Manual Entry) with the gage settings above,',
+        '   or copy the .gage block into the project\'s .gage file with HMS closed.',
+        `2. Paste the Precipitation column of ${name}.csv into the gage's Table tab (or import the CSV`,
+        `   into ${dssFile} with HEC-DSSVue under ${dssPathname}).`,
+        '3. Copy the .met file into the project folder and add it to the project\'s .hms file, or create a',
+        '   Specified Hyetograph meteorologic model and pick the gage for each subbasin.',
+        `4. Set the control specifications to ${formatHmsDateTime(localStart)} - ${formatHmsDateTime(localEnd)} or longer.`,
+        '',
+        `Subbasin names (${options.subbasins.join(', ')}) must match the basin model.`,
+        ...(result.calendar ? [] : ['The storm has no start date, so it starts at 01Jan2000 00:00 (HMS needs dates).']),
+        ...notes,
+        '',
+    ].join('\n');
+
+    return [
+        { name: `${name}.gage`, content: gage },
+        { name: `${name}.met`, content: met },
+        { name: `${name}.csv`, content: csv },
+        { name: 'README.txt', content: readme },
+    ];
+}
+
+// --- WinTR-20 Files ---
+
+const WINTR20_FIELD_WIDTH = 10;      // Input fields are 10 columns wide, starting in column 11
+const WINTR20_ORDINATES_PER_LINE = 5;
+const MM_PER_INCH = 25.4;
+
+// A storm for the STORM ANALYSIS section
+export interface WinTr20Storm {
+    id: string;    // Storm identifier, e.g. "100-Yr" (up to 10 characters)
+    depth: number; // Rainfall depth (inches; WinTR-20 works in English units)
+}
+
+// Rainfall table and storm settings for WinTR-20 records
+export interface WinTr20Options {
+    tableId: string;             // Rainfall distribution identifier (up to 10 characters)
+    incrementHours: number;      // Ordinate spacing; must divide the storm duration
+    storms?: WinTr20Storm[];     // Storms using the table (defaults to the calculated storm's own depth)
+    antecedentCondition?: 1 | 2 | 3; // Antecedent runoff condition (defaults to 2)
+}
+
+/**
+ * Writes a WinTR-20 data record: fields left-aligned in 10-column slots after 10 blank columns.
+ */
+function formatWinTr20Record(fields: string[]): string {
+    return (' '.repeat(WINTR20_FIELD_WIDTH) + fields.map(field => field.padEnd(WINTR20_FIELD_WIDTH)).join('')).trimEnd();
+}
+
+/**
+ * Trims an identifier to a WinTR-20 field.
+ */
+function toWinTr20Id(id: string): string {
+    return id.trim().slice(0, WINTR20_FIELD_WIDTH);
+}
+
+/**
+ * Builds the WinTR-20 storm list for every NOAA return period with a depth at the given duration.
+ * @param noaaData NOAA Atlas 14 depths (inches) by return period.
+ * @param durationMinutes Storm duration to read each depth-duration curve at.
+ * @returns One storm per return period, e.g. "100-Yr", in the NOAA table's order.
+ */
+export function getNoaaWinTr20Storms(noaaData: NoaaReturnPeriodData[], durationMinutes: number): WinTr20Storm[] {
+    return noaaData.flatMap(rp => {
+        const depth = interpolateDepthDuration(rp.dataPoints.map(dp => ({
+            durationMinutes: dp.durationUnits === 'minutes' ? dp.durationValue : dp.durationValue * 60,
+            depth: dp.depth,
+        })), durationMinutes);
+        return isNaN(depth) ? [] : [{ id: `${rp.returnPeriod}-Yr`, depth }];
+    });
+}
+
+/**
+ * Generates WinTR-20 STORM ANALYSIS and RAINFALL DISTRIBUTION records for a calculated storm, to
+ * paste into a WinTR-20 input file. The distribution is written as cumulative dimensionless
+ * ordinates (cumulative depth over total depth, from 0 to 1) at a fixed increment, interpolated
+ * linearly between steps; each storm record gives its depth (inches), the storm duration (hours),
+ * the distribution identifier and the antecedent runoff condition. Export notes lead the records
+ * as comment lines ('#' in column 1, which WinTR-20 skips).
+ * @param result The calculated storm.
+ * @param options Table identifier, ordinate increment, storms and antecedent runoff condition.
+ * @returns The records, or null if the storm has no depth or the increment does not divide its duration.
+ */
+export function generateWinTr20Records(result: CalculationResult, options: WinTr20Options): string | null {
+    const { detailedData, totalDepthActual } = result;
+    const { incrementHours, antecedentCondition = 2 } = options;
+    const durationHours = detailedData.length > 0 ? detailedData[detailedData.length - 1].timeEnd / 60 : 0;
+    if (!(totalDepthActual > 0) || !(durationHours > 0)) {
+        console.error('WinTR-20 export: the storm has no rainfall.');
+        return null;
+    }
+    const incrementCount = Math.round(durationHours / incrementHours);
+    if (!(incrementHours > 0) || incrementCount < 1 || Math.abs(incrementCount * incrementHours - durationHours) > 1e-6) {
+        console.error(`WinTR-20 export: the ${incrementHours}-hr increment does not divide the ${durationHours}-hr storm.`);
+        return null;
+    }
+
+    const tableId = toWinTr20Id(options.tableId) || 'GSTORM';
+    const ownDepth = result.depthUnit === 'mm' ? totalDepthActual / MM_PER_INCH : totalDepthActual;
+    const storms = options.storms ?? [{ id: 'GSTORM', depth: ownDepth }];
+
+    // Cumulative fraction at each increment, read off the step-end cumulative depths
+    const cumulativeFractionAt = (timeMinutes: number): number => {
+        let previousEnd = 0;
+        let previousDepth = 0;
+        for (const step of detailedData) {
+            if (timeMinutes <= step.timeEnd + 1e-9) {
+                const fraction = step.timeEnd > previousEnd ? (timeMinutes - previousEnd) / (step.timeEnd - previousEnd) : 1;
+                return (previousDepth + Math.max(0, fraction) * (step.cumulativeDepth - previousDepth)) / totalDepthActual;
+            }
+            previousEnd = step.timeEnd;
+            previousDepth = step.cumulativeDepth;
+        }
+        return 1;
+    };
+    const ordinates = Array.from({ length: incrementCount + 1 }, (_, i) =>
+        i === incrementCount ? 1 : Math.min(1, cumulativeFractionAt(i * incrementHours * 60)));
+
+    const lines = getExportNotes(result).map(note => `# ${note}`);
+    lines.push('STORM ANALYSIS:');
+    storms.forEach(storm => {
+        lines.push(formatWinTr20Record([
+            toWinTr20Id(storm.id),
+            storm.depth.toFixed(3),
+            durationHours.toFixed(2),
+            tableId,
+            String(antecedentCondition),
+        ]));
+    });
+    lines.push('', 'RAINFALL DISTRIBUTION:');
+    lines.push(formatWinTr20Record([tableId, String(incrementHours)]));
+    for (let i = 0; i < ordinates.length; i += WINTR20_ORDINATES_PER_LINE) {
+        lines.push(formatWinTr20Record(['', ...ordinates.slice(i, i + WINTR20_ORDINATES_PER_LINE).map(value => value.toFixed(4))]));
+    }
+    lines.push('');
+    return lines.join('\n');
+}
+
+// --- HEC-RAS Files ---
+
+// Hydrograph intervals HEC-RAS accepts for an unsteady flow boundary (minutes)
+const HEC_RAS_INTERVALS = [1, 2, 3, 4, 5, 6, 10, 12, 15, 20, 30, 60, 120, 180, 240, 360, 480, 720, 1440];
+const HEC_RAS_FIELD_WIDTH = 8;
+const HEC_RAS_VALUES_PER_LINE = 10;
+
+// Boundary condition written to the unsteady flow file
+export type HecRasBoundaryType = 'precipitation' | 'lateralInflow';
+
+// Where the boundary applies in the RAS geometry
+export interface HecRasBoundaryOptions {
+    boundaryType: HecRasBoundaryType;
+    flowAreaName: string; // 2D flow area receiving rain-on-grid precipitation
+    river: string;        // River, reach and station of a lateral inflow hydrograph
+    reach: string;
+    station: string;
+}
+
+/**
+ * Formats a value to fit an 8-column RAS table field with at least one leading space, dropping
+ * decimals (and a leading zero) as needed, the way RAS writes its own tables.
+ */
+function formatHecRasValue(value: number): string {
+    for (let decimals = 5; decimals >= 0; decimals--) {
+        const text = value.toFixed(decimals).replace(/^(-?)0\./, '$1.');
+        if (text.length < HEC_RAS_FIELD_WIDTH) {
+            return text.padStart(HEC_RAS_FIELD_WIDTH);
+        }
+    }
+    return value.toExponential(1).padStart(HEC_RAS_FIELD_WIDTH);
+}
+
+/**
+ * Formats a local time as a RAS fixed start date and time, e.g. "01Jun2024,1800".
+ */
+function formatHecRasStart(localTime: number): string {
+    const { day, month, year, hour, minute } = getLocalParts(localTime);
+    return `${day.toString().padStart(2, '0')}${MONTH_NAMES[month].slice(0, 3)}${year},${hour.toString().padStart(2, '0')}${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Generates a boundary condition block for a HEC-RAS unsteady flow file (.u##), to paste into the
+ * file with RAS closed: either a uniform Precipitation Hydrograph on a 2D flow area (rain-on-grid,
+ * incremental depth ending at each ordinate, starting from zero) or a Lateral Inflow Hydrograph of
+ * the storm's runoff at a river station. Values are written 10 per line in 8-column fields. A dated
+ * storm sets the boundary's fixed start time; otherwise it starts with the simulation. Export notes
+ * head the block as '#' lines for the record; they are not part of the RAS file, so paste from the
+ * Boundary Location line.
+ * @param result The calculated storm.
+ * @param options Boundary type and location.
+ * @param runoff Runoff hydrograph of the storm, required for a lateral inflow.
+ * @returns The block, or null if the interval is not one RAS accepts or a lateral inflow has no runoff.
+ */
+export function generateHecRasBoundary(result: CalculationResult, options: HecRasBoundaryOptions, runoff?: RunoffResult | null): string | null {
+    const timeStep = getResultTimeStep(result);
+    if (!HEC_RAS_INTERVALS.includes(timeStep)) {
+        console.error(`HEC-RAS export: the ${timeStep}-min time step is not a RAS hydrograph interval (${HEC_RAS_INTERVALS.join(', ')} min).`);
+        return null;
+    }
+
+    let location: string[];
+    let hydrographKey: string;
+    let values: number[];
+    if (options.boundaryType === 'precipitation') {
+        location = ['', '', '', '', '', options.flowAreaName.trim(), '', ''];
+        hydrographKey = 'Precipitation Hydrograph';
+        values = [0, ...result.detailedData.map(step => step.depthStep)];
+    } else {
+        if (!runoff || runoff.detailedData.length === 0) {
+            console.error('HEC-RAS export: a lateral inflow hydrograph needs a runoff hydrograph (curve number and drainage area).');
+            return null;
+        }
+        location = [options.river.trim(), options.reach.trim(), options.station.trim(), '', '', '', '', ''];
+        hydrographKey = 'Lateral Inflow Hydrograph';
+        values = runoff.detailedData.map(ordinate => ordinate.discharge);
+    }
+
+    // Boundary Location fields are padded to the widths RAS writes
+    const locationWidths = [16, 16, 8, 8, 16, 16, 16, 32];
+    const lines = [
+        ...getExportNotes(result).map(note => `# ${note}`),
+        `Boundary Location=${location.map((field, i) => field.padEnd(locationWidths[i])).join(',')}`,
+        `Interval=${formatDssInterval(timeStep)}`,
+        `${hydrographKey}= ${values.length} `,
+    ];
+    for (let i = 0; i < values.length; i += HEC_RAS_VALUES_PER_LINE) {
+        lines.push(values.slice(i, i + HEC_RAS_VALUES_PER_LINE).map(formatHecRasValue).join(''));
+    }
+    const localStart = result.calendar ? result.calendar.start + result.calendar.utcOffsetMinutes * 60000 : undefined;
+    lines.push(
+        'DSS Path=',
+        'Use DSS=False',
+        `Use Fixed Start Time=${localStart !== undefined ? 'True' : 'False'}`,
+        `Fixed Start Date/Time=${localStart !== undefined ? formatHecRasStart(localStart) : ','}`,
+        'Is Critical Boundary=False',
+        'Critical Boundary Flow=',
+        '',
+    );
+    return lines.join('\n');
+}
+
+// --- Excel Workbook ---
+
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // Days from Excel's 1900 date system origin to 1970-01-01
+const DEPTH_FORMAT = '0.000';
+const STEP_FORMAT = '0.00000';
+const EXCEL_DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+
+/**
+ * Numeric input as a formatted cell; text that is not a number stays text.
+ */
+function toInputCell(value: number | string | null, format?: string): XlsxCell {
+    if (value === null || String(value).trim() === '') return null;
+    const number = Number(value);
+    if (!Number.isFinite(number)) return String(value);
+    return format ? { value: number, format } : number;
+}
+
+/**
+ * Parameter / Value / Unit rows of the storm inputs that apply to the calculated storm.
+ * @param inputs Inputs the storm was calculated from.
+ * @param noaa Selected location, if any.
+ * @returns The rows, without a header.
+ */
+export function getStormInputRows(inputs: StormInputParameters, noaa: Pick<NoaaState, 'latitude' | 'longitude'> | null): XlsxCell[][] {
+    const isMetric = inputs.depthUnits === 'metric';
+    const depthUnit = isMetric ? 'mm' : 'in';
+    const usesCurveNumber = String(inputs.curveNumber).trim() !== '';
+    const rows: XlsxCell[][] = [
+        ['Storm Category', inputs.stormCategory, ''],
+        ['Storm Type', inputs.stormSubType, ''],
+        ['Total Depth', toInputCell(inputs.totalDepth, DEPTH_FORMAT), depthUnit],
+        ['Duration', toInputCell(inputs.duration, '0.00'), 'hr'],
+        ['Time Step', toInputCell(inputs.timeStep), 'min'],
+        ['Units', isMetric ? 'Metric' : 'US Customary', ''],
+        ['Interpolation', inputs.interpolationMode, ''],
+    ];
+    if (inputs.stormCategory === 'NOAA') rows.push(['NOAA Return Period', toInputCell(inputs.noaaReturnPeriod), 'yr']);
+    if (inputs.stormCategory === 'Huff' && inputs.huffProbability !== null) rows.push(['Huff Probability', toInputCell(inputs.huffProbability), '%']);
+    if (inputs.stormCategory === 'Atlas14') rows.push(['Atlas 14 Probability', toInputCell(inputs.atlas14Probability), '%']);
+    if (inputs.stormCategory === 'Chicago') {
+        rows.push(['IDF a', toInputCell(inputs.idfA), ''], ['IDF b', toInputCell(inputs.idfB), 'min'], ['IDF c', toInputCell(inputs.idfC), '']);
+    }
+    // Peak position places built storms; peak shift moves tabulated curves
+    const isBuiltStorm = inputs.stormCategory === 'NOAA' || inputs.stormCategory === 'Chicago';
+    if (isBuiltStorm && String(inputs.peakPosition).trim() !== '') rows.push(['Peak Position', toInputCell(inputs.peakPosition, '0.00'), 'fraction of duration']);
+    if (!isBuiltStorm && String(inputs.peakShift).trim() !== '') rows.push(['Peak Shift', toInputCell(inputs.peakShift, '0.00'), 'fraction of duration']);
+    if (usesCurveNumber) {
+        rows.push(['Curve Number', toInputCell(inputs.curveNumber), ''], ['Initial Abstraction Ratio', toInputCell(inputs.initialAbstractionRatio), '']);
+    }
+    if (String(inputs.drainageArea).trim() !== '') {
+        rows.push(['Drainage Area', toInputCell(inputs.drainageArea), isMetric ? 'ha' : 'acres']);
+        if (usesCurveNumber) {
+            rows.push(['Time of Concentration', toInputCell(inputs.timeOfConcentration, '0.00'), 'hr'], ['Peak Rate Factor', toInputCell(inputs.peakRateFactor), '']);
+        }
+    }
+    if (inputs.arealReductionMethod !== 'none') rows.push(['Areal Reduction Method', inputs.arealReductionMethod, '']);
+    if (inputs.climateMethod !== 'none') {
+        rows.push(['Climate Adjustment', inputs.climateMethod, '']);
+        if (inputs.climateMethod === 'uniform') rows.push(['Climate Uplift', toInputCell(inputs.climateUpliftPercent, '0.0'), '%']);
+        if (inputs.climateMethod === 'clausius-clapeyron') {
+            rows.push(['Scaling Rate', toInputCell(inputs.climateScalingRate, '0.0'), '%/°C'], ['Warming', toInputCell(inputs.climateWarming, '0.0'), '°C']);
+        }
+        if (inputs.climateMethod === 'table') rows.push(['Change Factor Table', inputs.climateTableName, '']);
+    }
+    if (inputs.stormStart.trim() !== '') rows.push(['Storm Start', inputs.stormStart.replace('T', ' '), parseUtcOffset(inputs.timeZone) !== null ? `UTC${inputs.timeZone.trim()}` : inputs.timeZone.trim()]);
+    if (noaa?.latitude !== null && noaa?.latitude !== undefined && noaa.longitude !== null) {
+        rows.push(['Latitude', { value: noaa.latitude, format: '0.0000' }, '°'], ['Longitude', { value: noaa.longitude, format: '0.0000' }, '°']);
+    }
+    return rows;
+}
+
+/**
+ * Parameter / Value / Unit rows of the metrics shown in the summary table.
+ * @param result The calculated storm.
+ * @returns The rows, without a header.
+ */
+export function getStormSummaryRows(result: CalculationResult): XlsxCell[][] {
+    const { totalDepthActual, peakIntensity, depthUnit, intensityUnit, totalExcessDepth, runoffParameters, scaledFromDuration, arealReduction, climateAdjustment, interpolationComparison, peakShift } = result;
+    const rows: XlsxCell[][] = [
+        ['Total Calculated Depth', { value: totalDepthActual, format: DEPTH_FORMAT }, depthUnit],
+        ['Peak Rainfall Intensity', { value: peakIntensity, format: DEPTH_FORMAT }, intensityUnit],
+    ];
+    if (interpolationComparison) {
+        rows.push([`Peak Intensity with ${interpolationComparison.alternateMode === 'pchip' ? 'PCHIP' : 'Linear'} Interpolation`,
+            { value: interpolationComparison.alternatePeakIntensity, format: DEPTH_FORMAT }, intensityUnit]);
+    }
+    if (peakShift) {
+        rows.push(['Peak Step Time (Shifted)', peakShift.shiftedPeakTime, 'min'],
+            ['Peak Step Time (Published)', peakShift.originalPeakTime, 'min']);
+    }
+    if (climateAdjustment) {
+        rows.push(['Climate Adjustment Factor', { value: climateAdjustment.factor, format: '0.0000' }, climateAdjustment.description],
+            ['Baseline Point Depth', { value: climateAdjustment.baselineDepth, format: DEPTH_FORMAT }, depthUnit],
+            ['Baseline Peak Intensity', { value: climateAdjustment.baselinePeakIntensity, format: DEPTH_FORMAT }, intensityUnit]);
+    }
+    if (arealReduction) {
+        rows.push(['Point Rainfall Depth', { value: arealReduction.pointDepth, format: DEPTH_FORMAT }, depthUnit],
+            ['Areal Reduction Factor', { value: arealReduction.factor, format: '0.0000' }, `${arealReduction.method}, ${arealReduction.drainageArea} ${arealReduction.areaUnit}`]);
+    }
+    if (scaledFromDuration !== undefined) {
+        rows.push(['Published Curve Duration (Time-Scaled)', scaledFromDuration, 'hr']);
+    }
+    if (runoffParameters && totalExcessDepth !== undefined) {
+        rows.push(['Curve Number', runoffParameters.curveNumber, ''],
+            ['Initial Abstraction Ratio', runoffParameters.initialAbstractionRatio, ''],
+            ['Potential Retention S', { value: runoffParameters.potentialRetention, format: DEPTH_FORMAT }, depthUnit],
+            ['Initial Abstraction Ia', { value: runoffParameters.initialAbstraction, format: DEPTH_FORMAT }, depthUnit],
+            ['Total Runoff (Effective Rainfall)', { value: totalExcessDepth, format: DEPTH_FORMAT }, depthUnit],
+            ['Total Losses', { value: totalDepthActual - totalExcessDepth, format: DEPTH_FORMAT }, depthUnit]);
+    }
+    return rows;
+}
+
+/**
+ * Builds the worksheets of a design storm workbook: the inputs, the summary metrics (with the
+ * export notes), the step table and, when loaded, the NOAA depth table for the location. Headers
+ * carry the units and numbers keep their own formats, so the values stay usable in formulas.
+ * A dated storm gets local date-time columns alongside the minutes from the start.
+ * @param result The calculated storm.
+ * @param inputs Inputs the storm was calculated from.
+ * @param noaa NOAA depths and location, if loaded.
+ * @returns The worksheets, for createXlsx.
+ */
+export function generateStormWorkbook(result: CalculationResult, inputs: StormInputParameters, noaa: Pick<NoaaState, 'data' | 'latitude' | 'longitude'> | null): XlsxSheet[] {
+    const { detailedData, depthUnit, intensityUnit, calendar } = result;
+    const hasExcess = result.excessIntensityData !== undefined;
+
+    const summaryRows = getStormSummaryRows(result);
+    const notes = getExportNotes(result);
+    if (notes.length > 0) {
+        summaryRows.push([], ['Notes', '', ''], ...notes.map(note => [note]));
+    }
+
+    // Excel stores date-times as days since 1900; the local time is written as if it were UTC
+    const toExcelDate = (timeMinutes: number): XlsxCell => {
+        if (!calendar) return null;
+        const timestamp = calendar.start + timeMinutes * 60000;
+        return {
+            value: (timestamp + getCalendarUtcOffset(calendar, timestamp) * 60000) / 86400000 + EXCEL_EPOCH_OFFSET_DAYS,
+            format: EXCEL_DATE_FORMAT,
+        };
+    };
+    const offsetLabel = calendar ? ` (${describeCalendarZone(calendar)})` : '';
+    const stepHeaders: XlsxCell[] = [
+        'Time Start (min)',
+        'Time End (min)',
+        ...(calendar ? [`Start${offsetLabel}`, `End${offsetLabel}`] : []),
+        `Intensity (${intensityUnit})`,
+        `Depth per Step (${depthUnit})`,
+        `Cumulative Depth (${depthUnit})`,
+        ...(hasExcess ? [`Excess per Step (${depthUnit})`, `Loss per Step (${depthUnit})`, `Cumulative Runoff (${depthUnit})`] : []),
+    ];
+    const stepRows: XlsxCell[][] = detailedData.map(step => [
+        step.timeStart,
+        step.timeEnd,
+        ...(calendar ? [toExcelDate(step.timeStart), toExcelDate(step.timeEnd)] : []),
+        { value: step.intensity, format: STEP_FORMAT },
+        { value: step.depthStep, format: STEP_FORMAT },
+        { value: step.cumulativeDepth, format: STEP_FORMAT },
+        ...(hasExcess ? [
+            { value: step.excessDepth ?? 0, format: STEP_FORMAT },
+            { value: step.lossDepth ?? 0, format: STEP_FORMAT },
+            { value: step.cumulativeRunoff ?? 0, format: STEP_FORMAT },
+        ] : []),
+    ]);
+
+    const sheets: XlsxSheet[] = [
+        { name: 'Inputs', headerRow: true, columnWidths: [28, 20, 22], rows: [['Parameter', 'Value', 'Unit'], ...getStormInputRows(inputs, noaa)] },
+        { name: 'Summary', headerRow: true, columnWidths: [40, 14, 24], rows: [['Parameter', 'Value', 'Unit'], ...summaryRows] },
+        { name: 'Hyetograph', headerRow: true, columnWidths: stepHeaders.map(() => 18), rows: [stepHeaders, ...stepRows] },
+    ];
+
+    if (noaa?.data && noaa.data.length > 0) {
+        // One column per duration, shortest first
+        const durations = new Map<string, number>();
+        noaa.data.forEach(rp => rp.dataPoints.forEach(dp => {
+            durations.set(dp.durationLabel, dp.durationUnits === 'minutes' ? dp.durationValue : dp.durationValue * 60);
+        }));
+        const labels = Array.from(durations.keys()).sort((a, b) => (durations.get(a) ?? 0) - (durations.get(b) ?? 0));
+        sheets.push({
+            name: 'NOAA Depths',
+            headerRow: true,
+            columnWidths: [10, ...labels.map(() => 11)],
+            rows: [
+                ['ARI (yr)', ...labels.map(label => `${label} (in)`)],
+                ...noaa.data.map(rp => [
+                    rp.returnPeriod,
+                    ...labels.map((label): XlsxCell => {
+                        const point = rp.dataPoints.find(dp => dp.durationLabel === label);
+                        return point ? { value: point.depth, format: '0.00' } : null;
+                    }),
+                ]),
+            ],
+        });
+    }
+    return sheets;
+}
@@ -165,4 +165,14 @@ export function parseNoaaCsv(csvText: string): NoaaReturnPeriodData[] | null {
         console.error("Error parsing NOAA CSV data:", error);
         return null;
     }
-} 
\ No newline at end of file
+} 
+/**
+ * Reads the NOAA Atlas 14 volume from the metadata lines of a PFDS CSV response
+ * (e.g., "NOAA Atlas 14 Volume 2 Version 3").
+ * @param csvText The raw CSV string from the API.
+ * @returns The volume number, or null if the response does not name one.
+ */
+export function parseNoaaAtlasVolume(csvText: string): number | null {
+    const match = csvText.match(/Atlas\s*14,?\s*Volume\s*(\d+)/i);
+    return match ? parseInt(match[1], 10) : null;
+}
@@ -0,0 +1,226 @@
+// --- PDF Documents ---
+
+export const PDF_PAGE_WIDTH = 612;  // US Letter, points
+export const PDF_PAGE_HEIGHT = 792;
+
+// A JPEG image to place on a page
+export interface PdfImage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+}
+
+// Drawing operations; positions are in points from the top-left corner of the page
+// (text y is the baseline), gray is 0 (black) to 1 (white)
+export type PdfItem =
+    | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; gray?: number; align?: 'left' | 'center' | 'right' }
+    | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; gray?: number }
+    | { type: 'rect'; x: number; y: number; width: number; height: number; fillGray?: number; strokeGray?: number }
+    | { type: 'image'; x: number; y: number; width: number; height: number; image: PdfImage };
+
+export interface PdfPage {
+    items: PdfItem[];
+}
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126, from the standard AFM files
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Widths of the non-ASCII WinAnsi characters the app writes (regular, bold); others use 556
+const WIN_ANSI_EXTRA_WIDTHS: Record<number, [number, number]> = {
+    133: [1000, 1000], // …
+    145: [222, 278], 146: [222, 278], 147: [333, 500], 148: [333, 500], // Curly quotes
+    149: [350, 350], // •
+    150: [556, 556], 151: [1000, 1000], // En and em dashes
+    176: [400, 400], // °
+    177: [584, 584], // ±
+    178: [333, 333], 179: [333, 333], // ² ³
+    181: [556, 611], // µ
+    215: [584, 584], // ×
+};
+// Characters outside Latin-1 that WinAnsiEncoding places in 128-159
+const WIN_ANSI_SPECIALS: Record<string, number> = {
+    '€': 128, '…': 133, '‘': 145, '’': 146, '“': 147, '”': 148, '•': 149, '–': 150, '—': 151, '™': 153,
+};
+
+/**
+ * Encodes text as WinAnsi character codes; characters the standard fonts cannot show become '?'.
+ */
+function toWinAnsi(text: string): number[] {
+    return Array.from(text).map(char => {
+        const code = char.codePointAt(0) ?? 63;
+        if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+        return WIN_ANSI_SPECIALS[char] ?? 63;
+    });
+}
+
+/**
+ * Width of text set in Helvetica (or Helvetica-Bold), for wrapping and alignment.
+ * @param text The text.
+ * @param size Font size (points).
+ * @param bold Whether the bold face is used.
+ * @returns The width in points.
+ */
+export function measurePdfText(text: string, size: number, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const total = toWinAnsi(text).reduce((sum, code) => {
+        if (code >= 32 && code <= 126) return sum + widths[code - 32];
+        return sum + (WIN_ANSI_EXTRA_WIDTHS[code]?.[bold ? 1 : 0] ?? 556);
+    }, 0);
+    return total * size / 1000;
+}
+
+/**
+ * Writes text as a PDF string literal, escaping delimiters and writing non-ASCII codes in octal
+ * so the content stream stays 7-bit.
+ */
+function toPdfString(text: string): string {
+    return '(' + toWinAnsi(text).map(code => {
+        if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+        return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+    }).join('') + ')';
+}
+
+/**
+ * Formats a number for a content stream (at most two decimals, no exponent).
+ */
+function formatPdfNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Converts a canvas to a JPEG for a PDF, on a white background (JPEG has no transparency,
+ * so transparent chart areas would otherwise turn black).
+ * @param canvas The canvas, e.g. a chart's.
+ * @returns The image, or null if the canvas cannot be read.
+ */
+export function canvasToPdfImage(canvas: HTMLCanvasElement): PdfImage | null {
+    const flattened = document.createElement('canvas');
+    flattened.width = canvas.width;
+    flattened.height = canvas.height;
+    const context = flattened.getContext('2d');
+    if (!context || canvas.width === 0 || canvas.height === 0) {
+        console.error('PDF image: the canvas is empty or cannot be drawn.');
+        return null;
+    }
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, flattened.width, flattened.height);
+    context.drawImage(canvas, 0, 0);
+    const base64 = flattened.toDataURL('image/jpeg', 0.92).split(',')[1] ?? '';
+    const binary = atob(base64);
+    const jpeg = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        jpeg[i] = binary.charCodeAt(i);
+    }
+    return { jpeg, pixelWidth: canvas.width, pixelHeight: canvas.height };
+}
+
+/**
+ * Builds a PDF 1.4 document with the standard Helvetica fonts (nothing is embedded but images),
+ * so it can be written entirely in the browser.
+ * @param pages Pages in order.
+ * @param title Document title shown by PDF viewers.
+ * @param created Creation time recorded in the document (defaults to now).
+ * @returns The document bytes.
+ */
+export function createPdf(pages: PdfPage[], title: string, created: Date = new Date()): Uint8Array {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    // Objects are numbered from 1 in the order they are written
+    const writeObject = (body: string, stream?: Uint8Array) => {
+        offsets.push(length);
+        write(`${offsets.length} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    // Fixed objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info; then images, then pages with their contents
+    const images: PdfImage[] = [];
+    pages.forEach(page => page.items.forEach(item => {
+        if (item.type === 'image' && !images.includes(item.image)) images.push(item.image);
+    }));
+    const firstImageId = 6;
+    const firstPageId = firstImageId + images.length;
+    const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const creationDate = `D:${created.getFullYear()}${pad(created.getMonth() + 1)}${pad(created.getDate())}${pad(created.getHours())}${pad(created.getMinutes())}${pad(created.getSeconds())}`;
+
+    write('%PDF-1.4\n%âãÏÓ\n');
+    writeObject('<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    writeObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    writeObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    writeObject(`<< /Title ${toPdfString(title)} /Producer (GStorm) /CreationDate (${creationDate}) >>`);
+    images.forEach(image => {
+        writeObject(`<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>`, image.jpeg);
+    });
+
+    const imageResources = images.map((_, i) => `/Im${i + 1} ${firstImageId + i} 0 R`).join(' ');
+    pages.forEach((page, pageIndex) => {
+        const y = (top: number) => formatPdfNumber(PDF_PAGE_HEIGHT - top);
+        const n = formatPdfNumber;
+        const content = page.items.map(item => {
+            switch (item.type) {
+                case 'text': {
+                    const width = measurePdfText(item.text, item.size, item.bold);
+                    const x = item.align === 'right' ? item.x - width : item.align === 'center' ? item.x - width / 2 : item.x;
+                    return `BT /${item.bold ? 'F2' : 'F1'} ${n(item.size)} Tf ${n(item.gray ?? 0)} g ${n(x)} ${y(item.y)} Td ${toPdfString(item.text)} Tj ET`;
+                }
+                case 'line':
+                    return `${n(item.width ?? 0.5)} w ${n(item.gray ?? 0)} G ${n(item.x1)} ${y(item.y1)} m ${n(item.x2)} ${y(item.y2)} l S`;
+                case 'rect': {
+                    const path = `${n(item.x)} ${y(item.y + item.height)} ${n(item.width)} ${n(item.height)} re`;
+                    const fill = item.fillGray !== undefined ? `${n(item.fillGray)} g ${path} f` : '';
+                    const stroke = item.strokeGray !== undefined ? `0.5 w ${n(item.strokeGray)} G ${path} S` : '';
+                    return [fill, stroke].filter(Boolean).join(' ');
+                }
+                case 'image':
+                    return `q ${n(item.width)} 0 0 ${n(item.height)} ${n(item.x)} ${y(item.y + item.height)} cm /Im${images.indexOf(item.image) + 1} Do Q`;
+            }
+        }).join('\n');
+        const stream = encoder.encode(content);
+        writeObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${imageResources ? ` /XObject << ${imageResources} >>` : ''} >> ` +
+            `/Contents ${pageIds[pageIndex] + 1} 0 R >>`);
+        writeObject(`<< /Length ${stream.length} >>`, stream);
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const document = new Uint8Array(length);
+    let position = 0;
+    parts.forEach(part => {
+        document.set(part, position);
+        position += part.length;
+    });
+    return document;
+}
@@ -0,0 +1,200 @@
+import { CalculationDiagnostic, CalculationResult, NoaaReturnPeriodData, NoaaState, RunoffResult, SeriesEventEntry, StormInputParameters } from '../types';
+import { StoredCustomDistribution } from './customDistributions';
+
+// --- Constants ---
+export const PROJECT_FILE_FORMAT = 'gstorm-project';
+export const PROJECT_FILE_VERSION = 2; // Bump (and add a migration) whenever the saved layout changes
+
+// A saved project as read from or written to disk, in loosely-typed form for migrations
+type ProjectJson = Record<string, unknown>;
+
+// Upgrades a project saved with format version n to version n + 1. Keyed by n; opened files are
+// run through each step from their own version up to PROJECT_FILE_VERSION.
+const PROJECT_MIGRATIONS: Record<number, (project: ProjectJson) => ProjectJson> = {
+    // 1 -> 2: the storm start's utcOffset input became timeZone (which also takes IANA zone names)
+    1: project => {
+        const renameOffset = (inputs: unknown) => {
+            if (!isObject(inputs)) return inputs;
+            const { utcOffset, ...rest } = inputs;
+            return { ...rest, timeZone: typeof utcOffset === 'string' ? utcOffset : '' };
+        };
+        const results = isObject(project.results) ? { ...project.results, calculatedInputs: renameOffset(project.results.calculatedInputs) } : project.results;
+        return { ...project, inputs: renameOffset(project.inputs), results };
+    },
+};
+
+// --- Project Layout ---
+
+// The map location and the NOAA depths fetched for it (kept so a project opens without the PFDS request)
+export interface ProjectNoaaLocation {
+    latitude: number;
+    longitude: number;
+    data: NoaaReturnPeriodData[] | null;
+    atlas14Volume: number | null;
+    retrievedAt: number | null; // Epoch ms of the original fetch
+}
+
+// The storm as last calculated, kept so a project reopens with exactly the results that were issued
+export interface ProjectResults {
+    calculatedInputs: StormInputParameters | null;
+    calculationResult: CalculationResult;
+    runoffResult: RunoffResult | null;
+}
+
+export interface GStormProject {
+    format: typeof PROJECT_FILE_FORMAT;
+    version: number;
+    savedAt: string; // ISO 8601
+    inputs: StormInputParameters;       // Form inputs, including climate change-factor tables
+    noaa: ProjectNoaaLocation | null;
+    customDistributions: StoredCustomDistribution[]; // Uploaded distribution files, restored when opened
+    seriesEvents: SeriesEventEntry[];
+    results: ProjectResults | null;
+}
+
+// Outcome of opening a project file: the project (null if it cannot be read) and what happened to it
+export interface ProjectFileLoad {
+    project: GStormProject | null;
+    diagnostics: CalculationDiagnostic[];
+}
+
+// --- Helpers ---
+
+function isObject(value: unknown): value is ProjectJson {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNoaaLocation(value: unknown): ProjectNoaaLocation | null {
+    if (!isObject(value) || typeof value.latitude !== 'number' || typeof value.longitude !== 'number') return null;
+    return {
+        latitude: value.latitude,
+        longitude: value.longitude,
+        data: Array.isArray(value.data) ? value.data as NoaaReturnPeriodData[] : null,
+        atlas14Volume: typeof value.atlas14Volume === 'number' ? value.atlas14Volume : null,
+        retrievedAt: typeof value.retrievedAt === 'number' ? value.retrievedAt : null,
+    };
+}
+
+function isStoredDistribution(value: unknown): value is StoredCustomDistribution {
+    return isObject(value) && Array.isArray(value.names) && typeof value.name === 'string'
+        && typeof value.format === 'string' && typeof value.csvText === 'string';
+}
+
+function isCalculationResult(value: unknown): value is CalculationResult {
+    return isObject(value) && Array.isArray(value.detailedData) && Array.isArray(value.intensityData);
+}
+
+// --- Public API ---
+
+/**
+ * Picks the parts of the NOAA state worth saving: the location and its fetched depths.
+ * @param noaa Current NOAA state.
+ * @returns The location, or null if none is selected.
+ */
+export function getProjectNoaaLocation(noaa: NoaaState): ProjectNoaaLocation | null {
+    if (noaa.latitude === null || noaa.longitude === null) return null;
+    return {
+        latitude: noaa.latitude,
+        longitude: noaa.longitude,
+        data: noaa.data,
+        atlas14Volume: noaa.atlas14Volume,
+        retrievedAt: noaa.retrievedAt,
+    };
+}
+
+/**
+ * Writes a project file in the current format version.
+ * @param project Everything saved with the project.
+ * @param savedAt Save time recorded in the file (defaults to now).
+ * @returns The file content (indented JSON).
+ */
+export function createProjectFile(project: Omit<GStormProject, 'format' | 'version' | 'savedAt'>, savedAt: Date = new Date()): string {
+    const file: GStormProject = {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        savedAt: savedAt.toISOString(),
+        ...project,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads a project file, upgrading older format versions. Inputs added to the app since the
+ * file was saved take their default values; parts that do not validate are left out.
+ * @param text File content.
+ * @param defaultInputs Form defaults for inputs the file does not have.
+ * @returns The project (null if the file cannot be read) and diagnostics describing the load.
+ */
+export function parseProjectFile(text: string, defaultInputs: StormInputParameters): ProjectFileLoad {
+    const fail = (message: string): ProjectFileLoad => {
+        console.error(`Project file: ${message}`);
+        return { project: null, diagnostics: [{ code: 'PROJECT_FILE_INVALID', severity: 'error', message }] };
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        return fail('The file is not a GStorm project (it is not valid JSON).');
+    }
+    if (!isObject(parsed) || parsed.format !== PROJECT_FILE_FORMAT) {
+        return fail('The file is not a GStorm project.');
+    }
+    const savedVersion = parsed.version;
+    if (typeof savedVersion !== 'number' || !Number.isInteger(savedVersion) || savedVersion < 1) {
+        return fail('The project file has no valid format version.');
+    }
+    if (savedVersion > PROJECT_FILE_VERSION) {
+        return fail(`The project was saved by a newer GStorm (format version ${savedVersion}); this version opens format ${PROJECT_FILE_VERSION} and earlier.`);
+    }
+
+    const diagnostics: CalculationDiagnostic[] = [];
+    let project: ProjectJson = parsed;
+    for (let version = savedVersion; version < PROJECT_FILE_VERSION; version++) {
+        const migrate = PROJECT_MIGRATIONS[version];
+        if (!migrate) return fail(`Project format version ${version} cannot be upgraded.`);
+        project = { ...migrate(project), version: version + 1 };
+    }
+    if (savedVersion < PROJECT_FILE_VERSION) {
+        diagnostics.push({
+            code: 'PROJECT_FILE_MIGRATED',
+            severity: 'info',
+            message: `The project was saved in format version ${savedVersion} and upgraded to version ${PROJECT_FILE_VERSION}; save it again to keep the upgrade.`,
+        });
+    }
+
+    if (!isObject(project.inputs)) {
+        return fail('The project file has no storm inputs.');
+    }
+    const customDistributions = Array.isArray(project.customDistributions) ? project.customDistributions : [];
+    const seriesEvents = Array.isArray(project.seriesEvents) ? project.seriesEvents : [];
+    const validDistributions = customDistributions.filter(isStoredDistribution);
+    const validSeriesEvents = seriesEvents.filter((entry): entry is SeriesEventEntry =>
+        isObject(entry) && typeof entry.id === 'number' && isCalculationResult(entry.result));
+    const skipped = customDistributions.length - validDistributions.length + seriesEvents.length - validSeriesEvents.length;
+    if (skipped > 0) {
+        diagnostics.push({ code: 'PROJECT_FILE_ADJUSTED', severity: 'warning', message: `${skipped} damaged custom distribution or event series entr${skipped === 1 ? 'y was' : 'ies were'} left out.` });
+    }
+
+    const results = isObject(project.results) && isCalculationResult(project.results.calculationResult)
+        ? {
+            calculatedInputs: isObject(project.results.calculatedInputs) ? { ...defaultInputs, ...project.results.calculatedInputs } as StormInputParameters : null,
+            calculationResult: project.results.calculationResult,
+            runoffResult: isObject(project.results.runoffResult) ? project.results.runoffResult as unknown as RunoffResult : null,
+        }
+        : null;
+
+    return {
+        project: {
+            format: PROJECT_FILE_FORMAT,
+            version: PROJECT_FILE_VERSION,
+            savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+            inputs: { ...defaultInputs, ...project.inputs } as StormInputParameters,
+            noaa: readNoaaLocation(project.noaa),
+            customDistributions: validDistributions,
+            seriesEvents: validSeriesEvents,
+            results,
+        },
+        diagnostics,
+    };
+}
@@ -0,0 +1,295 @@
+import { CalculationResult, NoaaState, StormInputParameters } from '../types';
+import { formatStepTime, getExportNotes, getStormInputRows, getStormSummaryRows, getTimeFormatLabel } from './exporters';
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfImage, PdfItem, PdfPage, createPdf, measurePdfText } from './pdf';
+import { XlsxCell } from './xlsx';
+
+// --- Constants ---
+const MARGIN = 54;              // 0.75 in
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 72;         // Below the running header
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 60; // Above the running footer
+const BODY_SIZE = 9;
+const TABLE_SIZE = 7.5;
+const LINE_GAP = 1.35;          // Line height as a multiple of the font size
+const CELL_PADDING = 3;
+const SEAL_SIZE = 144;          // 2 in square for the engineer's seal
+
+// Report details that are not part of the storm itself
+export interface StormReportOptions {
+    projectTitle: string;
+    preparedBy: string;
+    chartImage: PdfImage | null; // Hyetograph chart, as drawn on the page
+    generatedAt?: Date;          // Defaults to now
+}
+
+/**
+ * Citation for the distribution a storm was built from.
+ * @param inputs Inputs the storm was calculated from.
+ * @param atlas14Volume NOAA Atlas 14 volume of the selected location, if known.
+ * @returns The citation text.
+ */
+export function getDistributionCitation(inputs: StormInputParameters, atlas14Volume: number | null): string {
+    switch (inputs.stormCategory) {
+        case 'SCS':
+            return `SCS ${inputs.stormSubType}: USDA Soil Conservation Service (1986). Urban Hydrology for Small Watersheds, Technical Release 55 (TR-55), 2nd ed.`;
+        case 'NRCS':
+            return `NRCS ${inputs.stormSubType}: USDA Natural Resources Conservation Service regional rainfall distribution; see National Engineering Handbook Part 630, Chapter 4, Storm Rainfall Depth and Distribution.`;
+        case 'Huff':
+            return `${inputs.stormSubType}: Huff, F.A. (1967). Time distribution of rainfall in heavy storms. Water Resources Research 3(4).` +
+                (inputs.huffProbability !== null ? ` ${inputs.huffProbability}% probability curve from the uploaded table (e.g. Huff and Angel, 1992, ISWS Bulletin 71).` : '');
+        case 'NOAA':
+            return 'Alternating block storm: Chow, V.T., Maidment, D.R. and Mays, L.W. (1988). Applied Hydrology, McGraw-Hill; depths from the NOAA Atlas 14 depth-duration curve of the location.';
+        case 'Chicago':
+            return 'Chicago storm: Keifer, C.J. and Chu, H.H. (1957). Synthetic storm pattern for drainage design. Journal of the Hydraulics Division, ASCE, 83(HY4).';
+        case 'Atlas14':
+            return `${inputs.stormSubType}: NOAA Atlas 14${atlas14Volume !== null ? ` Volume ${atlas14Volume}` : ''} temporal distribution of heavy precipitation (NOAA National Weather Service, Hydrometeorological Design Studies Center), ${inputs.atlas14Probability}% probability curve.`;
+        case 'Custom':
+            return `${inputs.stormSubType}: user-supplied distribution; cite its source with the submittal.`;
+    }
+}
+
+/**
+ * Text of a workbook cell, with as many decimals as its number format.
+ */
+function formatCellText(cell: XlsxCell | undefined): string {
+    if (cell === null || cell === undefined) return '';
+    if (typeof cell === 'string') return cell;
+    if (typeof cell === 'number') return String(cell);
+    const decimals = cell.format.match(/\.(0+)/)?.[1].length ?? 0;
+    return cell.value.toFixed(decimals);
+}
+
+/**
+ * Breaks text into lines that fit a width, at spaces (a single long word is left whole).
+ */
+function wrapText(text: string, size: number, width: number, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && measurePdfText(candidate, size, bold) > width) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
+
+/**
+ * Lays out a signable design storm report: project and source information with signature and seal
+ * spaces, the input parameters, the hyetograph chart, the summary metrics and the full step table,
+ * on US Letter pages with a running header and "Page n of N" footers.
+ * @param result The calculated storm.
+ * @param inputs Inputs the storm was calculated from.
+ * @param noaa NOAA depths, location and retrieval time, if loaded.
+ * @param options Project title, preparer and chart image.
+ * @returns The PDF bytes.
+ */
+export function generateStormReport(result: CalculationResult, inputs: StormInputParameters, noaa: Pick<NoaaState, 'data' | 'latitude' | 'longitude' | 'atlas14Volume' | 'retrievedAt'> | null, options: StormReportOptions): Uint8Array {
+    const generatedAt = options.generatedAt ?? new Date();
+    const projectTitle = options.projectTitle.trim() || 'Untitled Project';
+    const pages: PdfPage[] = [];
+    let items: PdfItem[] = [];
+    let cursor = CONTENT_TOP;
+
+    const newPage = () => {
+        items = [];
+        pages.push({ items });
+        cursor = CONTENT_TOP;
+    };
+    // Starts a new page unless the height fits below the cursor
+    const ensureSpace = (height: number) => {
+        if (cursor + height > CONTENT_BOTTOM) newPage();
+    };
+    const addLines = (lines: string[], x: number, size: number, bold = false, gray = 0) => {
+        lines.forEach(line => {
+            cursor += size * LINE_GAP;
+            items.push({ type: 'text', x, y: cursor - size * 0.3, text: line, size, bold, gray });
+        });
+    };
+    const addHeading = (text: string) => {
+        ensureSpace(40);
+        cursor += 10;
+        addLines([text], MARGIN, 12, true);
+        items.push({ type: 'line', x1: MARGIN, y1: cursor + 2, x2: MARGIN + CONTENT_WIDTH, y2: cursor + 2, width: 0.75, gray: 0.4 });
+        cursor += 6;
+    };
+    const addParagraph = (text: string, size = BODY_SIZE, gray = 0) => {
+        wrapText(text, size, CONTENT_WIDTH).forEach(line => {
+            ensureSpace(size * LINE_GAP);
+            addLines([line], MARGIN, size, false, gray);
+        });
+    };
+
+    // Table with a shaded, wrapped header row that repeats on every page it spans
+    const addTable = (headers: string[], rows: string[][], align: ('left' | 'right')[], size = TABLE_SIZE) => {
+        const natural = headers.map((header, col) => Math.max(
+            ...header.split(' ').map(word => measurePdfText(word, size, true)),
+            ...rows.map(row => measurePdfText(row[col] ?? '', size)),
+        ) + 2 * CELL_PADDING);
+        const total = natural.reduce((sum, width) => sum + width, 0);
+        // Spare width is shared evenly; a table too wide is squeezed in proportion
+        const widths = total <= CONTENT_WIDTH
+            ? natural.map(width => width + (CONTENT_WIDTH - total) / natural.length)
+            : natural.map(width => width * CONTENT_WIDTH / total);
+        const lineHeight = size * LINE_GAP;
+        const headerLines = headers.map((header, col) => wrapText(header, size, widths[col] - 2 * CELL_PADDING, true));
+        const headerHeight = Math.max(...headerLines.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING;
+
+        const drawHeader = () => {
+            items.push({ type: 'rect', x: MARGIN, y: cursor, width: CONTENT_WIDTH, height: headerHeight, fillGray: 0.9 });
+            let x = MARGIN;
+            headerLines.forEach((lines, col) => {
+                lines.forEach((line, i) => {
+                    const textX = align[col] === 'right' ? x + widths[col] - CELL_PADDING : x + CELL_PADDING;
+                    items.push({ type: 'text', x: textX, y: cursor + CELL_PADDING + (i + 1) * lineHeight - size * 0.3, text: line, size, bold: true, align: align[col] });
+                });
+                x += widths[col];
+            });
+            cursor += headerHeight;
+        };
+
+        ensureSpace(headerHeight + lineHeight + CELL_PADDING);
+        drawHeader();
+        rows.forEach((row, rowIndex) => {
+            const rowHeight = lineHeight + CELL_PADDING;
+            if (cursor + rowHeight > CONTENT_BOTTOM) {
+                newPage();
+                drawHeader();
+            }
+            if (rowIndex % 2 === 1) {
+                items.push({ type: 'rect', x: MARGIN, y: cursor, width: CONTENT_WIDTH, height: rowHeight, fillGray: 0.97 });
+            }
+            let x = MARGIN;
+            row.forEach((text, col) => {
+                if (text === '') {
+                    x += widths[col];
+                    return;
+                }
+                const textX = align[col] === 'right' ? x + widths[col] - CELL_PADDING : x + CELL_PADDING;
+                items.push({ type: 'text', x: textX, y: cursor + rowHeight - CELL_PADDING - size * 0.15, text, size, align: align[col] });
+                x += widths[col];
+            });
+            cursor += rowHeight;
+        });
+        items.push({ type: 'line', x1: MARGIN, y1: cursor, x2: MARGIN + CONTENT_WIDTH, y2: cursor, gray: 0.6 });
+        cursor += 4;
+    };
+
+    // --- Title and Project ---
+    newPage();
+    addLines(['Design Storm Report'], MARGIN, 18, true);
+    cursor += 4;
+    addLines(wrapText(projectTitle, 13, CONTENT_WIDTH, true), MARGIN, 13, true, 0.25);
+    cursor += 6;
+
+    const hasLocation = noaa?.latitude !== null && noaa?.latitude !== undefined && noaa.longitude !== null;
+    const hasNoaaDepths = Boolean(noaa?.data && noaa.data.length > 0);
+    const formatDate = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const projectRows: string[][] = [
+        ['Location', hasLocation ? `${noaa!.latitude!.toFixed(4)}°, ${noaa!.longitude!.toFixed(4)}° (latitude, longitude, WGS 84)` : 'No location selected'],
+        ['Rainfall Source', hasNoaaDepths
+            ? `NOAA Atlas 14${noaa!.atlas14Volume !== null ? ` Volume ${noaa!.atlas14Volume}` : ''} precipitation frequency estimates, partial-duration series (NOAA Precipitation Frequency Data Server, hdsc.nws.noaa.gov)` +
+              (noaa!.retrievedAt !== null ? `, retrieved ${formatDate(new Date(noaa!.retrievedAt))}` : '')
+            : 'Depth entered by the user (no NOAA data loaded)'],
+        ['Distribution', getDistributionCitation(inputs, noaa?.atlas14Volume ?? null)],
+        ['Prepared By', options.preparedBy.trim() || '—'],
+        ['Report Date', formatDate(generatedAt)],
+    ];
+    projectRows.forEach(([label, value]) => {
+        const lines = wrapText(value, BODY_SIZE, CONTENT_WIDTH - 100);
+        ensureSpace(lines.length * BODY_SIZE * LINE_GAP + 2);
+        const top = cursor;
+        addLines([label], MARGIN, BODY_SIZE, true);
+        cursor = top;
+        addLines(lines, MARGIN + 100, BODY_SIZE);
+        cursor += 2;
+    });
+
+    // Signature lines beside a square left blank for the seal
+    cursor += 14;
+    ensureSpace(SEAL_SIZE + 10);
+    const sealX = MARGIN + CONTENT_WIDTH - SEAL_SIZE;
+    items.push({ type: 'rect', x: sealX, y: cursor, width: SEAL_SIZE, height: SEAL_SIZE, strokeGray: 0.5 });
+    items.push({ type: 'text', x: sealX + SEAL_SIZE / 2, y: cursor + SEAL_SIZE - 8, text: 'Seal', size: 8, gray: 0.5, align: 'center' });
+    ['Signature', 'Name', 'License No.', 'Date'].forEach((label, i) => {
+        const lineY = cursor + 30 + i * 34;
+        items.push({ type: 'text', x: MARGIN, y: lineY, text: label, size: BODY_SIZE, bold: true });
+        items.push({ type: 'line', x1: MARGIN + 70, y1: lineY + 2, x2: sealX - 24, y2: lineY + 2, gray: 0.3 });
+    });
+    cursor += SEAL_SIZE + 6;
+
+    // --- Inputs ---
+    addHeading('Input Parameters');
+    addTable(['Parameter', 'Value', 'Unit'],
+        getStormInputRows(inputs, noaa).map(row => row.map(formatCellText)),
+        ['left', 'right', 'left'], BODY_SIZE);
+
+    // --- Chart ---
+    if (options.chartImage) {
+        const { chartImage } = options;
+        const height = Math.min(CONTENT_WIDTH * chartImage.pixelHeight / chartImage.pixelWidth, CONTENT_BOTTOM - CONTENT_TOP - 40);
+        const width = height * chartImage.pixelWidth / chartImage.pixelHeight;
+        addHeading('Hyetograph');
+        ensureSpace(height);
+        items.push({ type: 'image', x: MARGIN + (CONTENT_WIDTH - width) / 2, y: cursor, width, height, image: chartImage });
+        cursor += height + 4;
+    }
+
+    // --- Summary ---
+    addHeading('Summary');
+    addTable(['Parameter', 'Value', 'Unit'],
+        getStormSummaryRows(result).map(row => row.map(formatCellText)),
+        ['left', 'right', 'left'], BODY_SIZE);
+    const notes = getExportNotes(result);
+    if (notes.length > 0) {
+        cursor += 4;
+        notes.forEach(note => addParagraph(note, 8, 0.25));
+    }
+
+    // --- Step Table ---
+    const { detailedData, intensityUnit, depthUnit } = result;
+    const hasExcess = result.excessIntensityData !== undefined;
+    const timeLabel = getTimeFormatLabel(result, inputs.timeFormat);
+    addHeading('Detailed Hyetograph');
+    addTable(
+        [
+            `Time Start (${timeLabel})`,
+            `Time End (${timeLabel})`,
+            `Intensity (${intensityUnit})`,
+            `Depth per Step (${depthUnit})`,
+            `Cumulative Depth (${depthUnit})`,
+            ...(hasExcess ? [`Excess per Step (${depthUnit})`, `Loss per Step (${depthUnit})`, `Cumulative Runoff (${depthUnit})`] : []),
+        ],
+        detailedData.map(step => [
+            formatStepTime(step, 'start', result, inputs.timeFormat),
+            formatStepTime(step, 'end', result, inputs.timeFormat),
+            step.intensity.toFixed(5),
+            step.depthStep.toFixed(5),
+            step.cumulativeDepth.toFixed(5),
+            ...(hasExcess ? [(step.excessDepth ?? 0).toFixed(5), (step.lossDepth ?? 0).toFixed(5), (step.cumulativeRunoff ?? 0).toFixed(5)] : []),
+        ]),
+        ['left', 'left', ...Array<'right'>(hasExcess ? 6 : 3).fill('right')],
+    );
+
+    // --- Running Header and Footer ---
+    const stamp = `${formatDate(generatedAt)} ${String(generatedAt.getHours()).padStart(2, '0')}:${String(generatedAt.getMinutes()).padStart(2, '0')}`;
+    const headerTitle = wrapText(projectTitle, 8, CONTENT_WIDTH - 150)[0];
+    pages.forEach((page, index) => {
+        page.items.push(
+            { type: 'text', x: MARGIN, y: 40, text: headerTitle, size: 8, bold: true, gray: 0.3 },
+            { type: 'text', x: MARGIN + CONTENT_WIDTH, y: 40, text: 'GStorm Design Storm Report', size: 8, gray: 0.3, align: 'right' },
+            { type: 'line', x1: MARGIN, y1: 46, x2: MARGIN + CONTENT_WIDTH, y2: 46, gray: 0.6 },
+            { type: 'line', x1: MARGIN, y1: PDF_PAGE_HEIGHT - 44, x2: MARGIN + CONTENT_WIDTH, y2: PDF_PAGE_HEIGHT - 44, gray: 0.6 },
+            { type: 'text', x: MARGIN, y: PDF_PAGE_HEIGHT - 32, text: `Generated ${stamp}`, size: 8, gray: 0.3 },
+            { type: 'text', x: MARGIN + CONTENT_WIDTH, y: PDF_PAGE_HEIGHT - 32, text: `Page ${index + 1} of ${pages.length}`, size: 8, gray: 0.3, align: 'right' },
+        );
+    });
+
+    return createPdf(pages, `Design Storm Report - ${projectTitle}`, generatedAt);
+}
@@ -0,0 +1,186 @@
+import { CalculationResult, InitialAbstractionRatio, RunoffResult, RunoffStep } from '../types';
+import { INCH_TO_MM, calculatePotentialRetention, calculateScsRunoff, formatTimeLabel } from './tr55';
+
+// --- Constants ---
+const SQ_MI_PER_ACRE = 1 / 640;
+const SQ_MI_PER_HECTARE = 0.00386102;
+const CUBIC_FEET_PER_SQ_MI_INCH = 5280 * 5280 / 12; // Volume of 1 inch of runoff over 1 square mile
+const CUBIC_FEET_PER_ACRE_FOOT = 43560;
+const CUBIC_METERS_PER_CUBIC_FOOT = 0.0283168;
+const UNIT_HYDROGRAPH_CUTOFF = 1e-4; // Truncate the unit hydrograph recession below this fraction of qp
+const MAX_STEP_TO_TC_RATIO = 0.133; // NRCS NEH 630.16 guidance: D <= 0.133 Tc
+
+// Input parameters for the runoff hydrograph calculation
+export interface RunoffInputs {
+    drainageArea: number; // Acres (US) or hectares (metric), matching the storm's depth units
+    curveNumber: number;
+    initialAbstractionRatio?: InitialAbstractionRatio; // Defaults to 0.2
+    timeOfConcentrationHours: number;
+    peakRateFactor: number; // 484 for the standard NRCS dimensionless unit hydrograph
+}
+
+// --- Unit Hydrograph Shape ---
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(x: number): number {
+    const coefficients = [
+        676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+        12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+    ];
+    if (x < 0.5) {
+        return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    }
+    const z = x - 1;
+    let sum = 0.99999999999980993;
+    for (let i = 0; i < coefficients.length; i++) {
+        sum += coefficients[i] / (z + i + 1);
+    }
+    const t = z + coefficients.length - 0.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Peak rate factor implied by a gamma-shaped unit hydrograph q/qp = (t/Tp * e^(1 - t/Tp))^m.
+ * m = 3.7 reproduces the standard NRCS dimensionless unit hydrograph (PRF 484).
+ */
+function peakRateFactorForShape(m: number): number {
+    return 645.33 * Math.exp((m + 1) * Math.log(m) - m - logGamma(m + 1));
+}
+
+/**
+ * Finds the gamma shape factor m whose unit hydrograph has the requested peak rate factor.
+ * @param peakRateFactor Target peak rate factor (e.g., 484, 300).
+ * @returns Shape factor m.
+ */
+export function shapeFactorForPeakRateFactor(peakRateFactor: number): number {
+    let low = 0.05;
+    let high = 50;
+    for (let i = 0; i < 100; i++) {
+        const mid = (low + high) / 2;
+        if (peakRateFactorForShape(mid) < peakRateFactor) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+// --- Runoff Hydrograph ---
+
+/**
+ * Convolves the SCS rainfall excess of a calculated storm with the NRCS dimensionless
+ * unit hydrograph to produce a runoff hydrograph.
+ * The unit hydrograph uses Tp = D/2 + 0.6 Tc, where D is the storm time step.
+ * @param calculationResult Result from calculateHyetograph (gross rainfall).
+ * @param inputs Drainage area, curve number, time of concentration and peak rate factor.
+ * @returns The runoff hydrograph, or null if the inputs cannot produce one.
+ */
+export function calculateRunoffHydrograph(calculationResult: CalculationResult, inputs: RunoffInputs): RunoffResult | null {
+    const { detailedData, depthUnit } = calculationResult;
+    const { drainageArea, curveNumber, initialAbstractionRatio = 0.2, timeOfConcentrationHours, peakRateFactor } = inputs;
+
+    if (detailedData.length === 0) return null;
+    if (!(drainageArea > 0) || !(timeOfConcentrationHours > 0) || !(peakRateFactor > 0) ||
+        !(curveNumber > 0) || curveNumber > 100) {
+        console.error("Invalid inputs provided to calculateRunoffHydrograph.", inputs);
+        return null;
+    }
+
+    const isMetric = depthUnit === 'mm';
+    const depthToInches = isMetric ? 1 / INCH_TO_MM : 1;
+    const areaSqMi = drainageArea * (isMetric ? SQ_MI_PER_HECTARE : SQ_MI_PER_ACRE);
+    const warnings: string[] = [];
+
+    // 1. Rainfall excess per step (inches) from the cumulative gross depth
+    const potentialRetention = calculatePotentialRetention(curveNumber, initialAbstractionRatio);
+    const excessInches: number[] = [];
+    let previousRunoff = 0;
+    detailedData.forEach(step => {
+        const cumulativeRunoff = calculateScsRunoff(step.cumulativeDepth * depthToInches, potentialRetention, initialAbstractionRatio);
+        excessInches.push(Math.max(0, cumulativeRunoff - previousRunoff));
+        previousRunoff = cumulativeRunoff;
+    });
+
+    // 2. Unit hydrograph parameters
+    const stepMinutes = detailedData[0].timeEnd - detailedData[0].timeStart;
+    const stepHours = stepMinutes / 60;
+    const lagHours = 0.6 * timeOfConcentrationHours;
+    const timeToPeakHours = stepHours / 2 + lagHours;
+    const shapeFactor = shapeFactorForPeakRateFactor(peakRateFactor);
+    const unitPeakFlow = peakRateFactor * areaSqMi / timeToPeakHours; // cfs per inch of excess
+
+    if (stepHours > MAX_STEP_TO_TC_RATIO * timeOfConcentrationHours) {
+        warnings.push(`Time step (${stepMinutes} min) exceeds 0.133 Tc (${(MAX_STEP_TO_TC_RATIO * timeOfConcentrationHours * 60).toFixed(1)} min); the peak may be underestimated.`);
+    }
+
+    // 3. Unit hydrograph ordinates at multiples of the time step, truncated once the recession is negligible
+    const unitOrdinates: number[] = [0];
+    for (let k = 1; ; k++) {
+        const ratio = (k * stepHours) / timeToPeakHours;
+        const ordinate = unitPeakFlow * Math.pow(ratio * Math.exp(1 - ratio), shapeFactor);
+        unitOrdinates.push(ordinate);
+        if (ratio > 1 && ordinate < UNIT_HYDROGRAPH_CUTOFF * unitPeakFlow) break;
+    }
+
+    // Rescale so the discretized unit hydrograph holds exactly one inch of runoff
+    const unitVolume = unitOrdinates.reduce((sum, q) => sum + q, 0) * stepHours * 3600;
+    const targetVolume = areaSqMi * CUBIC_FEET_PER_SQ_MI_INCH;
+    const volumeCorrection = unitVolume > 0 ? targetVolume / unitVolume : 0;
+    for (let k = 0; k < unitOrdinates.length; k++) {
+        unitOrdinates[k] *= volumeCorrection;
+    }
+
+    // 4. Discrete convolution: Q(nD) = sum over j of excess[j] * u((n - j) D)
+    const ordinateCount = excessInches.length + unitOrdinates.length;
+    const dischargeCfs: number[] = new Array(ordinateCount).fill(0);
+    excessInches.forEach((excess, j) => {
+        if (excess <= 0) return;
+        for (let k = 1; k < unitOrdinates.length; k++) {
+            dischargeCfs[j + k] += excess * unitOrdinates[k];
+        }
+    });
+
+    // 5. Convert units and collect summary values
+    const flowFactor = isMetric ? CUBIC_METERS_PER_CUBIC_FOOT : 1;
+    const totalDurationMinutes = (ordinateCount - 1) * stepMinutes;
+    const hydrograph: RunoffStep[] = [];
+    const labels: string[] = [];
+    const dischargeData: number[] = [];
+    let peakFlow = 0;
+    let timeToPeak = 0;
+    let volumeCubicFeet = 0;
+
+    dischargeCfs.forEach((q, n) => {
+        const time = n * stepMinutes;
+        const discharge = q * flowFactor;
+        hydrograph.push({ time, discharge });
+        labels.push(formatTimeLabel(time, totalDurationMinutes));
+        dischargeData.push(discharge);
+        volumeCubicFeet += q * stepHours * 3600;
+        if (discharge > peakFlow) {
+            peakFlow = discharge;
+            timeToPeak = time;
+        }
+    });
+
+    const runoffDepthInches = excessInches.reduce((sum, e) => sum + e, 0);
+
+    return {
+        labels,
+        dischargeData,
+        detailedData: hydrograph,
+        peakFlow,
+        timeToPeak,
+        runoffVolume: isMetric ? volumeCubicFeet * CUBIC_METERS_PER_CUBIC_FOOT : volumeCubicFeet / CUBIC_FEET_PER_ACRE_FOOT,
+        runoffDepth: runoffDepthInches / depthToInches,
+        flowUnit: isMetric ? 'm³/s' : 'cfs',
+        volumeUnit: isMetric ? 'm³' : 'acre-ft',
+        lagTime: lagHours * 60,
+        unitHydrographTimeToPeak: timeToPeakHours * 60,
+        peakRateFactor,
+        warnings
+    };
+}
@@ -0,0 +1,161 @@
+import { StormCategory, StormTypeSuggestion } from '../types';
+
+// --- Region Boundaries ---
+
+type LinearRing = [number, number][]; // [longitude, latitude] pairs, GeoJSON order
+
+type RegionGeometry =
+    | { type: 'Polygon'; coordinates: LinearRing[] }
+    | { type: 'MultiPolygon'; coordinates: LinearRing[][] };
+
+interface StormRegionFeature {
+    properties: {
+        name: string;
+        stormCategory: StormCategory;
+        stormSubTypes: string[];
+        priority: number; // Lower is more specific: NRCS regional areas come before the SCS types
+    };
+    geometry: RegionGeometry;
+}
+
+/**
+ * Reads the polygon features of a GeoJSON FeatureCollection. The files are part of the build,
+ * so a parse failure is logged and leaves the lookup without regions rather than breaking the app.
+ * @param geoJsonText GeoJSON FeatureCollection text.
+ * @param label Name of the boundaries, for the console.
+ * @returns The Polygon and MultiPolygon features, or an empty array if parsing fails.
+ */
+function parseRegionFeatures<T extends { geometry: RegionGeometry }>(geoJsonText: string, label: string): T[] {
+    try {
+        const collection = JSON.parse(geoJsonText) as { features?: T[] };
+        if (!Array.isArray(collection.features)) {
+            console.error(`${label}: no features found.`);
+            return [];
+        }
+        return collection.features.filter(feature => feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon');
+    } catch (error) {
+        console.error(`${label} could not be parsed:`, error);
+        return [];
+    }
+}
+
+// Filled by loadStormRegions
+let stormRegions: StormRegionFeature[] = [];
+
+/**
+ * Registers the region boundaries the lookup uses. The GeoJSON text is supplied by the caller
+ * (a Vite ?raw import in the browser, see bundledDistributions.ts; the file read from disk in tests).
+ * @param geoJsonText Text of storm-regions.geojson.
+ */
+export function loadStormRegions(geoJsonText: string): void {
+    stormRegions = parseRegionFeatures<StormRegionFeature>(geoJsonText, 'Storm region boundaries')
+        .sort((a, b) => a.properties.priority - b.properties.priority);
+}
+
+// --- Point-in-Polygon Lookup ---
+
+/**
+ * Ray-casting test of a point against one ring.
+ * @param lon Longitude of the point (degrees).
+ * @param lat Latitude of the point (degrees).
+ * @param ring Closed or open ring of [longitude, latitude] vertices.
+ * @returns True if the point lies inside the ring.
+ */
+function isPointInRing(lon: number, lat: number, ring: LinearRing): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Tests a point against a polygon given as an outer ring followed by optional holes.
+ */
+function isPointInPolygon(lon: number, lat: number, rings: LinearRing[]): boolean {
+    if (rings.length === 0 || !isPointInRing(lon, lat, rings[0])) return false;
+    return !rings.slice(1).some(hole => isPointInRing(lon, lat, hole));
+}
+
+/**
+ * Tests a point against a Polygon or MultiPolygon geometry.
+ */
+function isPointInGeometry(lon: number, lat: number, geometry: RegionGeometry): boolean {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    return polygons.some(rings => isPointInPolygon(lon, lat, rings));
+}
+
+/**
+ * Suggests storm distributions for a location from the bundled region boundaries.
+ * Works offline. NRCS regional areas and the Alaska, Hawaii and Puerto Rico extents follow
+ * state outlines, but the SCS type boundaries in the lower 48 are generalized from TR-55
+ * Figure B-2, so a suggestion still needs checking near a boundary.
+ * @param lat Latitude (decimal degrees).
+ * @param lon Longitude (decimal degrees).
+ * @returns Matching regions, most specific first (an NRCS regional area, then the SCS type);
+ *          empty if the location is outside every region or no regions are loaded.
+ */
+export function suggestStormTypes(lat: number, lon: number): StormTypeSuggestion[] {
+    if (!isFinite(lat) || !isFinite(lon)) return [];
+
+    const suggestions: StormTypeSuggestion[] = [];
+    const matchedCategories = new Set<StormCategory>();
+    for (const feature of stormRegions) {
+        const { name, stormCategory, stormSubTypes } = feature.properties;
+        // Regions of a category do not overlap by design, but the SCS Type II extent is a catch-all
+        if (matchedCategories.has(stormCategory)) continue;
+
+        if (isPointInGeometry(lon, lat, feature.geometry)) {
+            suggestions.push({ regionName: name, stormCategory, stormSubTypes });
+            matchedCategories.add(stormCategory);
+        }
+    }
+    return suggestions;
+}
+
+// --- NOAA Atlas 14 Temporal Regions ---
+
+// An HDSC temporal distribution region: the volume and region of its atlas14/*.csv tables
+export interface Atlas14Region {
+    volume: number;
+    region: string;
+}
+
+interface Atlas14RegionFeature {
+    properties: Atlas14Region;
+    geometry: RegionGeometry;
+}
+
+// Filled by loadAtlas14Regions; empty unless atlas14/regions.geojson is supplied
+let atlas14Regions: Atlas14RegionFeature[] = [];
+
+/**
+ * Registers the HDSC temporal region boundaries (atlas14/regions.geojson, see atlas14/README.md).
+ * Features whose volume or region is missing are skipped with a console error.
+ * @param geoJsonText GeoJSON FeatureCollection text.
+ */
+export function loadAtlas14Regions(geoJsonText: string): void {
+    atlas14Regions = parseRegionFeatures<Atlas14RegionFeature>(geoJsonText, 'Atlas 14 temporal region boundaries').filter((feature, index) => {
+        const { volume, region } = feature.properties ?? {};
+        const valid = Number.isInteger(volume) && typeof region === 'string' && region.trim() !== '';
+        if (!valid) console.error(`Atlas 14 temporal region boundaries: feature ${index + 1} needs a whole-number volume and a region.`);
+        return valid;
+    });
+}
+
+/**
+ * Finds the Atlas 14 temporal region containing a location, the way suggestStormTypes finds
+ * the storm type regions.
+ * @param lat Latitude (decimal degrees).
+ * @param lon Longitude (decimal degrees).
+ * @returns The volume and region, or null if no loaded region contains the location.
+ */
+export function findAtlas14Region(lat: number, lon: number): Atlas14Region | null {
+    if (!isFinite(lat) || !isFinite(lon)) return null;
+    const feature = atlas14Regions.find(region => isPointInGeometry(lon, lat, region.geometry));
+    return feature ? { volume: feature.properties.volume, region: feature.properties.region.trim() } : null;
+}
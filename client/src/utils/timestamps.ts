@@ -0,0 +1,191 @@
+import { CalculationResult, StormCalendar, TimeFormat } from '../types';
+
+// --- Constants ---
+const MS_PER_MINUTE = 60000;
+const MAX_UTC_OFFSET_MINUTES = 14 * 60; // UTC-12:00 to UTC+14:00 cover every time zone
+
+// --- Parsing ---
+
+/**
+ * Parses a UTC offset such as "-05:00", "+0530", "+9" or "Z".
+ * @param text The offset text.
+ * @returns The offset in minutes east of UTC, or null if it is not a valid offset.
+ */
+export function parseUtcOffset(text: string): number | null {
+    const trimmed = text.trim();
+    if (trimmed === '' || /^(Z|UTC)$/i.test(trimmed)) return 0;
+    const match = trimmed.match(/^(?:UTC)?([+-])(\d{1,2})(?::?(\d{2}))?$/i);
+    if (!match) return null;
+    const minutes = parseInt(match[2], 10) * 60 + (match[3] ? parseInt(match[3], 10) : 0);
+    if (minutes > MAX_UTC_OFFSET_MINUTES || (match[3] && parseInt(match[3], 10) >= 60)) return null;
+    return match[1] === '-' ? -minutes : minutes;
+}
+
+// Formatters that read the wall-clock fields of an instant in a time zone, cached by zone name
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = zoneFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+        });
+        zoneFormatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Checks that a name is an IANA time zone the browser knows, e.g. "America/Chicago".
+ * @param timeZone The zone name.
+ * @returns Whether the zone can be used.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (timeZone.trim() === '' || !/[A-Za-z]/.test(timeZone)) return false;
+    try {
+        getZoneFormatter(timeZone.trim());
+        return true;
+    } catch (error) {
+        return false; // RangeError for unknown zones
+    }
+}
+
+/**
+ * UTC offset of an IANA time zone at an instant (daylight saving time included).
+ * @param timeZone The zone name.
+ * @param timestamp Epoch milliseconds (UTC).
+ * @returns Minutes east of UTC.
+ */
+export function getTimeZoneOffset(timeZone: string, timestamp: number): number {
+    const parts = getZoneFormatter(timeZone).formatToParts(new Date(timestamp));
+    const field = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(part => part.type === type)?.value ?? '0', 10);
+    const wallClockAsUtc = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+    return Math.round((wallClockAsUtc - Math.floor(timestamp / 1000) * 1000) / MS_PER_MINUTE);
+}
+
+/**
+ * The browser's time zone, for the storm start default.
+ * @returns The IANA zone name, or the current UTC offset if the browser does not report one.
+ */
+export function getBrowserTimeZone(): string {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : formatUtcOffset(-new Date().getTimezoneOffset());
+}
+
+/**
+ * Parses a storm start given as local date and time in a time zone.
+ * @param localDateTime "YYYY-MM-DDTHH:MM" (seconds optional; a space may replace the T).
+ * @param timeZone An IANA zone such as "America/Chicago" (local times then follow its daylight saving
+ * changes) or a fixed UTC offset such as "-05:00".
+ * @returns The storm calendar, or null if the date, time or zone is invalid, or the time does not
+ * exist in the zone (skipped by a spring-forward change). A time repeated by a fall-back change
+ * is read as its first occurrence.
+ */
+export function parseStormStart(localDateTime: string, timeZone: string): StormCalendar | null {
+    const match = localDateTime.trim().match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) return null;
+
+    const [year, month, day, hour, minute, second] = match.slice(1).map(part => parseInt(part ?? '0', 10));
+    const localAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+    // Date.UTC rolls invalid fields over (e.g. February 30); reject instead
+    const check = new Date(localAsUtc);
+    if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+        return null;
+    }
+
+    const utcOffsetMinutes = parseUtcOffset(timeZone);
+    if (utcOffsetMinutes !== null) {
+        return { start: localAsUtc - utcOffsetMinutes * MS_PER_MINUTE, utcOffsetMinutes };
+    }
+    const zone = timeZone.trim();
+    if (!isValidTimeZone(zone)) return null;
+
+    // The offsets a day either side cover any change near the time; keep the instants that read back
+    // as the requested wall-clock time and take the earliest
+    const starts = [-1, 1]
+        .map(days => localAsUtc - getTimeZoneOffset(zone, localAsUtc + days * 24 * 60 * MS_PER_MINUTE) * MS_PER_MINUTE)
+        .filter(start => start + getTimeZoneOffset(zone, start) * MS_PER_MINUTE === localAsUtc);
+    if (starts.length === 0) return null;
+    const start = Math.min(...starts);
+    return { start, utcOffsetMinutes: getTimeZoneOffset(zone, start), timeZone: zone };
+}
+
+/**
+ * UTC offset in force at an instant of a dated storm: the zone's offset at that time, or the
+ * calendar's fixed offset.
+ * @param calendar The storm calendar.
+ * @param timestamp Epoch milliseconds (UTC).
+ * @returns Minutes east of UTC.
+ */
+export function getCalendarUtcOffset(calendar: StormCalendar, timestamp: number): number {
+    return calendar.timeZone ? getTimeZoneOffset(calendar.timeZone, timestamp) : calendar.utcOffsetMinutes;
+}
+
+/**
+ * Names the time zone of a dated storm for headers and notes.
+ * @param calendar The storm calendar.
+ * @returns e.g. "America/Chicago" or "UTC-05:00".
+ */
+export function describeCalendarZone(calendar: StormCalendar): string {
+    return calendar.timeZone ?? `UTC${formatUtcOffset(calendar.utcOffsetMinutes)}`;
+}
+
+// --- Formatting ---
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0');
+}
+
+/**
+ * Formats a UTC offset as ±HH:MM.
+ * @param offsetMinutes Minutes east of UTC.
+ * @returns The offset, e.g. "-05:00".
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+    return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * Formats an instant in the storm's UTC offset.
+ * @param timestamp Epoch milliseconds (UTC).
+ * @param utcOffsetMinutes Offset the time is written in.
+ * @param format 'iso' for YYYY-MM-DDTHH:MM:SS±HH:MM, 'us' for MM/DD/YYYY HH:MM.
+ * @returns The formatted date and time.
+ */
+export function formatTimestamp(timestamp: number, utcOffsetMinutes: number, format: Exclude<TimeFormat, 'relative'>): string {
+    // Shift so the UTC fields read as local time at the offset
+    const local = new Date(timestamp + utcOffsetMinutes * MS_PER_MINUTE);
+    const date = { year: local.getUTCFullYear(), month: pad(local.getUTCMonth() + 1), day: pad(local.getUTCDate()) };
+    const time = `${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}`;
+    return format === 'iso'
+        ? `${date.year}-${date.month}-${date.day}T${time}:${pad(local.getUTCSeconds())}${formatUtcOffset(utcOffsetMinutes)}`
+        : `${date.month}/${date.day}/${date.year} ${time}`;
+}
+
+/**
+ * Formats an instant of a dated storm in local time, with the offset in force at that instant.
+ * @param timestamp Epoch milliseconds (UTC).
+ * @param calendar The storm calendar.
+ * @param format 'iso' or 'us', as formatTimestamp.
+ * @returns The formatted date and time.
+ */
+export function formatCalendarTimestamp(timestamp: number, calendar: StormCalendar, format: Exclude<TimeFormat, 'relative'>): string {
+    return formatTimestamp(timestamp, getCalendarUtcOffset(calendar, timestamp), format);
+}
+
+// --- Results ---
+
+/**
+ * Dates a calculated storm: records the calendar and gives every step its start and end timestamps.
+ * @param result The calculated storm (updated in place).
+ * @param calendar The storm start.
+ */
+export function applyStormCalendar(result: CalculationResult, calendar: StormCalendar): void {
+    result.calendar = calendar;
+    result.detailedData.forEach(step => {
+        step.timestampStart = calendar.start + step.timeStart * MS_PER_MINUTE;
+        step.timestampEnd = calendar.start + step.timeEnd * MS_PER_MINUTE;
+    });
+}
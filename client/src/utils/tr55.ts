@@ -1,14 +1,18 @@
-import { CalculationResult, StormStep } from '../types'; // Define types in a separate file
+import { ArealReductionMethod, CalculationDiagnostic, CalculationResult, ClimateAdjustment, ClimateChangeFactor, DepthDurationPoint, IdfCoefficients, InitialAbstractionRatio, InterpolationMode, RunoffParameters, StormCalendar, StormCategory, StormStep } from '../types'; // Define types in a separate file
+import { applyStormCalendar } from './timestamps';
 
 // --- Constants ---
 export const INCH_TO_MM = 25.4;
+const ACRES_PER_SQ_MI = 640;
+const HECTARES_PER_SQ_MI = 258.999;
+const SQ_KM_PER_SQ_MI = 2.58999;
+const TP29_MAX_AREA_SQ_MI = 400; // Upper limit of the TP-29 curves
+const NERC_MAX_AREA_SQ_KM = 10000; // Upper limit of the NERC (1975) curves
 const DEFAULT_DURATION_HR = 24; // Used for NRCS/Huff implicit duration
-
-// --- Import Raw CSV Data ---
-// Vite/Webpack specific import to get raw text content
-import scsCsvData from './design-storms.csv?raw';
-import nrcsCsvData from './NRCS-design-storms.csv?raw';
-import huffCsvData from './Huff-design-storms.csv?raw';
+const SUPPORTED_DURATIONS_HR = [6, 12, 24]; // Durations the tabulated curves can be keyed by
+export const NOAA_ALTERNATING_BLOCK = 'Alternating Block'; // Sub-type of the NOAA category
+export const CHICAGO_KEIFER_CHU = 'Keifer-Chu'; // Sub-type of the Chicago category
+export const HUFF_QUARTILES = ['Huff Type I', 'Huff Type II', 'Huff Type III', 'Huff Type IV']; // Huff sub-types (first to fourth quartile)
 
 // --- Type Definitions ---
 
@@ -22,37 +26,85 @@ interface DistributionData {
 // Key format: "Category-SubType-DurationHR", e.g., "SCS-Type II-12HR", "NRCS-Northeast Type A-24HR"
 type UnifiedDistributions = Record<string, DistributionData>;
 
+// Adjustments preprocessing made to each curve, keyed like UnifiedDistributions
+type DistributionAdjustments = Record<string, CalculationDiagnostic[]>;
+
 // Structure to hold the extracted sub-types for the UI
 export type StormSubTypes = {
     SCS: string[];
     NRCS: string[];
     Huff: string[];
+    NOAA: string[];
+    Chicago: string[];
+    Custom: string[];
+    Atlas14: string[];
 };
 
+// Layout of the value column in a two-column (time, value) custom distribution file,
+// or 'huff' for a table of Huff probability-level curves
+export type CustomDistributionFormat = 'cumulative' | 'incremental' | 'huff';
+
+// Outcome of registering an uploaded custom distribution
+export interface CustomDistributionRegistration {
+    names: string[];  // Sub-types registered under the 'Custom' category, or Huff curve names (empty on failure)
+    errors: string[]; // Validation errors; nothing is registered when non-empty
+}
+
 // Input parameters specifically for the calculation function
 export interface CalculationInputs {
     totalDepthInput: number;
     durationInput: number; // Now just number, validation happens in App.tsx
-    stormCategory: 'SCS' | 'NRCS' | 'Huff';
+    stormCategory: StormCategory;
     stormSubType: string;
     timeStepMinutes: number;
     depthUnit: 'us' | 'metric';
     durationUnit: 'hours'; // Fixed to hours
+    curveNumber?: number; // Optional SCS curve number for rainfall excess
+    initialAbstractionRatio?: InitialAbstractionRatio; // Defaults to 0.2
+    depthDurationData?: DepthDurationPoint[]; // Required for the NOAA alternating-block category
+    peakPosition?: number; // Alternating-block peak position / Chicago ratio r as a fraction of the duration (defaults to 0.5)
+    idfCoefficients?: IdfCoefficients; // Required for the Chicago category; its IDF depth replaces totalDepthInput
+    huffProbability?: number; // Probability level (%) of a registered Huff curve; omit for the bundled 24-hr curve
+    arealReduction?: { method: ArealReductionMethod; drainageArea: number }; // Area in acres (US) or hectares (metric)
+    climateAdjustment?: ClimateAdjustment; // Applied to the point depth (and each NOAA depth-duration point) before areal reduction
+    interpolationMode?: InterpolationMode; // Mapping of target times onto the cumulative curve (defaults to 'linear')
+    atlas14Probability?: number; // Probability level (%) of an Atlas 14 curve (defaults to 50)
+    peakShift?: number; // Re-orders the curve's blocks so the peak falls at this fraction of the duration; omit for the curve's own timing
+    stormStart?: StormCalendar; // Dates every step from this start; omit for times relative to the storm start
+}
+
+// --- Debug Logging ---
+
+// Receives the engine's tracing of curve parsing and preprocessing; null (the default) keeps it quiet
+type EngineDebugLogger = (...args: unknown[]) => void;
+let engineDebugLogger: EngineDebugLogger | null = null;
+
+/**
+ * Routes the engine's debug tracing to a logger (e.g. console.log in development, standard error
+ * for the CLI's --verbose), or turns it off.
+ * @param logger The logger, or null for none.
+ */
+export function setEngineDebugLogger(logger: EngineDebugLogger | null): void {
+    engineDebugLogger = logger;
+}
+
+function debugLog(...args: unknown[]): void {
+    engineDebugLogger?.(...args);
 }
 
 // --- CSV Parsing and Processing ---
 
 /**
  * Parses a design storm CSV string and calculates cumulative fractions.
- * Handles SCS (multi-duration), NRCS (24hr), and Huff (24hr) formats.
+ * Handles SCS (multi-duration), NRCS (24hr), Huff (24hr) and uploaded Custom formats.
  * @param csvString Raw CSV content.
- * @param category The category ('SCS', 'NRCS', 'Huff') this CSV belongs to.
+ * @param category The category ('SCS', 'NRCS', 'Huff', 'Custom') this CSV belongs to.
  * @param availableSubTypes An object to populate with discovered sub-types.
  * @returns A map of distributions keyed by "Category-SubType-DurationHR".
  */
 function parseAndProcessStormCsv(
     csvString: string,
-    category: 'SCS' | 'NRCS' | 'Huff',
+    category: 'SCS' | 'NRCS' | 'Huff' | 'Custom',
     availableSubTypes: StormSubTypes
 ): UnifiedDistributions {
     const lines = csvString.trim().split('\n');
@@ -67,7 +119,10 @@ function parseAndProcessStormCsv(
     const columnIndices: { [key: string]: number } = {};
     header.forEach((h, index) => { if (h) columnIndices[h] = index; });
 
-    const durationsToParse = category === 'SCS' ? [6, 12, 24] : [DEFAULT_DURATION_HR];
+    // Custom files may carry any of the supported durations; take them from the time columns present
+    const durationsToParse = category === 'SCS' ? [6, 12, 24]
+        : category === 'Custom' ? SUPPORTED_DURATIONS_HR.filter(d => columnIndices[`Minutes - ${d}HR`] !== undefined)
+        : [DEFAULT_DURATION_HR];
     const processedDistributions: UnifiedDistributions = {};
 
     // Store raw intensity data temporarily before calculating cumulative fractions
@@ -109,8 +164,10 @@ function parseAndProcessStormCsv(
                 // Add discovered NRCS sub-type
                 if (!availableSubTypes.NRCS.includes(subType)) availableSubTypes.NRCS.push(subType);
             } else if (category === 'Huff') {
-                 if (!["Huff Type I", "Huff Type II", "Huff Type III", "Huff Type IV"].includes(subType)) return; // Invalid Huff sub-type
+                 if (!HUFF_QUARTILES.includes(subType)) return; // Invalid Huff sub-type
                  if (!availableSubTypes.Huff.includes(subType)) availableSubTypes.Huff.push(subType);
+            } else if (category === 'Custom') {
+                 if (!availableSubTypes.Custom.includes(subType)) availableSubTypes.Custom.push(subType);
             }
 
             // Add SCS types explicitly
@@ -123,12 +180,6 @@ function parseAndProcessStormCsv(
             rawData[combinedKey] = { time_minutes: [], intensity_in_hr: [] };
             let previousTimeMinutes = -Infinity;
 
-            // === DEBUGGING: Log raw lines for a specific key ===
-            const debugKey = "SCS-Type II-24HR"; // <<< CHANGE THIS KEY TO DEBUG DIFFERENT STORMS >>>
-            if (combinedKey === debugKey) {
-                console.log(`\n--- Debugging Raw Data Parsing for ${debugKey} ---`);
-            }
-
             for (let i = 1; i < lines.length; i++) {
                 const line = lines[i].trim();
                 if (!line) continue;
@@ -147,17 +198,14 @@ function parseAndProcessStormCsv(
                     if (!isNaN(hours) && !isNaN(minutes) && !isNaN(seconds)) {
                         currentTimeMinutes = hours * 60 + minutes + seconds / 60;
                     } else {
-                         if (combinedKey === debugKey) console.log(`[${debugKey}] Row ${i + 1}: Skipping due to invalid time format: "${timeStr}"`);
                         continue;
                     }
                 } else {
-                     if (combinedKey === debugKey) console.log(`[${debugKey}] Row ${i + 1}: Skipping due to invalid time format: "${timeStr}"`);
                     continue;
                 }
 
                  if (currentTimeMinutes < previousTimeMinutes) {
                      if(category === 'SCS') {
-                          if (combinedKey === debugKey) console.log(`[${debugKey}] Row ${i + 1}: Skipping due to non-increasing time (${currentTimeMinutes} < ${previousTimeMinutes})`);
                          console.warn(`Skipping row ${i + 1} for ${combinedKey}: Time ${currentTimeMinutes} not increasing from previous ${previousTimeMinutes}.`);
                          continue;
                       }
@@ -168,11 +216,6 @@ function parseAndProcessStormCsv(
                 const intensityStr = values[intensityIndex]?.trim();
                 const intensity = parseFloat(intensityStr);
 
-                // === DEBUGGING: Log parsed values for the target key ===
-                if (combinedKey === debugKey && (i < 5 || i > lines.length - 5)) { // Log first few and last few rows
-                     console.log(`[${debugKey}] Row ${i + 1}: RawLine(start)="${line.substring(0, 50)}..." | Parsed Time=${currentTimeMinutes.toFixed(2)}, Parsed Intensity=${isNaN(intensity) ? 'NaN' : intensity.toFixed(4)}`);
-                }
-
                 if (intensityStr === "" || isNaN(intensity)) {
                      rawData[combinedKey].time_minutes.push(currentTimeMinutes);
                      rawData[combinedKey].intensity_in_hr.push(NaN);
@@ -181,27 +224,11 @@ function parseAndProcessStormCsv(
                      rawData[combinedKey].intensity_in_hr.push(intensity);
                  }
             }
-             // === DEBUGGING: Log final rawData for the target key ===
-             if (combinedKey === debugKey) {
-                  console.log(`[${debugKey}] Finished Parsing Raw Data. Points: ${rawData[combinedKey].time_minutes.length}`);
-                  // Log first and last few points
-                  if (rawData[combinedKey].time_minutes.length > 0) {
-                      console.log(`  First Point: Time=${rawData[combinedKey].time_minutes[0]?.toFixed(2)}, Intensity=${rawData[combinedKey].intensity_in_hr[0]?.toFixed(4)}`);
-                      const lastIdx = rawData[combinedKey].time_minutes.length - 1;
-                      console.log(`  Last Point:  Time=${rawData[combinedKey].time_minutes[lastIdx]?.toFixed(2)}, Intensity=${rawData[combinedKey].intensity_in_hr[lastIdx]?.toFixed(4)}`);
-                  }
-             }
         });
     });
 
     // --- Process Raw Data: Calculate Cumulative Fractions ---
     Object.keys(rawData).forEach(combinedKey => {
-         // === DEBUGGING: Log cumulative calculation start ===
-         const debugKey = "SCS-Type II-24HR"; // <<< CHANGE THIS KEY TO DEBUG DIFFERENT STORMS >>>
-         if (combinedKey === debugKey) {
-             console.log(`\n--- Debugging Cumulative Calculation for ${debugKey} ---`);
-         }
-
         const { time_minutes, intensity_in_hr } = rawData[combinedKey];
         const durationMatch = combinedKey.match(/(\d+)HR$/);
         const stormDurationMinutes = durationMatch ? parseInt(durationMatch[1], 10) * 60 : DEFAULT_DURATION_HR * 60;
@@ -232,28 +259,21 @@ function parseAndProcessStormCsv(
 
             // Skip if interval duration is non-positive (e.g., duplicate times)
             if (timeStepMinutes <= 1e-6) {
-                if (combinedKey === debugKey) console.log(`[${debugKey}] Cumul. Step ${j}: Skipping due to zero/negative duration. CurTime=${currentTime.toFixed(2)}, NextTime=${nextTime.toFixed(2)}`);
                 continue; // Skip this point if it doesn't define a valid interval forward
             }
 
             // Handle NaN intensity - use 0 if intensity for this step is invalid
             if (isNaN(intensityForStep)) {
-                if (combinedKey === debugKey) console.warn(`[${debugKey}] Cumul. Step ${j}: Intensity is NaN at time ${currentTime.toFixed(2)}. Assuming 0 for interval [${currentTime.toFixed(2)} - ${nextTime.toFixed(2)}].`);
                 intensityForStep = 0;
             }
 
             const depthStepInches = intensityForStep * (timeStepMinutes / 60.0);
 
             if (isNaN(depthStepInches) || !isFinite(depthStepInches)) {
-                if (combinedKey === debugKey) console.error(`[${debugKey}] Cumul. Step ${j}: Error calculating depth step (intensity: ${intensityForStep}). Skipping.`);
+                console.error(`${combinedKey} step ${j}: Error calculating depth step (intensity: ${intensityForStep}). Skipping.`);
                 continue;
             }
 
-            // === DEBUGGING: Log cumulative step ===
-            if (combinedKey === debugKey && (j < 5 || j > time_minutes.length - 5)) { // Log first few & last few steps
-                 console.log(`[${debugKey}] Cumul. Step ${j}: Interval=[${currentTime.toFixed(2)} - ${nextTime.toFixed(2)}], Dt=${timeStepMinutes.toFixed(2)}, Intens=${intensityForStep.toFixed(4)}, dD=${depthStepInches.toFixed(4)}, NewCumD=${(totalDepthInches + depthStepInches).toFixed(4)}`);
-            }
-
             totalDepthInches += depthStepInches;
 
             // Add the *end* point of the calculated interval
@@ -262,7 +282,6 @@ function parseAndProcessStormCsv(
             if (Math.abs(nextTime - lastAddedTime) < 1e-6) {
                 // If time is same, update cumulative depth
                 final_cumulative_depths[final_cumulative_depths.length - 1] = totalDepthInches;
-                 if (combinedKey === debugKey) console.log(`[${debugKey}]   -> Updated depth for time ${nextTime.toFixed(2)} to ${totalDepthInches.toFixed(4)}`);
             } else if (nextTime > lastAddedTime) {
                 // Otherwise add new point
                 final_times.push(nextTime);
@@ -270,13 +289,6 @@ function parseAndProcessStormCsv(
             }
         }
 
-         // === DEBUGGING: Log before normalization ===
-          if (combinedKey === debugKey) {
-              console.log(`[${debugKey}] Before Normalization: TotalDepth=${totalDepthInches.toFixed(4)}`);
-              console.log(`  Final Times (${final_times.length}): [${final_times.slice(0,3).map(t=>t.toFixed(2)).join(', ')} ... ${final_times.slice(-3).map(t=>t.toFixed(2)).join(', ')}]`);
-              console.log(`  Cum. Depths (${final_cumulative_depths.length}): [${final_cumulative_depths.slice(0,3).map(d=>d.toFixed(4)).join(', ')} ... ${final_cumulative_depths.slice(-3).map(d=>d.toFixed(4)).join(', ')}]`);
-          }
-
         // --- Normalize to get cumulative fraction ---
         let cumulative_fraction: number[] = [];
         // console.log(`Calculated total depth for ${combinedKey} from CSV intensities: ${totalDepthInches.toFixed(4)} inches`);
@@ -294,13 +306,6 @@ function parseAndProcessStormCsv(
             time_minutes: final_times,
             cumulative_fraction: cumulative_fraction
         };
-
-         // === DEBUGGING: Log after normalization ===
-          if (combinedKey === debugKey) {
-              console.log(`[${debugKey}] After Normalization:`);
-              console.log(`  Final Times (${processedDistributions[combinedKey].time_minutes.length}): [${processedDistributions[combinedKey].time_minutes.slice(0,3).map(t=>t.toFixed(2)).join(', ')} ... ${processedDistributions[combinedKey].time_minutes.slice(-3).map(t=>t.toFixed(2)).join(', ')}]`);
-              console.log(`  Cum. Fractions (${processedDistributions[combinedKey].cumulative_fraction.length}): [${processedDistributions[combinedKey].cumulative_fraction.slice(0,3).map(f=>f.toFixed(4)).join(', ')} ... ${processedDistributions[combinedKey].cumulative_fraction.slice(-3).map(f=>f.toFixed(4)).join(', ')}]`);
-          }
     });
 
     return processedDistributions;
@@ -309,9 +314,10 @@ function parseAndProcessStormCsv(
 /**
  * Pre-processes distributions to ensure they start at (0,0) and end at (Duration, 1.0).
  * @param sourceDistributions The unified distributions map.
+ * @param adjustments Receives the changes made to each curve, so calculations can report them.
  * @returns The processed distributions map.
  */
-function preprocessDistributions(sourceDistributions: UnifiedDistributions): UnifiedDistributions {
+function preprocessDistributions(sourceDistributions: UnifiedDistributions, adjustments: DistributionAdjustments): UnifiedDistributions {
     const processed: UnifiedDistributions = {};
     // console.log("Starting Preprocessing...");
 
@@ -336,10 +342,16 @@ function preprocessDistributions(sourceDistributions: UnifiedDistributions): Uni
 
         let time_minutes = [...sourceData.time_minutes];
         let cumulative_fraction = [...sourceData.cumulative_fraction];
+        const curveLabel = describeDistributionKey(combinedKey);
+        const curveAdjustments: CalculationDiagnostic[] = [];
 
         // 1. Ensure Start Point (0, 0)
         if (time_minutes[0] !== 0 || cumulative_fraction[0] !== 0) {
-            // console.warn(`Preprocessing Warning: Adjusting ${combinedKey} start point.`);
+            curveAdjustments.push({
+                code: 'CURVE_START_ADJUSTED',
+                severity: 'info',
+                message: `${curveLabel}: start point (${time_minutes[0]} min, ${cumulative_fraction[0]}) forced to (0, 0).`
+            });
             if (time_minutes[0] !== 0) {
                 time_minutes.unshift(0);
                 cumulative_fraction.unshift(0); // Add corresponding 0 fraction
@@ -358,14 +370,27 @@ function preprocessDistributions(sourceDistributions: UnifiedDistributions): Uni
         const expectedEndTime = totalDurationMinutes;
 
         // Remove points strictly *after* the expected end time
+        const pointsBeforeTrim = time_minutes.length;
         while (time_minutes.length > 0 && time_minutes[time_minutes.length - 1] > expectedEndTime + 1e-3) { // Allow small tolerance
             time_minutes.pop();
             cumulative_fraction.pop();
         }
+        if (time_minutes.length < pointsBeforeTrim) {
+            curveAdjustments.push({
+                code: 'CURVE_POINTS_TRIMMED',
+                severity: 'warning',
+                message: `${curveLabel}: ${pointsBeforeTrim - time_minutes.length} point(s) after ${expectedEndTime} min removed.`
+            });
+        }
 
         const currentLastIdx = time_minutes.length - 1;
         if (currentLastIdx < 0) { // All points were removed? Should not happen if start point exists.
             console.error(`Preprocessing Error: All points removed for ${combinedKey}. Re-adding start/end.`);
+            curveAdjustments.push({
+                code: 'CURVE_END_ADJUSTED',
+                severity: 'warning',
+                message: `${curveLabel}: no usable points; replaced by a uniform curve from (0, 0) to (${expectedEndTime} min, 1).`
+            });
             time_minutes = [0, expectedEndTime];
             cumulative_fraction = [0, 1.0];
         } else {
@@ -373,13 +398,21 @@ function preprocessDistributions(sourceDistributions: UnifiedDistributions): Uni
             // Check if the last point is the expected end time
             if (Math.abs(currentEndTime - expectedEndTime) > 1e-3) {
                 // Last point is before expected end time, add the end point
-                // console.warn(`Preprocessing Warning: Adding end point for ${combinedKey}.`);
+                curveAdjustments.push({
+                    code: 'CURVE_END_ADJUSTED',
+                    severity: 'info',
+                    message: `${curveLabel}: curve ends at ${currentEndTime} min; end point (${expectedEndTime} min, 1) added.`
+                });
                 time_minutes.push(expectedEndTime);
                 cumulative_fraction.push(1.0); // Force fraction to 1.0
             } else {
                  // Last point is at the correct time, ensure fraction is 1.0
                  if(Math.abs(cumulative_fraction[currentLastIdx] - 1.0) > 1e-3) {
-                    // console.warn(`Preprocessing Warning: Correcting end fraction for ${combinedKey}.`);
+                    curveAdjustments.push({
+                        code: 'CURVE_END_ADJUSTED',
+                        severity: 'warning',
+                        message: `${curveLabel}: end fraction ${cumulative_fraction[currentLastIdx].toFixed(4)} forced to 1.`
+                    });
                     cumulative_fraction[currentLastIdx] = 1.0;
                  }
             }
@@ -405,10 +438,17 @@ function preprocessDistributions(sourceDistributions: UnifiedDistributions): Uni
                     prevFrac = currentFrac;
                  }
              } else {
-                  console.warn(`Preprocessing Warning: Non-monotonic point removed for ${combinedKey} at index ${k} (Time: ${currentTime}, Fraction: ${currentFrac})`);
+                  curveAdjustments.push({
+                      code: 'CURVE_NON_MONOTONIC',
+                      severity: 'warning',
+                      message: `${curveLabel}: non-monotonic point removed at ${currentTime} min (fraction ${currentFrac.toFixed(4)}).`
+                  });
              }
          }
 
+        if (curveAdjustments.length > 0) {
+            adjustments[combinedKey] = curveAdjustments;
+        }
 
         processed[combinedKey] = { time_minutes: finalTimes, cumulative_fraction: finalFracs };
     }
@@ -419,27 +459,542 @@ function preprocessDistributions(sourceDistributions: UnifiedDistributions): Uni
 // --- Parse and Store All Distributions ---
 
 // Initialize structure to hold discovered sub-types
-const discoveredSubTypes: StormSubTypes = { SCS: [], NRCS: [], Huff: [] };
-
-// Parse each CSV
-const scsDistributions = parseAndProcessStormCsv(scsCsvData, 'SCS', discoveredSubTypes);
-const nrcsDistributions = parseAndProcessStormCsv(nrcsCsvData, 'NRCS', discoveredSubTypes);
-const huffDistributions = parseAndProcessStormCsv(huffCsvData, 'Huff', discoveredSubTypes);
-
-// Combine into a single map
-const allDistributionsRaw: UnifiedDistributions = {
-    ...scsDistributions,
-    ...nrcsDistributions,
-    ...huffDistributions
-};
+// NOAA and Chicago storms are built at calculation time, not from a CSV; Custom and Atlas14 are filled at runtime
+const discoveredSubTypes: StormSubTypes = { SCS: [], NRCS: [], Huff: [], NOAA: [NOAA_ALTERNATING_BLOCK], Chicago: [CHICAGO_KEIFER_CHU], Custom: [], Atlas14: [] };
 
-// Preprocess the combined data
-const stormDistributions: UnifiedDistributions = preprocessDistributions(allDistributionsRaw);
-console.log("Final Unified Distributions Ready:", stormDistributions);
+// Filled by loadBundledDistributions (and custom uploads)
+const stormDistributions: UnifiedDistributions = {};
+const distributionAdjustments: DistributionAdjustments = {};
 
 // Export the discovered sub-types for the UI
 export const stormSubTypesByCategory: Readonly<StormSubTypes> = Object.freeze(discoveredSubTypes);
-console.log("Available SubTypes:", stormSubTypesByCategory);
+
+// Raw text of the bundled distribution CSVs
+export interface BundledDistributionCsvs {
+    scs: string;  // design-storms.csv
+    nrcs: string; // NRCS-design-storms.csv
+    huff: string; // Huff-design-storms.csv
+    atlas14?: Record<string, string>; // NOAA Atlas 14 temporal tables (atlas14/*.csv) by file name
+}
+
+/**
+ * Parses and registers the bundled SCS, NRCS and Huff distributions.
+ * The CSV text is supplied by the caller so the engine runs in the browser and the
+ * compiled CLI (Vite ?raw imports, see distributionTables.ts) and in tests (files read from disk).
+ * Call once before calculating.
+ * @param csvs Raw CSV text of each bundled file.
+ */
+export function loadBundledDistributions(csvs: BundledDistributionCsvs): void {
+    // Parse each CSV
+    const scsDistributions = parseAndProcessStormCsv(csvs.scs, 'SCS', discoveredSubTypes);
+    const nrcsDistributions = parseAndProcessStormCsv(csvs.nrcs, 'NRCS', discoveredSubTypes);
+    const huffDistributions = parseAndProcessStormCsv(csvs.huff, 'Huff', discoveredSubTypes);
+
+    // Combine into a single map
+    const allDistributionsRaw: UnifiedDistributions = {
+        ...scsDistributions,
+        ...nrcsDistributions,
+        ...huffDistributions
+    };
+
+    // Preprocess the combined data
+    Object.assign(stormDistributions, preprocessDistributions(allDistributionsRaw, distributionAdjustments));
+
+    // Atlas 14 tables are optional data files; a bad file is skipped rather than blocking the rest
+    Object.entries(csvs.atlas14 ?? {}).forEach(([fileName, csvText]) => {
+        const registration = registerAtlas14TemporalCsv(fileName, csvText);
+        if (registration.errors.length > 0) {
+            console.error(`Skipping Atlas 14 temporal distribution ${fileName}:`, registration.errors);
+        }
+    });
+    debugLog("Final Unified Distributions Ready:", stormDistributions);
+    debugLog("Available SubTypes:", stormSubTypesByCategory);
+}
+
+// --- Custom (Uploaded) Distributions ---
+
+/**
+ * Parses a time cell as minutes. Accepts H:MM[:SS] or a plain number in the given unit.
+ * @returns Minutes, or NaN if the cell is not a valid time.
+ */
+function parseTimeCell(cell: string, minutesPerUnit: number): number {
+    const timeParts = cell.split(':');
+    if (timeParts.length >= 2) {
+        const hours = parseInt(timeParts[0], 10);
+        const minutes = parseInt(timeParts[1], 10);
+        const seconds = timeParts.length > 2 ? parseInt(timeParts[2], 10) : 0;
+        if (isNaN(hours) || isNaN(minutes) || isNaN(seconds)) return NaN;
+        return hours * 60 + minutes + seconds / 60;
+    }
+    const value = Number(cell);
+    return cell !== '' && !isNaN(value) ? value * minutesPerUnit : NaN;
+}
+
+/**
+ * Parses a simple two-column (time, value) distribution.
+ * Time is H:MM or a number in hours (or minutes if the header mentions "min").
+ * Cumulative values must not decrease; incremental values apply to the interval ending
+ * at their row's time and must not be negative. Values are normalized to end at 1.0.
+ * @returns The cumulative distribution and any validation errors.
+ */
+function parseTwoColumnDistribution(
+    lines: string[],
+    format: CustomDistributionFormat
+): { distribution: DistributionData | null; errors: string[] } {
+    const errors: string[] = [];
+    const times: number[] = [];
+    const values: number[] = [];
+
+    // An optional header row is detected by a non-numeric value cell
+    const firstCells = lines[0].split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+    const hasHeader = isNaN(Number(firstCells[1]));
+    const minutesPerUnit = hasHeader && /min/i.test(firstCells[0]) ? 1 : 60;
+
+    for (let i = hasHeader ? 1 : 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+        const cells = line.split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+        const rowNumber = i + 1;
+        if (cells.length < 2) {
+            errors.push(`Row ${rowNumber}: expected two columns (time, value).`);
+            continue;
+        }
+        const time = parseTimeCell(cells[0], minutesPerUnit);
+        const value = Number(cells[1]);
+        if (isNaN(time)) {
+            errors.push(`Row ${rowNumber}: invalid time "${cells[0]}".`);
+            continue;
+        }
+        if (cells[1] === '' || isNaN(value)) {
+            errors.push(`Row ${rowNumber}: invalid value "${cells[1]}".`);
+            continue;
+        }
+        if (times.length > 0 && time <= times[times.length - 1]) {
+            errors.push(`Row ${rowNumber}: time ${cells[0]} does not increase from the previous row.`);
+            continue;
+        }
+        if (format === 'cumulative' && values.length > 0 && value < values[values.length - 1]) {
+            errors.push(`Row ${rowNumber}: cumulative value ${value} is less than the previous value ${values[values.length - 1]}; cumulative distributions must not decrease.`);
+            continue;
+        }
+        if (format === 'incremental' && value < 0) {
+            errors.push(`Row ${rowNumber}: incremental value ${value} is negative.`);
+            continue;
+        }
+        times.push(time);
+        values.push(value);
+    }
+
+    if (errors.length > 0) return { distribution: null, errors };
+    if (times.length < 2) {
+        return { distribution: null, errors: ['The file needs at least two data rows.'] };
+    }
+
+    // Convert to cumulative values starting at (0, 0)
+    const startsAtZero = times[0] <= 0;
+    const cumulativeTimes = startsAtZero ? [...times] : [0, ...times];
+    const cumulative: number[] = [0];
+    values.forEach((value, i) => {
+        if (startsAtZero && i === 0) return; // The first row only anchors the curve at time zero
+        if (format === 'cumulative') {
+            cumulative.push(value - (startsAtZero ? values[0] : 0));
+        } else {
+            cumulative.push(cumulative[cumulative.length - 1] + value);
+        }
+    });
+
+    const total = cumulative[cumulative.length - 1];
+    if (!(total > 0)) {
+        return { distribution: null, errors: ['The distribution has no rainfall (total is zero).'] };
+    }
+
+    return {
+        distribution: {
+            time_minutes: cumulativeTimes,
+            cumulative_fraction: cumulative.map(c => c / total)
+        },
+        errors: []
+    };
+}
+
+/**
+ * Registers an uploaded distribution under the 'Custom' category.
+ * Accepts the bundled design-storms.csv layout ("Minutes - 24HR", "Name - 24HR" intensity
+ * columns) or a two-column time/value file, which is registered under the given name.
+ * The curve must span 6, 12 or 24 hours and have a non-decreasing cumulative fraction.
+ * @param name Sub-type name for two-column files (ignored for the design-storms layout).
+ * @param csvText Raw CSV content.
+ * @param format Whether two-column values are cumulative or incremental.
+ * @returns The registered sub-type names, or validation errors.
+ */
+export function registerCustomDistribution(name: string, csvText: string, format: CustomDistributionFormat): CustomDistributionRegistration {
+    const lines = csvText.trim().split(/\r?\n/);
+    const trimmedName = name.trim();
+    if (lines.length < 2) {
+        return { names: [], errors: ['The file is empty or has no data rows.'] };
+    }
+
+    const header = lines[0].trim().split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+    const isDesignStormLayout = header.some(h => /^Minutes - \d+HR$/.test(h));
+    const errors: string[] = [];
+    let parsed: UnifiedDistributions = {};
+    const names: string[] = [];
+
+    if (isDesignStormLayout) {
+        const fileSubTypes: StormSubTypes = { SCS: [], NRCS: [], Huff: [], NOAA: [], Chicago: [], Custom: [], Atlas14: [] };
+        parsed = parseAndProcessStormCsv(csvText, 'Custom', fileSubTypes);
+        names.push(...fileSubTypes.Custom);
+        if (names.length === 0) {
+            errors.push('No "Name - 6HR", "Name - 12HR" or "Name - 24HR" distribution columns were found.');
+        }
+    } else {
+        if (!trimmedName) {
+            errors.push('Enter a name for the distribution.');
+        } else if (trimmedName.includes('-')) {
+            errors.push('Distribution names cannot contain "-".');
+        }
+        const { distribution, errors: parseErrors } = parseTwoColumnDistribution(lines, format);
+        errors.push(...parseErrors);
+        if (distribution) {
+            const durationHours = distribution.time_minutes[distribution.time_minutes.length - 1] / 60;
+            const roundedHours = Math.round(durationHours);
+            if (Math.abs(durationHours - roundedHours) > 1e-6 || !SUPPORTED_DURATIONS_HR.includes(roundedHours)) {
+                errors.push(`The distribution must span 6, 12 or 24 hours (it spans ${durationHours.toFixed(2)} hours).`);
+            } else if (trimmedName) {
+                parsed[`Custom-${trimmedName}-${roundedHours}HR`] = distribution;
+                names.push(trimmedName);
+            }
+        }
+    }
+
+    // Every curve must be monotonic before it is accepted
+    Object.entries(parsed).forEach(([key, data]) => {
+        for (let k = 1; k < data.cumulative_fraction.length; k++) {
+            if (data.cumulative_fraction[k] < data.cumulative_fraction[k - 1] - 1e-6) {
+                errors.push(`${key.replace(/^Custom-/, '')}: cumulative fraction decreases at ${formatTimeLabel(data.time_minutes[k], Infinity)} (negative intensity or depth).`);
+                break;
+            }
+        }
+    });
+
+    const conflicting = names.filter(n => discoveredSubTypes.Custom.includes(n));
+    if (conflicting.length > 0) {
+        errors.push(`A custom distribution named "${conflicting.join('", "')}" already exists.`);
+    }
+
+    if (errors.length > 0) return { names: [], errors };
+
+    Object.assign(stormDistributions, preprocessDistributions(parsed, distributionAdjustments));
+    discoveredSubTypes.Custom.push(...names);
+    return { names, errors: [] };
+}
+
+/**
+ * Removes a custom distribution (all durations) from the registry.
+ * @param name The custom sub-type name.
+ */
+export function unregisterCustomDistribution(name: string): void {
+    Object.keys(stormDistributions)
+        .filter(key => key.startsWith(`Custom-${name}-`))
+        .forEach(key => {
+            delete stormDistributions[key];
+            delete distributionAdjustments[key];
+        });
+    const index = discoveredSubTypes.Custom.indexOf(name);
+    if (index >= 0) discoveredSubTypes.Custom.splice(index, 1);
+}
+
+/**
+ * Returns the durations (hours, ascending) a distribution is published (or was uploaded) for.
+ * @param category The storm category.
+ * @param subType The sub-type name.
+ */
+export function getPublishedDurations(category: StormCategory, subType: string): number[] {
+    const prefix = `${category}-${subType}-`;
+    return Object.keys(stormDistributions)
+        .filter(key => key.startsWith(prefix) && /^\d+HR$/.test(key.slice(prefix.length)))
+        .map(key => parseInt(key.slice(prefix.length), 10))
+        .sort((a, b) => a - b);
+}
+
+
+// --- Huff Probability-Level Curves ---
+
+// Registered probability-level curves, keyed by quartile sub-type then probability (%)
+const huffProbabilityCurves: Record<string, Record<number, DistributionData>> = {};
+
+/**
+ * Resolves a quartile cell ("I", "1", "First", "Huff Type I") to its Huff sub-type.
+ * @returns The sub-type name, or null if the cell is not a quartile.
+ */
+function parseHuffQuartile(cell: string): string | null {
+    const aliases = [['i', '1', 'first'], ['ii', '2', 'second'], ['iii', '3', 'third'], ['iv', '4', 'fourth']];
+    const normalized = cell.toLowerCase().replace(/^huff\s+/, '').replace(/^type\s+/, '').replace(/\s*quartile$/, '').trim();
+    const index = aliases.findIndex(names => names.includes(normalized));
+    return index >= 0 ? HUFF_QUARTILES[index] : null;
+}
+
+/**
+ * Display name of a Huff probability-level curve (e.g., "Huff Type I 10%").
+ */
+export function formatHuffProbabilityName(quartile: string, probability: number): string {
+    return `${quartile} ${probability}%`;
+}
+
+/**
+ * Registers a table of Huff probability-level curves, such as the ISWS Bulletin 71 tables.
+ * Layout: a header "Quartile,Probability,0,10,...,100" giving percent of storm time, then one
+ * row per curve with the cumulative percent (or fraction) of storm rainfall at each time.
+ * Curves are dimensionless in time and apply to any storm duration.
+ * @param csvText Raw CSV content.
+ * @returns The registered curve names, or validation errors.
+ */
+export function registerHuffProbabilityCurves(csvText: string): CustomDistributionRegistration {
+    const lines = csvText.trim().split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length < 2) {
+        return { names: [], errors: ['The file is empty or has no data rows.'] };
+    }
+
+    const errors: string[] = [];
+    const header = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+    const timePercents = header.slice(2).map(h => parseFloat(h.replace('%', '')));
+    if (timePercents.length < 2 || timePercents.some(isNaN)) {
+        errors.push('Header must be "Quartile,Probability" followed by percent-of-storm-time columns (e.g., 0,10,...,100).');
+    } else if (timePercents[0] !== 0 || timePercents[timePercents.length - 1] !== 100 ||
+               timePercents.some((t, i) => i > 0 && t <= timePercents[i - 1])) {
+        errors.push('Percent-of-storm-time columns must increase from 0 to 100.');
+    }
+    if (errors.length > 0) return { names: [], errors };
+
+    const parsed: { quartile: string; probability: number; curve: DistributionData }[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        const cells = lines[i].split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+        const rowNumber = i + 1;
+        const quartile = parseHuffQuartile(cells[0]);
+        const probability = Number(cells[1]);
+        const values = cells.slice(2, 2 + timePercents.length).map(Number);
+        if (!quartile) {
+            errors.push(`Row ${rowNumber}: unknown quartile "${cells[0]}" (use I, II, III or IV).`);
+            continue;
+        }
+        if (cells[1] === '' || !(probability > 0 && probability < 100)) {
+            errors.push(`Row ${rowNumber}: probability "${cells[1]}" must be between 0 and 100.`);
+            continue;
+        }
+        if (values.length !== timePercents.length || values.some(isNaN)) {
+            errors.push(`Row ${rowNumber}: expected ${timePercents.length} numeric rainfall values.`);
+            continue;
+        }
+        if (values[0] !== 0 || !(values[values.length - 1] > 0)) {
+            errors.push(`Row ${rowNumber}: rainfall must start at 0 and end above 0.`);
+            continue;
+        }
+        const decreaseIndex = values.findIndex((v, k) => k > 0 && v < values[k - 1]);
+        if (decreaseIndex > 0) {
+            errors.push(`Row ${rowNumber}: cumulative rainfall decreases at ${timePercents[decreaseIndex]}% of storm time.`);
+            continue;
+        }
+        if (huffProbabilityCurves[quartile]?.[probability] || parsed.some(p => p.quartile === quartile && p.probability === probability)) {
+            errors.push(`Row ${rowNumber}: a ${formatHuffProbabilityName(quartile, probability)} curve already exists.`);
+            continue;
+        }
+        // Stored on a 24-hr time base; calculateHyetograph rescales it to the storm duration
+        const total = values[values.length - 1];
+        parsed.push({
+            quartile,
+            probability,
+            curve: {
+                time_minutes: timePercents.map(t => t / 100 * DEFAULT_DURATION_HR * 60),
+                cumulative_fraction: values.map(v => v / total)
+            }
+        });
+    }
+
+    if (errors.length > 0) return { names: [], errors };
+
+    parsed.forEach(({ quartile, probability, curve }) => {
+        huffProbabilityCurves[quartile] = { ...huffProbabilityCurves[quartile], [probability]: curve };
+    });
+    return { names: parsed.map(p => formatHuffProbabilityName(p.quartile, p.probability)), errors: [] };
+}
+
+/**
+ * Removes a Huff probability-level curve from the registry.
+ * @param name The curve name from formatHuffProbabilityName.
+ */
+export function unregisterHuffProbabilityCurve(name: string): void {
+    Object.keys(huffProbabilityCurves).forEach(quartile => {
+        Object.keys(huffProbabilityCurves[quartile]).map(Number).forEach(probability => {
+            if (formatHuffProbabilityName(quartile, probability) === name) {
+                delete huffProbabilityCurves[quartile][probability];
+            }
+        });
+    });
+}
+
+/**
+ * Returns the registered probability levels (%, ascending) for a Huff quartile.
+ * @param quartile The Huff sub-type (e.g., 'Huff Type I').
+ */
+export function getHuffProbabilityLevels(quartile: string): number[] {
+    return Object.keys(huffProbabilityCurves[quartile] ?? {}).map(Number).sort((a, b) => a - b);
+}
+
+
+// --- NOAA Atlas 14 Temporal Distributions ---
+
+// Probability levels (%) registered for each Atlas 14 sub-type, e.g. "Vol. 2 Region 1 First Quartile"
+const atlas14ProbabilityLevels: Record<string, number[]> = {};
+
+// Section titles of the NOAA temporal distribution tables and the sub-type suffix they map to
+const ATLAS14_CASES: [RegExp, string][] = [
+    [/first[\s-]*quartile/i, 'First Quartile'],
+    [/second[\s-]*quartile/i, 'Second Quartile'],
+    [/third[\s-]*quartile/i, 'Third Quartile'],
+    [/fourth[\s-]*quartile/i, 'Fourth Quartile'],
+    [/all[\s-]*cases/i, 'All Cases'],
+];
+
+/**
+ * Display name (and distribution key sub-type) of one Atlas 14 probability-level curve.
+ */
+export function formatAtlas14CurveName(subType: string, probability: number): string {
+    return `${subType} ${probability}%`;
+}
+
+/**
+ * Registers one NOAA Atlas 14 temporal distribution table (one volume, region and duration).
+ * The file name carries what the table does not: v<volume>_<region>_<hours>h.csv, e.g. v2_1_24h.csv.
+ * The table holds a section per quartile (and "all cases"), each with a header row of probability
+ * levels (90%, 80%, ...) followed by rows of time (hours or percent of duration) and cumulative
+ * percent of precipitation, as published by the NOAA Hydrometeorological Design Studies Center.
+ * @param fileName File name (a leading path is ignored).
+ * @param csvText Raw CSV content.
+ * @returns The registered sub-types, or validation errors.
+ */
+export function registerAtlas14TemporalCsv(fileName: string, csvText: string): CustomDistributionRegistration {
+    const nameMatch = fileName.match(/(?:^|\/)v(\d+)_([A-Za-z0-9]+)_(\d+)h\.csv$/i);
+    if (!nameMatch) {
+        return { names: [], errors: [`${fileName}: name must follow v<volume>_<region>_<hours>h.csv (e.g., v2_1_24h.csv).`] };
+    }
+    const [, volume, region, durationText] = nameMatch;
+    const durationHours = parseInt(durationText, 10);
+
+    // Collect each section's probability levels and rows
+    const sections: { label: string; levels: number[]; rows: number[][] }[] = [];
+    csvText.split(/\r?\n/).forEach(line => {
+        const cells = line.split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+        const caseMatch = ATLAS14_CASES.find(([pattern]) => pattern.test(line));
+        if (caseMatch && isNaN(parseFloat(cells[0]))) {
+            sections.push({ label: caseMatch[1], levels: [], rows: [] });
+        }
+        const current = sections[sections.length - 1];
+        if (!current) return;
+        if (current.levels.length === 0 && cells.slice(1).some(c => /^\d+(\.\d+)?\s*%$/.test(c))) {
+            // The header may share the section title's line
+            current.levels = cells.slice(1).filter(c => c !== '').map(c => parseFloat(c));
+        } else if (current.levels.length > 0 && cells[0] !== '' && !isNaN(Number(cells[0]))) {
+            current.rows.push(cells.slice(0, current.levels.length + 1).map(Number));
+        }
+    });
+    // Titles that merely mention a case (e.g., a file heading) leave empty sections behind
+    const tables = sections.filter(section => section.levels.length > 0 || section.rows.length > 0);
+
+    const errors: string[] = [];
+    const parsed: UnifiedDistributions = {};
+    const names: string[] = [];
+    if (tables.length === 0) {
+        errors.push(`${fileName}: no quartile sections found (expected titles such as "First-quartile" or "All cases").`);
+    }
+    tables.forEach(({ label, levels, rows }) => {
+        const subType = `Vol. ${volume} Region ${region} ${label}`;
+        if (levels.some(isNaN) || rows.length < 2 || rows.some(row => row.length !== levels.length + 1 || row.some(isNaN))) {
+            errors.push(`${fileName} (${label}): expected a header of probability levels and at least two complete numeric rows.`);
+            return;
+        }
+        // Time may be in hours or percent of duration; either way the last row is the end of the storm
+        const lastTime = rows[rows.length - 1][0];
+        const time_minutes = rows.map(row => row[0] / lastTime * durationHours * 60);
+        levels.forEach((probability, column) => {
+            const values = rows.map(row => row[column + 1]);
+            const total = values[values.length - 1];
+            if (!(total > 0) || values.some((v, k) => k > 0 && v < values[k - 1])) {
+                errors.push(`${fileName} (${label} ${probability}%): cumulative precipitation must increase to a positive total.`);
+                return;
+            }
+            const key = `Atlas14-${formatAtlas14CurveName(subType, probability)}-${durationHours}HR`;
+            if (stormDistributions[key]) {
+                errors.push(`${fileName}: the ${formatAtlas14CurveName(subType, probability)} ${durationHours}-hr curve is already registered.`);
+                return;
+            }
+            parsed[key] = { time_minutes: [...time_minutes], cumulative_fraction: values.map(v => v / total) };
+        });
+        if (!names.includes(subType)) names.push(subType);
+    });
+
+    if (errors.length > 0) return { names: [], errors };
+
+    Object.assign(stormDistributions, preprocessDistributions(parsed, distributionAdjustments));
+    tables.forEach(({ label, levels }) => {
+        const subType = `Vol. ${volume} Region ${region} ${label}`;
+        atlas14ProbabilityLevels[subType] = [...new Set([...(atlas14ProbabilityLevels[subType] ?? []), ...levels])].sort((a, b) => a - b);
+    });
+    names.filter(n => !discoveredSubTypes.Atlas14.includes(n)).forEach(n => discoveredSubTypes.Atlas14.push(n));
+    return { names, errors: [] };
+}
+
+/**
+ * Returns the registered probability levels (%, ascending) for an Atlas 14 sub-type.
+ * @param subType The sub-type (e.g., 'Vol. 2 Region 1 First Quartile').
+ */
+export function getAtlas14ProbabilityLevels(subType: string): number[] {
+    return atlas14ProbabilityLevels[subType] ?? [];
+}
+
+/**
+ * Returns the registered Atlas 14 sub-types of one volume, in registration order.
+ * @param volume The NOAA Atlas 14 volume number.
+ * @param region Temporal region within the volume; omit for every region.
+ */
+export function getAtlas14SubTypesForVolume(volume: number, region?: string): string[] {
+    const prefix = region === undefined ? `Vol. ${volume} ` : `Vol. ${volume} Region ${region} `;
+    return discoveredSubTypes.Atlas14.filter(subType => subType.startsWith(prefix));
+}
+
+// --- Duration Scaling ---
+
+/**
+ * Picks the published duration closest to the requested one (by ratio, so 3 hr maps to 6 hr rather than 12 hr).
+ * @param publishedDurations Published durations in hours.
+ * @param durationHours Requested storm duration in hours.
+ * @returns The closest published duration, or null if none are available.
+ */
+export function findNearestPublishedDuration(publishedDurations: number[], durationHours: number): number | null {
+    let nearest: number | null = null;
+    publishedDurations.forEach(published => {
+        if (nearest === null || Math.abs(Math.log(published / durationHours)) < Math.abs(Math.log(nearest / durationHours))) {
+            nearest = published;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Stretches or compresses a normalized cumulative curve to a new duration.
+ * The curve is treated as dimensionless in time, so the cumulative fraction at each
+ * relative time (t / duration) is unchanged.
+ * @param data The published distribution.
+ * @param targetDurationMinutes The storm duration to scale to.
+ * @returns The time-scaled distribution.
+ */
+export function scaleDistributionDuration(data: DistributionData, targetDurationMinutes: number): DistributionData {
+    const sourceDurationMinutes = data.time_minutes[data.time_minutes.length - 1];
+    const factor = targetDurationMinutes / sourceDurationMinutes;
+    return {
+        time_minutes: data.time_minutes.map(t => t * factor),
+        cumulative_fraction: [...data.cumulative_fraction]
+    };
+}
 
 
 // --- Linear Interpolation --- (Unchanged)
@@ -477,6 +1032,457 @@ export function linearInterpolate(x: number, xPoints: number[], yPoints: number[
 }
 
 
+// --- Monotone Cubic Interpolation ---
+
+/**
+ * Builds a monotone piecewise cubic Hermite (PCHIP) interpolant through the points.
+ * Slopes follow Fritsch and Butland (weighted harmonic mean of adjacent secants, zero at
+ * local extrema), so a non-decreasing cumulative curve stays non-decreasing and every
+ * tabulated point, including the end point, is reproduced exactly.
+ * @param xPoints Strictly increasing x values.
+ * @param yPoints Corresponding y values.
+ * @returns A function evaluating the interpolant (clamped to the end values outside the range).
+ */
+export function createPchipInterpolator(xPoints: number[], yPoints: number[]): (x: number) => number {
+    const n = xPoints.length;
+    if (n < 3) return (x: number) => linearInterpolate(x, xPoints, yPoints);
+
+    const h: number[] = [];
+    const secants: number[] = [];
+    for (let k = 0; k < n - 1; k++) {
+        h.push(xPoints[k + 1] - xPoints[k]);
+        secants.push(h[k] > 0 ? (yPoints[k + 1] - yPoints[k]) / h[k] : 0);
+    }
+
+    const slopes: number[] = new Array(n).fill(0);
+    for (let k = 1; k < n - 1; k++) {
+        if (secants[k - 1] * secants[k] <= 0) continue; // Local extremum or flat segment
+        const w1 = 2 * h[k] + h[k - 1];
+        const w2 = h[k] + 2 * h[k - 1];
+        slopes[k] = (w1 + w2) / (w1 / secants[k - 1] + w2 / secants[k]);
+    }
+
+    // One-sided three-point end slopes, limited to keep the end intervals monotone
+    const endSlope = (h0: number, h1: number, s0: number, s1: number): number => {
+        const slope = ((2 * h0 + h1) * s0 - h0 * s1) / (h0 + h1);
+        if (Math.sign(slope) !== Math.sign(s0)) return 0;
+        if (Math.sign(s0) !== Math.sign(s1) && Math.abs(slope) > Math.abs(3 * s0)) return 3 * s0;
+        return slope;
+    };
+    slopes[0] = endSlope(h[0], h[1], secants[0], secants[1]);
+    slopes[n - 1] = endSlope(h[n - 2], h[n - 3], secants[n - 2], secants[n - 3]);
+
+    return (x: number): number => {
+        if (x <= xPoints[0]) return yPoints[0];
+        if (x >= xPoints[n - 1]) return yPoints[n - 1];
+
+        // Binary search for the interval containing x
+        let low = 0;
+        let high = n - 1;
+        while (high - low > 1) {
+            const mid = (low + high) >> 1;
+            if (xPoints[mid] <= x) low = mid; else high = mid;
+        }
+        const width = h[low];
+        if (width <= 0) return yPoints[low];
+
+        const t = (x - xPoints[low]) / width;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        return (2 * t3 - 3 * t2 + 1) * yPoints[low] +
+            (t3 - 2 * t2 + t) * width * slopes[low] +
+            (-2 * t3 + 3 * t2) * yPoints[high] +
+            (t3 - t2) * width * slopes[high];
+    };
+}
+
+/**
+ * Drops interior points that lie on a straight line with their neighbours.
+ * The tabulated curves are sampled every minute but only change slope where the
+ * published intensity changes, so this recovers the breakpoints a smooth curve should pass through.
+ */
+function removeCollinearPoints(xPoints: number[], yPoints: number[]): { x: number[]; y: number[] } {
+    const x = [xPoints[0]];
+    const y = [yPoints[0]];
+    for (let k = 1; k < xPoints.length - 1; k++) {
+        const slopeIn = (yPoints[k] - y[y.length - 1]) / (xPoints[k] - x[x.length - 1]);
+        const slopeOut = (yPoints[k + 1] - yPoints[k]) / (xPoints[k + 1] - xPoints[k]);
+        if (Math.abs(slopeOut - slopeIn) > 1e-6 * Math.max(Math.abs(slopeIn), Math.abs(slopeOut), 1e-12)) {
+            x.push(xPoints[k]);
+            y.push(yPoints[k]);
+        }
+    }
+    x.push(xPoints[xPoints.length - 1]);
+    y.push(yPoints[yPoints.length - 1]);
+    return { x, y };
+}
+
+/**
+ * Returns an interpolant over the points for the given mode.
+ * PCHIP passes through the curve's slope breakpoints, smoothing the steps of block-wise tabulated intensities.
+ */
+function createInterpolator(mode: InterpolationMode, xPoints: number[], yPoints: number[]): (x: number) => number {
+    if (mode === 'pchip') {
+        const knots = removeCollinearPoints(xPoints, yPoints);
+        return createPchipInterpolator(knots.x, knots.y);
+    }
+    return (x: number) => linearInterpolate(x, xPoints, yPoints);
+}
+
+
+// --- Alternating Block Method ---
+
+/**
+ * Interpolates a depth-duration curve at a given duration.
+ * Uses log-log interpolation between tabulated points and a linear ramp from zero
+ * below the shortest tabulated duration.
+ * @param points Depth-duration points sorted by duration.
+ * @param durationMinutes Duration to evaluate.
+ * @returns Depth (same units as the points), or NaN beyond the longest tabulated duration.
+ */
+export function interpolateDepthDuration(points: DepthDurationPoint[], durationMinutes: number): number {
+    if (points.length === 0) return NaN;
+    if (durationMinutes <= 0) return 0;
+
+    const first = points[0];
+    if (durationMinutes <= first.durationMinutes) {
+        return first.depth * durationMinutes / first.durationMinutes;
+    }
+
+    for (let i = 1; i < points.length; i++) {
+        const p0 = points[i - 1];
+        const p1 = points[i];
+        if (durationMinutes <= p1.durationMinutes + 1e-6) {
+            if (p0.depth <= 0 || p1.depth <= 0) {
+                // Fall back to linear interpolation when logs are undefined
+                return p0.depth + (p1.depth - p0.depth) * (durationMinutes - p0.durationMinutes) / (p1.durationMinutes - p0.durationMinutes);
+            }
+            const fraction = Math.log(durationMinutes / p0.durationMinutes) / Math.log(p1.durationMinutes / p0.durationMinutes);
+            return Math.exp(Math.log(p0.depth) + fraction * Math.log(p1.depth / p0.depth));
+        }
+    }
+    return NaN;
+}
+
+/**
+ * Builds a dimensionless cumulative distribution with the alternating-block method.
+ * Nested incremental depths from the depth-duration curve are sorted and placed
+ * alternately around the peak block, so every nested duration centred on the peak
+ * reproduces the depth-duration curve.
+ * @param depthDurationData Depth-duration points (e.g., NOAA Atlas 14 estimates for one return period).
+ * @param durationMinutes Storm duration.
+ * @param timeStepMinutes Block length.
+ * @param peakPosition Fraction of the duration at which the largest block is placed (0-1).
+ * @returns The cumulative distribution, or null if the curve does not cover the duration.
+ */
+export function buildAlternatingBlockDistribution(
+    depthDurationData: DepthDurationPoint[],
+    durationMinutes: number,
+    timeStepMinutes: number,
+    peakPosition: number
+): DistributionData | null {
+    const points = [...depthDurationData].sort((a, b) => a.durationMinutes - b.durationMinutes);
+    const blockCount = Math.ceil(durationMinutes / timeStepMinutes - 1e-6);
+    if (blockCount < 1) return null;
+
+    // 1. Nested depths and their increments
+    const increments: number[] = [];
+    let previousDepth = 0;
+    for (let k = 1; k <= blockCount; k++) {
+        const depth = interpolateDepthDuration(points, Math.min(k * timeStepMinutes, durationMinutes));
+        if (isNaN(depth)) return null;
+        increments.push(Math.max(0, depth - previousDepth));
+        previousDepth = Math.max(previousDepth, depth);
+    }
+    if (previousDepth <= 0) return null;
+
+    // 2. Arrange blocks around the peak, 3. cumulative fractions at block boundaries
+    return blocksToDistribution(arrangeBlocksAroundPeak(increments, peakPosition), timeStepMinutes, durationMinutes, previousDepth);
+}
+
+/**
+ * Re-orders a curve's blocks so its peak falls at a chosen fraction of the duration (storm shifting).
+ * Block depths are read off the curve at the time step and arranged as in the alternating-block
+ * method, so the total depth is kept and the heaviest run of blocks of every length still sums
+ * to the same depth; for centrally nested curves (SCS, NRCS) these are the curve's nested maxima.
+ * @param data The cumulative distribution, already spanning durationMinutes.
+ * @param durationMinutes Storm duration (minutes).
+ * @param timeStepMinutes Block length (minutes).
+ * @param peakPosition Fraction of the duration (0-1) at which the peak block is placed.
+ * @param interpolationMode How block boundaries are read off the curve.
+ * @returns The shifted cumulative distribution, with points at the block boundaries.
+ */
+export function shiftDistributionPeak(
+    data: DistributionData,
+    durationMinutes: number,
+    timeStepMinutes: number,
+    peakPosition: number,
+    interpolationMode: InterpolationMode = 'linear'
+): DistributionData {
+    const interpolate = createInterpolator(interpolationMode, data.time_minutes, data.cumulative_fraction);
+    const blockCount = Math.max(1, Math.ceil(durationMinutes / timeStepMinutes - 1e-6));
+
+    const increments: number[] = [];
+    let previousFraction = 0;
+    for (let k = 1; k <= blockCount; k++) {
+        const fraction = interpolate(Math.min(k * timeStepMinutes, durationMinutes));
+        increments.push(Math.max(0, fraction - previousFraction));
+        previousFraction = Math.max(previousFraction, fraction);
+    }
+
+    return blocksToDistribution(arrangeBlocksAroundPeak(increments, peakPosition), timeStepMinutes, durationMinutes, previousFraction);
+}
+
+// Places the largest block at the peak, then alternates after/before the peak in decreasing order
+function arrangeBlocksAroundPeak(increments: number[], peakPosition: number): number[] {
+    const blockCount = increments.length;
+    const sorted = [...increments].sort((a, b) => b - a);
+    const arranged: number[] = new Array(blockCount).fill(0);
+    const peakIndex = Math.min(blockCount - 1, Math.max(0, Math.floor(peakPosition * blockCount)));
+    arranged[peakIndex] = sorted[0];
+    let after = peakIndex + 1;
+    let before = peakIndex - 1;
+    let placeAfter = true;
+    for (let i = 1; i < blockCount; i++) {
+        // Alternate sides, continuing on the remaining side once one is full
+        if ((placeAfter && after < blockCount) || before < 0) {
+            arranged[after++] = sorted[i];
+        } else {
+            arranged[before--] = sorted[i];
+        }
+        placeAfter = !placeAfter;
+    }
+    return arranged;
+}
+
+// Cumulative fractions at the block boundaries of an arranged storm
+function blocksToDistribution(blocks: number[], timeStepMinutes: number, durationMinutes: number, totalDepth: number): DistributionData {
+    const time_minutes: number[] = [0];
+    const cumulative_fraction: number[] = [0];
+    let cumulative = 0;
+    blocks.forEach((increment, k) => {
+        cumulative += increment;
+        time_minutes.push(Math.min((k + 1) * timeStepMinutes, durationMinutes));
+        cumulative_fraction.push(Math.min(1, cumulative / totalDepth));
+    });
+    cumulative_fraction[cumulative_fraction.length - 1] = 1;
+
+    return { time_minutes, cumulative_fraction };
+}
+
+// --- Chicago (Keifer-Chu) Storm ---
+
+/**
+ * Depth of the IDF curve i = a / (t + b)^c over a duration (average intensity times duration).
+ * @param idf IDF coefficients (t in minutes, intensity per hour).
+ * @param durationMinutes Duration.
+ * @returns Depth in the IDF's depth unit.
+ */
+export function calculateChicagoDepth(idf: IdfCoefficients, durationMinutes: number): number {
+    if (durationMinutes <= 0) return 0;
+    return idf.a * durationMinutes / Math.pow(durationMinutes + idf.b, idf.c) / 60;
+}
+
+/**
+ * Builds the cumulative distribution of a Chicago storm analytically.
+ * The mass curve is integrated exactly: rainfall within any window of length d centred
+ * on the peak (split r before, 1 - r after) equals the IDF depth for d, so each step's
+ * depth is exact regardless of the time step.
+ * @param idf IDF coefficients.
+ * @param durationMinutes Storm duration.
+ * @param timeStepMinutes Time step.
+ * @param peakRatio Peak-advancement ratio r (0-1).
+ * @returns The cumulative distribution, or null if the IDF curve yields no depth.
+ */
+export function buildChicagoDistribution(
+    idf: IdfCoefficients,
+    durationMinutes: number,
+    timeStepMinutes: number,
+    peakRatio: number
+): DistributionData | null {
+    const totalDepth = calculateChicagoDepth(idf, durationMinutes);
+    if (!(totalDepth > 0) || !isFinite(totalDepth)) return null;
+
+    const peakTime = peakRatio * durationMinutes;
+    const cumulativeDepthAt = (t: number): number => {
+        if (t <= peakTime && peakRatio > 0) {
+            return peakRatio * (totalDepth - calculateChicagoDepth(idf, (peakTime - t) / peakRatio));
+        }
+        if (peakRatio >= 1) return totalDepth;
+        return peakRatio * totalDepth + (1 - peakRatio) * calculateChicagoDepth(idf, (t - peakTime) / (1 - peakRatio));
+    };
+
+    const stepCount = Math.ceil(durationMinutes / timeStepMinutes - 1e-6);
+    const time_minutes: number[] = [0];
+    const cumulative_fraction: number[] = [0];
+    for (let k = 1; k <= stepCount; k++) {
+        const t = Math.min(k * timeStepMinutes, durationMinutes);
+        time_minutes.push(t);
+        cumulative_fraction.push(Math.min(1, Math.max(0, cumulativeDepthAt(t) / totalDepth)));
+    }
+    cumulative_fraction[cumulative_fraction.length - 1] = 1;
+
+    return { time_minutes, cumulative_fraction };
+}
+
+// --- Areal Reduction Factor ---
+
+/**
+ * Areal reduction factor for converting a point depth to an average depth over a watershed.
+ * TP-29 uses the Leclerc and Schaake (1972) fit to the NWS TP-29 curves:
+ *   ARF = 1 - exp(-1.1 t^0.25) + exp(-1.1 t^0.25 - 0.01 A), A in sq mi, t in hours.
+ * NERC uses the Flood Studies Report (NERC 1975) relation:
+ *   ARF = 1 - 0.048 A^(0.36 - 0.01 ln A) D^(-0.35), A in km², D in hours.
+ * @param method The ARF curve.
+ * @param areaSqMi Drainage area in square miles.
+ * @param durationHours Storm duration in hours.
+ * @returns The factor (0-1), or NaN for invalid inputs.
+ */
+export function calculateArealReductionFactor(method: ArealReductionMethod, areaSqMi: number, durationHours: number): number {
+    if (!(areaSqMi > 0) || !(durationHours > 0)) return NaN;
+
+    if (method === 'TP-29') {
+        const exponent = -1.1 * Math.pow(durationHours, 0.25);
+        return 1 - Math.exp(exponent) + Math.exp(exponent - 0.01 * areaSqMi);
+    }
+
+    const areaSqKm = areaSqMi * SQ_KM_PER_SQ_MI;
+    return Math.max(0, 1 - 0.048 * Math.pow(areaSqKm, 0.36 - 0.01 * Math.log(areaSqKm)) * Math.pow(durationHours, -0.35));
+}
+
+
+// --- Climate Adjustment ---
+
+/**
+ * Climate-change factor for a duration.
+ * Uniform: 1 + uplift/100. Clausius–Clapeyron: (1 + rate/100)^warming.
+ * Table: interpolated linearly in log-duration between rows, held constant beyond the ends.
+ * @param adjustment The climate adjustment settings.
+ * @param durationHours Duration to evaluate.
+ * @returns The factor, or NaN if the settings are incomplete.
+ */
+export function calculateClimateFactor(adjustment: ClimateAdjustment, durationHours: number): number {
+    const { method, upliftPercent, scalingRate, warming, changeFactors } = adjustment;
+
+    if (method === 'uniform') {
+        return upliftPercent !== undefined && upliftPercent > -100 ? 1 + upliftPercent / 100 : NaN;
+    }
+    if (method === 'clausius-clapeyron') {
+        return scalingRate !== undefined && warming !== undefined && scalingRate > -100
+            ? Math.pow(1 + scalingRate / 100, warming)
+            : NaN;
+    }
+
+    if (!changeFactors || changeFactors.length === 0 || !(durationHours > 0)) return NaN;
+    const first = changeFactors[0];
+    const last = changeFactors[changeFactors.length - 1];
+    if (durationHours <= first.durationHours) return first.factor;
+    if (durationHours >= last.durationHours) return last.factor;
+    return linearInterpolate(
+        Math.log(durationHours),
+        changeFactors.map(f => Math.log(f.durationHours)),
+        changeFactors.map(f => f.factor)
+    );
+}
+
+/**
+ * Short description of a climate adjustment for summaries and exports.
+ */
+export function describeClimateAdjustment(adjustment: ClimateAdjustment): string {
+    switch (adjustment.method) {
+        case 'uniform':
+            return `Uniform uplift ${adjustment.upliftPercent}%`;
+        case 'clausius-clapeyron':
+            return `Clausius–Clapeyron ${adjustment.scalingRate}%/°C × ${adjustment.warming} °C`;
+        case 'table':
+            return `Change-factor table (${adjustment.changeFactors?.length ?? 0} durations)`;
+    }
+}
+
+/**
+ * Parses an uploaded table of duration-specific change factors.
+ * Two columns: duration (hours, or minutes if the header mentions "min") and factor.
+ * A header mentioning "%" or "percent" marks the second column as a percent change (15 -> 1.15).
+ * @param csvText Raw CSV content.
+ * @returns Factors sorted by duration, and any validation errors.
+ */
+export function parseClimateFactorTable(csvText: string): { factors: ClimateChangeFactor[]; errors: string[] } {
+    const lines = csvText.trim().split(/\r?\n/).filter(line => line.trim() !== '');
+    const errors: string[] = [];
+    const factors: ClimateChangeFactor[] = [];
+    if (lines.length === 0) {
+        return { factors, errors: ['The file is empty.'] };
+    }
+
+    const firstCells = lines[0].split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+    const hasHeader = isNaN(Number(firstCells[1]));
+    const minutesPerUnit = hasHeader && /min/i.test(firstCells[0]) ? 1 : 60;
+    const isPercent = hasHeader && /%|percent/i.test(firstCells[1]);
+
+    for (let i = hasHeader ? 1 : 0; i < lines.length; i++) {
+        const cells = lines[i].split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+        const rowNumber = i + 1;
+        const durationMinutes = parseTimeCell(cells[0] ?? '', minutesPerUnit);
+        const value = Number(cells[1]);
+        if (!(durationMinutes > 0)) {
+            errors.push(`Row ${rowNumber}: invalid duration "${cells[0] ?? ''}".`);
+            continue;
+        }
+        if (cells[1] === undefined || cells[1] === '' || isNaN(value)) {
+            errors.push(`Row ${rowNumber}: invalid factor "${cells[1] ?? ''}".`);
+            continue;
+        }
+        const factor = isPercent ? 1 + value / 100 : value;
+        if (!(factor > 0)) {
+            errors.push(`Row ${rowNumber}: the factor must be positive.`);
+            continue;
+        }
+        if (factors.some(f => Math.abs(f.durationHours - durationMinutes / 60) < 1e-9)) {
+            errors.push(`Row ${rowNumber}: duration "${cells[0]}" is listed twice.`);
+            continue;
+        }
+        factors.push({ durationHours: durationMinutes / 60, factor });
+    }
+
+    if (errors.length === 0 && factors.length === 0) {
+        errors.push('The file has no data rows.');
+    }
+    return { factors: factors.sort((a, b) => a.durationHours - b.durationHours), errors };
+}
+
+
+// --- SCS Curve Number Runoff ---
+
+/**
+ * Calculates the potential maximum retention S (inches) for a curve number.
+ * For the 0.05 initial abstraction ratio, S is converted from the standard
+ * 0.2-based value using S0.05 = 1.33 * S0.2^1.15 (Hawkins et al., 2002).
+ * @param curveNumber SCS curve number (0 < CN <= 100).
+ * @param initialAbstractionRatio Ia/S ratio, 0.2 (standard) or 0.05.
+ * @returns Potential maximum retention in inches.
+ */
+export function calculatePotentialRetention(curveNumber: number, initialAbstractionRatio: InitialAbstractionRatio = 0.2): number {
+    const s20 = 1000 / curveNumber - 10;
+    if (initialAbstractionRatio === 0.05) {
+        return 1.33 * Math.pow(s20, 1.15);
+    }
+    return s20;
+}
+
+/**
+ * SCS runoff equation: Q = (P - Ia)^2 / (P - Ia + S) for P > Ia, else 0.
+ * @param precipitationInches Cumulative rainfall P (inches).
+ * @param potentialRetentionInches Potential maximum retention S (inches).
+ * @param initialAbstractionRatio Ia/S ratio.
+ * @returns Cumulative runoff Q (inches).
+ */
+export function calculateScsRunoff(precipitationInches: number, potentialRetentionInches: number, initialAbstractionRatio: InitialAbstractionRatio = 0.2): number {
+    const initialAbstraction = initialAbstractionRatio * potentialRetentionInches;
+    if (precipitationInches <= initialAbstraction) return 0;
+    const netRainfall = precipitationInches - initialAbstraction;
+    return (netRainfall * netRainfall) / (netRainfall + potentialRetentionInches);
+}
+
 // --- Calculate Hyetograph Logic --- (Updated)
 export function calculateHyetograph(inputs: CalculationInputs): CalculationResult {
     const {
@@ -485,37 +1491,132 @@ export function calculateHyetograph(inputs: CalculationInputs): CalculationResul
         stormCategory,
         stormSubType,
         timeStepMinutes: timeStepInput,
-        depthUnit
+        depthUnit,
+        curveNumber,
+        initialAbstractionRatio = 0.2,
+        depthDurationData,
+        peakPosition = 0.5,
+        idfCoefficients,
+        huffProbability,
+        arealReduction,
+        climateAdjustment,
+        interpolationMode = 'linear',
+        atlas14Probability = 50,
+        peakShift,
+        stormStart
     } = inputs;
 
-    // Use validated duration (App.tsx ensures it's 24 for NRCS/Huff)
+    // Any positive duration; curves without a published duration are time-scaled below
     const calculationDuration = durationInput;
 
-    // Construct the key to look up the correct distribution
-    const combinedKey = `${stormCategory}-${stormSubType}-${calculationDuration}HR`;
+    // Construct the key to look up the correct distribution (Atlas 14 curves are keyed per probability level)
+    const curveSubType = stormCategory === 'Atlas14' ? formatAtlas14CurveName(stormSubType, atlas14Probability) : stormSubType;
+    const combinedKey = `${stormCategory}-${curveSubType}-${calculationDuration}HR`;
+    const diagnostics: CalculationDiagnostic[] = [];
 
     // Ensure inputs are numbers
-    const totalDepth = typeof totalDepthInput === 'string' ? parseFloat(totalDepthInput) : totalDepthInput;
+    // Chicago storms take their depth from the IDF curve rather than the depth input
+    const isChicago = stormCategory === 'Chicago';
+    if (isChicago && (!idfCoefficients || !(idfCoefficients.a > 0) || !(idfCoefficients.b >= 0) || !(idfCoefficients.c > 0) || !(idfCoefficients.c < 1))) {
+        return createErrorResult('INVALID_INPUT', 'Chicago IDF coefficients need a > 0, b >= 0 and 0 < c < 1.');
+    }
+    const baselineDepth = isChicago && idfCoefficients
+        ? calculateChicagoDepth(idfCoefficients, calculationDuration * 60)
+        : typeof totalDepthInput === 'string' ? parseFloat(totalDepthInput) : totalDepthInput;
+
+    // Future-conditions point depth
+    const climateFactor = climateAdjustment ? calculateClimateFactor(climateAdjustment, calculationDuration) : 1;
+    if (isNaN(climateFactor)) {
+        return createErrorResult('INVALID_INPUT', 'The climate adjustment needs an uplift above -100%, a scaling rate and warming, or a change-factor table.');
+    }
+    const pointDepth = baselineDepth * climateFactor;
+
+    // Point depths are reduced to an areal average for the storm duration
+    const areaSqMi = arealReduction
+        ? arealReduction.drainageArea / (depthUnit === 'metric' ? HECTARES_PER_SQ_MI : ACRES_PER_SQ_MI)
+        : 0;
+    const arealReductionFactor = arealReduction ? calculateArealReductionFactor(arealReduction.method, areaSqMi, calculationDuration) : 1;
+    if (isNaN(arealReductionFactor)) {
+        return createErrorResult('INVALID_INPUT', 'An areal reduction factor needs a positive drainage area.');
+    }
+    if (arealReduction && (arealReduction.method === 'TP-29' ? areaSqMi > TP29_MAX_AREA_SQ_MI : areaSqMi * SQ_KM_PER_SQ_MI > NERC_MAX_AREA_SQ_KM)) {
+        diagnostics.push({
+            code: 'AREA_OUTSIDE_ARF_RANGE',
+            severity: 'warning',
+            message: arealReduction.method === 'TP-29'
+                ? `Drainage area ${areaSqMi.toFixed(1)} sq mi exceeds the ${TP29_MAX_AREA_SQ_MI} sq mi range of the TP-29 curves.`
+                : `Drainage area ${(areaSqMi * SQ_KM_PER_SQ_MI).toFixed(0)} km² exceeds the ${NERC_MAX_AREA_SQ_KM} km² range of the NERC curves.`
+        });
+    }
+    const totalDepth = pointDepth * arealReductionFactor;
     const timeStepMinutes = typeof timeStepInput === 'string' ? parseFloat(timeStepInput) : timeStepInput;
 
     // Input Validation
-    if (isNaN(totalDepth) || isNaN(timeStepMinutes) || totalDepth <= 0 || timeStepMinutes <= 0) {
-        console.error("Invalid numeric inputs provided to calculateHyetograph.", { totalDepth, timeStepMinutes });
-        return createEmptyResult();
+    if (isNaN(totalDepth) || isNaN(timeStepMinutes) || isNaN(calculationDuration) || totalDepth <= 0 || timeStepMinutes <= 0 || calculationDuration <= 0) {
+        return createErrorResult('INVALID_INPUT', 'Depth, duration and time step must be positive numbers.');
+    }
+    if (curveNumber !== undefined && (isNaN(curveNumber) || curveNumber <= 0 || curveNumber > 100)) {
+        return createErrorResult('INVALID_INPUT', `Curve number ${curveNumber} must be greater than 0 and at most 100.`);
     }
-     if (!stormDistributions[combinedKey]) {
-        console.error(`Calculation Error: Distribution not found for key: ${combinedKey}`);
-        // Potentially provide a more specific error message to the user via the result?
-        return createEmptyResult(); // Or throw an error?
+    if (peakPosition < 0 || peakPosition > 1 || isNaN(peakPosition)) {
+        return createErrorResult('INVALID_INPUT', `Peak position ${peakPosition} must be between 0 and 1.`);
+    }
+    if (peakShift !== undefined && !(peakShift >= 0 && peakShift <= 1)) {
+        return createErrorResult('INVALID_INPUT', `Peak timing ${peakShift} must be between 0 and 1.`);
+    }
+
+    let baseData: DistributionData;
+    let scaledFromDuration: number | undefined;
+    if (stormCategory === 'NOAA') {
+        // Site-specific storm built from the NOAA depth-duration curve
+        // Duration-specific climate factors reshape the depth-duration curve, not just its total
+        const adjustedDepthDuration = depthDurationData && climateAdjustment
+            ? depthDurationData.map(point => ({ ...point, depth: point.depth * calculateClimateFactor(climateAdjustment, point.durationMinutes / 60) }))
+            : depthDurationData;
+        const alternatingBlock = adjustedDepthDuration
+            ? buildAlternatingBlockDistribution(adjustedDepthDuration, calculationDuration * 60, timeStepMinutes, peakPosition)
+            : null;
+        if (!alternatingBlock) {
+            return createErrorResult('NOAA_DATA_MISSING', `NOAA depth-duration data is missing or does not cover ${calculationDuration} hours.`);
+        }
+        baseData = alternatingBlock;
+    } else if (isChicago && idfCoefficients) {
+        const chicago = buildChicagoDistribution(idfCoefficients, calculationDuration * 60, timeStepMinutes, peakPosition);
+        if (!chicago) {
+            return createErrorResult('IDF_NO_DEPTH', `The IDF curve yields no depth for ${calculationDuration} hours.`);
+        }
+        baseData = chicago;
+    } else if (stormCategory === 'Huff' && huffProbability !== undefined) {
+        const huffCurve = huffProbabilityCurves[stormSubType]?.[huffProbability];
+        if (!huffCurve) {
+            return createErrorResult('HUFF_CURVE_MISSING', `No ${formatHuffProbabilityName(stormSubType, huffProbability)} curve is registered.`);
+        }
+        // Probability-level curves are dimensionless in time, so no published duration applies
+        baseData = scaleDistributionDuration(huffCurve, calculationDuration * 60);
+    } else if (stormDistributions[combinedKey]) {
+        baseData = stormDistributions[combinedKey];
+        diagnostics.push(...(distributionAdjustments[combinedKey] ?? []));
+    } else {
+        // No curve published for this duration: time-scale the closest published one
+        const nearestDuration = findNearestPublishedDuration(getPublishedDurations(stormCategory, curveSubType), calculationDuration);
+        if (nearestDuration === null) {
+            return createErrorResult('DISTRIBUTION_NOT_FOUND', `No ${stormCategory} ${curveSubType} distribution is available.`);
+        }
+        const nearestKey = `${stormCategory}-${curveSubType}-${nearestDuration}HR`;
+        diagnostics.push(...(distributionAdjustments[nearestKey] ?? []), {
+            code: 'DURATION_TIME_SCALED',
+            severity: 'warning',
+            message: `No ${calculationDuration}-hr curve is published for ${stormCategory} ${curveSubType}; the ${nearestDuration}-hr curve was time-scaled.`
+        });
+        baseData = scaleDistributionDuration(stormDistributions[nearestKey], calculationDuration * 60);
+        scaledFromDuration = nearestDuration;
     }
 
-    const baseData = stormDistributions[combinedKey];
     const baseTimes = baseData.time_minutes;
     const baseCumulativeFractions = baseData.cumulative_fraction;
 
     if (baseTimes.length < 2) {
-         console.error(`Calculation Error: Insufficient data points in distribution for key: ${combinedKey}`);
-         return createEmptyResult();
+         return createErrorResult('DISTRIBUTION_TOO_SHORT', `The ${describeDistributionKey(combinedKey)} distribution has fewer than two points.`, diagnostics);
     }
 
     const isMetric = depthUnit === 'metric';
@@ -541,17 +1642,41 @@ export function calculateHyetograph(inputs: CalculationInputs): CalculationResul
      }
 
 
+    // Storm shifting re-orders the curve's blocks around the requested peak time
+    const shiftedData = peakShift !== undefined
+        ? shiftDistributionPeak(baseData, totalDurationMinutesCalc, timeStepMinutes, peakShift, interpolationMode)
+        : baseData;
+
+    // The alternate mode is evaluated alongside so the summary can report its peak
+    // (on the unshifted curve: re-ordering keeps the blocks, so the peak is the same)
+    const alternateMode: InterpolationMode = interpolationMode === 'linear' ? 'pchip' : 'linear';
+    const interpolate = createInterpolator(interpolationMode, shiftedData.time_minutes, shiftedData.cumulative_fraction);
+    const interpolateAlternate = createInterpolator(alternateMode, baseTimes, baseCumulativeFractions);
+
     const targetCumulativeDepthsInches: number[] = [0]; // Start with depth 0 at time 0
+    let alternatePeakIntensityInches = 0;
     for (let i = 1; i < targetTimes.length; i++) {
         const currentTimeMinutes = targetTimes[i];
         // Interpolate cumulative fraction at the current target time using the base distribution
-        const cumulativeFraction = linearInterpolate(currentTimeMinutes, baseTimes, baseCumulativeFractions);
+        const cumulativeFraction = interpolate(currentTimeMinutes);
         targetCumulativeDepthsInches.push(cumulativeFraction * totalDepthInches);
+
+        const stepHours = (currentTimeMinutes - targetTimes[i - 1]) / 60;
+        if (stepHours > 1e-9) {
+            const alternateDepthStep = (interpolateAlternate(currentTimeMinutes) - interpolateAlternate(targetTimes[i - 1])) * totalDepthInches;
+            alternatePeakIntensityInches = Math.max(alternatePeakIntensityInches, alternateDepthStep / stepHours);
+        }
     }
 
     const finalIntensities: number[] = [];
     const plotLabels: string[] = [];
 
+    // Rainfall excess via the SCS runoff equation, applied to the cumulative depth at each step
+    const computeExcess = curveNumber !== undefined;
+    const potentialRetentionInches = computeExcess ? calculatePotentialRetention(curveNumber, initialAbstractionRatio) : 0;
+    const excessIntensities: number[] = [];
+    let previousRunoffInches = 0;
+
     for (let i = 1; i < targetCumulativeDepthsInches.length; i++) {
         const startTimeMinutes = targetTimes[i - 1];
         const endTimeMinutes = targetTimes[i];
@@ -577,13 +1702,26 @@ export function calculateHyetograph(inputs: CalculationInputs): CalculationResul
         }
 
         // Store detailed data
-        stormDataStore.push({
+        const step: StormStep = {
             timeStart: startTimeMinutes,
             timeEnd: endTimeMinutes,
             intensity: finalIntensity,
             depthStep: finalDepthStep,
             cumulativeDepth: finalCumulativeDepth
-        });
+        };
+
+        if (computeExcess) {
+            const cumulativeRunoffInches = calculateScsRunoff(targetCumulativeDepthsInches[i], potentialRetentionInches, initialAbstractionRatio);
+            const excessStepInches = Math.max(0, cumulativeRunoffInches - previousRunoffInches);
+            previousRunoffInches = cumulativeRunoffInches;
+
+            step.cumulativeRunoff = cumulativeRunoffInches * conversionFactor;
+            step.excessDepth = excessStepInches * conversionFactor;
+            step.lossDepth = (depthStepInches - excessStepInches) * conversionFactor;
+            excessIntensities.push((excessStepInches / stepDurationHours) * conversionFactor);
+        }
+
+        stormDataStore.push(step);
 
         // Format chart label (using start time of interval)
         plotLabels.push(formatTimeLabel(startTimeMinutes, totalDurationMinutesCalc));
@@ -598,24 +1736,87 @@ export function calculateHyetograph(inputs: CalculationInputs): CalculationResul
 
     // Sanity check the calculated total depth against the input
      if (Math.abs(finalCalculatedTotalDepth - totalDepth) / totalDepth > 0.01) { // Allow 1% tolerance
-         console.warn(`Calculated total depth (${finalCalculatedTotalDepth.toFixed(3)}) differs significantly from input depth (${totalDepth.toFixed(3)}) for ${combinedKey}. Check interpolation or data.`);
+         diagnostics.push({
+             code: 'DEPTH_TOLERANCE',
+             severity: 'warning',
+             message: `Calculated total depth (${finalCalculatedTotalDepth.toFixed(3)}) differs from the target depth (${totalDepth.toFixed(3)}) by more than 1%. Check the curve or time step.`
+         });
      }
 
 
-    return {
+    const result: CalculationResult = {
         labels: plotLabels,
         intensityData: finalIntensities,
         peakIntensity: peakIntensity,
         totalDepthActual: finalCalculatedTotalDepth,
         intensityUnit: isMetric ? 'mm/hr' : 'in/hr',
         depthUnit: isMetric ? 'mm' : 'in',
-        detailedData: stormDataStore
+        detailedData: stormDataStore,
+        scaledFromDuration,
+        interpolationComparison: {
+            mode: interpolationMode,
+            alternateMode: alternateMode,
+            alternatePeakIntensity: alternatePeakIntensityInches * conversionFactor
+        },
+        diagnostics
     };
+
+    if (climateAdjustment) {
+        // The baseline storm is the same calculation without the adjustment
+        const baseline = calculateHyetograph({ ...inputs, climateAdjustment: undefined });
+        result.climateAdjustment = {
+            description: describeClimateAdjustment(climateAdjustment),
+            factor: climateFactor,
+            baselineDepth: baselineDepth,
+            baselineIntensityData: baseline.intensityData,
+            baselinePeakIntensity: baseline.peakIntensity
+        };
+    }
+
+    if (peakShift !== undefined) {
+        // The same storm with the curve's own timing, for comparison
+        const original = calculateHyetograph({ ...inputs, peakShift: undefined });
+        const peakStartTime = (data: number[]) => stormDataStore[data.indexOf(Math.max(...data))]?.timeStart ?? 0;
+        result.peakShift = {
+            position: peakShift,
+            originalIntensityData: original.intensityData,
+            originalPeakTime: peakStartTime(original.intensityData),
+            shiftedPeakTime: peakStartTime(finalIntensities)
+        };
+    }
+
+    if (arealReduction) {
+        result.arealReduction = {
+            method: arealReduction.method,
+            factor: arealReductionFactor,
+            pointDepth: pointDepth,
+            drainageArea: arealReduction.drainageArea,
+            areaUnit: isMetric ? 'ha' : 'ac'
+        };
+    }
+
+    if (computeExcess) {
+        const runoffParameters: RunoffParameters = {
+            curveNumber: curveNumber,
+            initialAbstractionRatio: initialAbstractionRatio,
+            potentialRetention: potentialRetentionInches * conversionFactor,
+            initialAbstraction: initialAbstractionRatio * potentialRetentionInches * conversionFactor
+        };
+        result.excessIntensityData = excessIntensities;
+        result.totalExcessDepth = previousRunoffInches * conversionFactor;
+        result.runoffParameters = runoffParameters;
+    }
+
+    if (stormStart) {
+        applyStormCalendar(result, stormStart);
+    }
+
+    return result;
 }
 
-// --- Helper Functions --- (Unchanged)
+// --- Helper Functions ---
 
-function createEmptyResult(): CalculationResult {
+function createEmptyResult(diagnostics: CalculationDiagnostic[] = []): CalculationResult {
      return {
          labels: [],
          intensityData: [],
@@ -623,11 +1824,23 @@ function createEmptyResult(): CalculationResult {
          totalDepthActual: 0,
          intensityUnit: 'N/A',
          depthUnit: 'N/A',
-         detailedData: []
+         detailedData: [],
+         diagnostics
      };
 }
 
-function formatTimeLabel(timeMinutes: number, totalDurationMinutes: number): string {
+// Empty result carrying the error that stopped the calculation (after any earlier diagnostics)
+function createErrorResult(code: CalculationDiagnostic['code'], message: string, earlier: CalculationDiagnostic[] = []): CalculationResult {
+    return createEmptyResult([...earlier, { code, severity: 'error', message }]);
+}
+
+// Readable name of a distribution key, e.g. "SCS-Type II-24HR" -> "SCS Type II 24-hr curve"
+function describeDistributionKey(combinedKey: string): string {
+    const match = combinedKey.match(/^([^-]+)-(.+)-(\d+)HR$/);
+    return match ? `${match[1]} ${match[2]} ${match[3]}-hr curve` : combinedKey;
+}
+
+export function formatTimeLabel(timeMinutes: number, totalDurationMinutes: number): string {
      const tolerance = 1e-6; // Small tolerance for floating point comparisons
      if (totalDurationMinutes > 120 + tolerance) { // Use H:MM for durations > 2 hours
          let hours = Math.floor(timeMinutes / 60);
@@ -0,0 +1,158 @@
+import { ZipEntry, createZip } from './zip';
+
+// --- Excel Workbooks ---
+
+// A cell value: text, a number in the General format, a number with an Excel format code, or empty
+export type XlsxCell = string | number | { value: number; format: string } | null;
+
+// A worksheet; the first row is treated as a bold, frozen header row when headerRow is set
+export interface XlsxSheet {
+    name: string;            // Up to 31 characters; []:*?/\ are replaced
+    rows: XlsxCell[][];
+    columnWidths?: number[]; // Character widths, by column
+    headerRow?: boolean;
+}
+
+const FIRST_CUSTOM_FORMAT_ID = 164; // Ids below 164 are Excel's built-in formats
+
+/**
+ * Escapes text for XML, dropping control characters XML cannot hold.
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Excel column letters for a zero-based column index (0 -> A, 26 -> AA).
+ */
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/**
+ * Makes sheet names valid and unique: Excel limits them to 31 characters without []:*?/\.
+ */
+function getSheetNames(sheets: XlsxSheet[]): string[] {
+    const used = new Set<string>();
+    return sheets.map((sheet, index) => {
+        const base = sheet.name.replace(/[[\]:*?/\\]/g, '_').trim().slice(0, 31) || `Sheet${index + 1}`;
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+            name = `${base.slice(0, 31 - String(n).length - 1)}_${n}`;
+        }
+        used.add(name.toLowerCase());
+        return name;
+    });
+}
+
+/**
+ * Builds an Excel workbook (.xlsx, Office Open XML) entirely in the browser: text is written as
+ * inline strings and each number format code gets its own cell style.
+ * @param sheets Worksheets in tab order.
+ * @param modified Modification time recorded in the package (defaults to now).
+ * @returns The workbook bytes.
+ */
+export function createXlsx(sheets: XlsxSheet[], modified: Date = new Date()): Uint8Array {
+    // Style 0 is the default and style 1 the bold header; number formats follow
+    const formats: string[] = [];
+    sheets.forEach(sheet => sheet.rows.forEach(row => row.forEach(cell => {
+        if (cell !== null && typeof cell === 'object' && !formats.includes(cell.format)) {
+            formats.push(cell.format);
+        }
+    })));
+    const styleForFormat = (format: string) => 2 + formats.indexOf(format);
+
+    const writeCell = (cell: XlsxCell, reference: string, bold: boolean): string => {
+        if (cell === null || cell === '') return '';
+        const boldStyle = bold ? ' s="1"' : '';
+        if (typeof cell === 'string') {
+            return `<c r="${reference}" t="inlineStr"${boldStyle}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        }
+        if (typeof cell === 'number') {
+            return Number.isFinite(cell) ? `<c r="${reference}"${boldStyle}><v>${cell}</v></c>` : '';
+        }
+        return Number.isFinite(cell.value) ? `<c r="${reference}" s="${styleForFormat(cell.format)}"><v>${cell.value}</v></c>` : '';
+    };
+
+    const sheetNames = getSheetNames(sheets);
+    const worksheets: ZipEntry[] = sheets.map((sheet, sheetIndex) => {
+        const pane = sheet.headerRow
+            ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+            : '';
+        const columns = sheet.columnWidths && sheet.columnWidths.length > 0
+            ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+            : '';
+        const rows = sheet.rows.map((row, rowIndex) => {
+            const cells = row.map((cell, columnIndex) =>
+                writeCell(cell, `${columnName(columnIndex)}${rowIndex + 1}`, Boolean(sheet.headerRow) && rowIndex === 0)).join('');
+            return `<row r="${rowIndex + 1}">${cells}</row>`;
+        }).join('');
+        return {
+            name: `xl/worksheets/sheet${sheetIndex + 1}.xml`,
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+                '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+                `${pane}${columns}<sheetData>${rows}</sheetData></worksheet>`,
+        };
+    });
+
+    const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>';
+
+    const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>';
+
+    const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${sheetNames.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+        '</workbook>';
+
+    const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>';
+
+    const numFmts = formats.length > 0
+        ? `<numFmts count="${formats.length}">${formats.map((format, i) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" formatCode="${escapeXml(format)}"/>`).join('')}</numFmts>`
+        : '';
+    const styles = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        numFmts +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        `<cellXfs count="${2 + formats.length}">` +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        formats.map((_, i) => `<xf numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`).join('') +
+        '</cellXfs>' +
+        '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+        '</styleSheet>';
+
+    return createZip([
+        { name: '[Content_Types].xml', content: contentTypes },
+        { name: '_rels/.rels', content: rootRels },
+        { name: 'xl/workbook.xml', content: workbook },
+        { name: 'xl/_rels/workbook.xml.rels', content: workbookRels },
+        { name: 'xl/styles.xml', content: styles },
+        ...worksheets,
+    ], modified);
+}
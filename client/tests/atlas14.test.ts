@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    calculateHyetograph, formatAtlas14CurveName, getAtlas14ProbabilityLevels, getPublishedDurations, loadBundledDistributions,
+    getAtlas14SubTypesForVolume, registerAtlas14TemporalCsv, stormSubTypesByCategory
+} from '../src/utils/tr55';
+import { findAtlas14Region, loadAtlas14Regions } from '../src/utils/stormRegions';
+import { listAtlas14Files, readDistributionFile } from './distributions';
+
+// Made-up values in the HDSC table layout (title lines, a quartile section with its header of
+// probability levels, hours and cumulative percent); not published data
+const LAYOUT_FIXTURE = [
+    'Temporal distribution of precipitation, illustrative values',
+    'First-quartile',
+    'hours,90%,50%,10%',
+    '0,0,0,0',
+    '6,60,40,20',
+    '12,85,70,45',
+    '24,100,100,100',
+    '',
+    'All cases',
+    'hours,90%,50%,10%',
+    '0,0,0,0',
+    '12,70,50,30',
+    '24,100,100,100',
+].join('\n');
+
+test('every table in src/utils/atlas14 registers', { skip: listAtlas14Files().length === 0 && 'no Atlas 14 tables in src/utils/atlas14' }, () => {
+    listAtlas14Files().forEach(fileName => {
+        const registration = registerAtlas14TemporalCsv(fileName, readDistributionFile(`atlas14/${fileName}`));
+        assert.deepEqual(registration.errors, [], fileName);
+        assert.ok(registration.names.length > 0, fileName);
+        registration.names.forEach(subType => {
+            const levels = getAtlas14ProbabilityLevels(subType);
+            assert.ok(levels.length > 0, subType);
+            const duration = getPublishedDurations('Atlas14', formatAtlas14CurveName(subType, levels[0]))[0];
+            const result = calculateHyetograph({
+                totalDepthInput: 4, durationInput: duration, stormCategory: 'Atlas14', stormSubType: subType, atlas14Probability: levels[0],
+                timeStepMinutes: 6, depthUnit: 'us', durationUnit: 'hours',
+            });
+            assert.ok(Math.abs(result.totalDepthActual - 4) < 1e-6, subType);
+        });
+    });
+});
+
+test('the HDSC table layout parses into one sub-type per section', () => {
+    const registration = registerAtlas14TemporalCsv('atlas14/v99_T_24h.csv', LAYOUT_FIXTURE);
+    assert.deepEqual(registration.errors, []);
+    assert.deepEqual(registration.names, ['Vol. 99 Region T First Quartile', 'Vol. 99 Region T All Cases']);
+    assert.deepEqual(getAtlas14ProbabilityLevels('Vol. 99 Region T First Quartile'), [10, 50, 90]);
+    assert.ok(stormSubTypesByCategory.Atlas14.includes('Vol. 99 Region T All Cases'));
+
+    const result = calculateHyetograph({
+        totalDepthInput: 4, durationInput: 24, stormCategory: 'Atlas14', stormSubType: 'Vol. 99 Region T First Quartile', atlas14Probability: 90,
+        timeStepMinutes: 60, depthUnit: 'us', durationUnit: 'hours',
+    });
+    assert.equal(result.detailedData.length, 24);
+    assert.ok(Math.abs(result.detailedData[5].cumulativeDepth - 0.6 * 4) < 1e-6);
+    assert.ok(Math.abs(result.totalDepthActual - 4) < 1e-6);
+
+    // The same curves cannot be registered twice
+    assert.equal(registerAtlas14TemporalCsv('v99_T_24h.csv', LAYOUT_FIXTURE).errors.length, 2 * 3);
+});
+
+test('bad names and tables are refused, and skipped when bundled', () => {
+    assert.equal(registerAtlas14TemporalCsv('region1_24h.csv', LAYOUT_FIXTURE).errors.length, 1);
+    assert.equal(registerAtlas14TemporalCsv('v98_1_24h.csv', 'hours,90%\n0,0\n24,100').errors.length, 1);
+    assert.equal(registerAtlas14TemporalCsv('v98_1_24h.csv', LAYOUT_FIXTURE.replace('12,85,70,45', '12,55,70,45')).errors.length, 1);
+
+    loadBundledDistributions({
+        scs: readDistributionFile('design-storms.csv'),
+        nrcs: readDistributionFile('NRCS-design-storms.csv'),
+        huff: readDistributionFile('Huff-design-storms.csv'),
+        atlas14: { 'v97_A_6h.csv': LAYOUT_FIXTURE, 'v97_B_6h.csv': 'not a table' },
+    });
+    assert.deepEqual(getAtlas14ProbabilityLevels('Vol. 97 Region A All Cases'), [10, 50, 90]);
+    assert.deepEqual(getAtlas14ProbabilityLevels('Vol. 97 Region B All Cases'), []);
+});
+
+test('the temporal region boundaries pick the region containing a point', () => {
+    registerAtlas14TemporalCsv('v96_A_24h.csv', LAYOUT_FIXTURE);
+    registerAtlas14TemporalCsv('v96_B_24h.csv', LAYOUT_FIXTURE);
+    // Made-up squares either side of 90 W; not the HDSC regions
+    const square = (west: number) => [[[west, 30], [west + 10, 30], [west + 10, 40], [west, 40], [west, 30]]];
+    loadAtlas14Regions(JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+            { type: 'Feature', properties: { volume: 96, region: 'A' }, geometry: { type: 'Polygon', coordinates: square(-100) } },
+            { type: 'Feature', properties: { volume: 96, region: 'B' }, geometry: { type: 'Polygon', coordinates: square(-90) } },
+            { type: 'Feature', properties: { volume: 96 }, geometry: { type: 'Polygon', coordinates: square(-80) } },
+        ],
+    }));
+    assert.deepEqual(findAtlas14Region(35, -85), { volume: 96, region: 'B' });
+    assert.equal(findAtlas14Region(35, -75), null); // Feature without a region is skipped
+    assert.equal(findAtlas14Region(45, -85), null);
+    assert.deepEqual(getAtlas14SubTypesForVolume(96, 'B'), ['Vol. 96 Region B First Quartile', 'Vol. 96 Region B All Cases']);
+    assert.equal(getAtlas14SubTypesForVolume(96).length, 4);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph } from '../src/utils/tr55';
+import { HyetographFigureOptions, buildHyetographFigure, getHyetographCaption, renderFigureSvg } from '../src/utils/chartImage';
+import { measurePdfText } from '../src/utils/pdf';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+const STORM = calculateHyetograph({
+    totalDepthInput: 5, durationInput: 24, stormCategory: 'SCS', stormSubType: 'Type II', timeStepMinutes: 15, depthUnit: 'us', durationUnit: 'hours', curveNumber: 80,
+});
+const OPTIONS: HyetographFigureOptions = {
+    title: 'Design Storm <100-yr> & Runoff',
+    xAxisLabel: 'Time (hr)',
+    yAxisLabel: 'Intensity (in/hr)',
+    timeUnit: 'hr',
+    showCumulative: true,
+    cumulativeAxisLabel: 'Cumulative depth (in)',
+    caption: '',
+};
+
+test('the caption describes the storm once', () => {
+    assert.equal(getHyetographCaption(STORM, 'SCS Type II'),
+        `SCS Type II; 24.00 hr, 5.000 in total, 15-min step; peak ${STORM.peakIntensity.toFixed(3)} in/hr; runoff ${STORM.totalExcessDepth?.toFixed(3)} in.`);
+    assert.ok(getHyetographCaption(STORM, '').startsWith('24.00 hr, '));
+});
+
+test('the figure draws a bar per step, the cumulative line and a wrapped caption', () => {
+    const caption = getHyetographCaption(STORM, 'SCS Type II '.repeat(20));
+    const figure = buildHyetographFigure(STORM, { ...OPTIONS, caption });
+    const bars = figure.items.filter(item => item.type === 'rect' && item.stroke === 'rgb(54, 162, 235)'); // The legend swatch has no border
+    assert.equal(bars.length, STORM.detailedData.filter(step => step.intensity > 0).length);
+    const cumulative = figure.items.find(item => item.type === 'polyline' && item.points.length === STORM.detailedData.length + 1);
+    assert.ok(cumulative);
+
+    const captionLines = figure.items.filter(item => item.type === 'text' && item.size === 15);
+    assert.ok(captionLines.length > 1);
+    captionLines.forEach(line => assert.ok(line.type === 'text' && measurePdfText(line.text, 15) <= figure.width - 80));
+    assert.equal(captionLines.map(line => line.type === 'text' ? line.text : '').join(' '), caption);
+    assert.ok(figure.height > buildHyetographFigure(STORM, OPTIONS).height);
+
+    const withoutLine = buildHyetographFigure(STORM, { ...OPTIONS, showCumulative: false });
+    assert.ok(!withoutLine.items.some(item => item.type === 'polyline' && item.points.length === STORM.detailedData.length + 1));
+});
+
+test('the SVG is a standalone document with escaped text', () => {
+    const figure = buildHyetographFigure(STORM, OPTIONS);
+    const svg = renderFigureSvg(figure);
+    assert.ok(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg" '));
+    assert.ok(svg.endsWith('</svg>\n'));
+    assert.ok(svg.includes(`width="${figure.width}" height="${figure.height}" viewBox="0 0 ${figure.width} ${figure.height}"`));
+    assert.ok(svg.includes('>Design Storm &lt;100-yr&gt; &amp; Runoff</text>'));
+    assert.equal(svg.match(/<(rect|polyline|text) /g)?.length, figure.items.length);
+    assert.ok(svg.includes('transform="rotate(-90 '));
+});
@@ -0,0 +1,33 @@
+// Loads the bundled distribution CSVs from disk for the tests; the app and the CLI embed them at build time.
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { loadBundledDistributions } from '../src/utils/tr55';
+
+export const DISTRIBUTIONS_DIR = new URL('../src/utils/', import.meta.url);
+
+/**
+ * Reads a file from the bundled distributions folder.
+ * @param fileName Path relative to src/utils.
+ */
+export function readDistributionFile(fileName: string): string {
+    return readFileSync(new URL(fileName, DISTRIBUTIONS_DIR), 'utf-8');
+}
+
+/**
+ * File names of the NOAA Atlas 14 temporal tables in src/utils/atlas14.
+ */
+export function listAtlas14Files(): string[] {
+    return readdirSync(new URL('atlas14/', DISTRIBUTIONS_DIR)).filter(fileName => fileName.toLowerCase().endsWith('.csv'));
+}
+
+/**
+ * Registers the SCS, NRCS and Huff curves. Atlas 14 tables are left to the tests that check them.
+ * Each test file runs in its own process, so call this once at the top of the file.
+ */
+export function loadDistributions(): void {
+    loadBundledDistributions({
+        scs: readDistributionFile('design-storms.csv'),
+        nrcs: readDistributionFile('NRCS-design-storms.csv'),
+        huff: readDistributionFile('Huff-design-storms.csv'),
+    });
+}
@@ -0,0 +1,247 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalculationInputs, calculateHyetograph } from '../src/utils/tr55';
+import { generateHecHmsPackage, generateHecRasBoundary, generateHyetographCsv, generateSwmmDatContent, generateSwmmInpContent, generateWinTr20Records, getExportNotes, getNoaaWinTr20Storms } from '../src/utils/exporters';
+import { downloadTextFile } from '../src/utils/download';
+import { calculateRunoffHydrograph } from '../src/utils/runoff';
+import { parseStormStart } from '../src/utils/timestamps';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+// --- Helpers ---
+
+const STORM_INPUTS: CalculationInputs = {
+    totalDepthInput: 5,
+    durationInput: 24,
+    stormCategory: 'SCS',
+    stormSubType: 'Type II',
+    timeStepMinutes: 15,
+    depthUnit: 'us',
+    durationUnit: 'hours',
+};
+
+// A storm whose exports carry note lines (areal reduction and climate adjustment)
+const ADJUSTED_STORM = calculateHyetograph({
+    ...STORM_INPUTS,
+    arealReduction: { method: 'TP-29', drainageArea: 6400 },
+    climateAdjustment: { method: 'uniform', upliftPercent: 10 },
+});
+
+/**
+ * Runs a browser download with just enough of the DOM to capture the file it writes.
+ * @returns The downloaded file name and content.
+ */
+async function captureDownload(download: () => void): Promise<{ filename: string; content: string }> {
+    const link = { href: '', download: '', click: () => {} };
+    let blob: Blob | undefined;
+    const globals = globalThis as unknown as Record<string, unknown>;
+    const { createObjectURL, revokeObjectURL } = URL;
+    globals.document = { createElement: () => link, body: { appendChild: () => {}, removeChild: () => {} } };
+    URL.createObjectURL = (object: Blob) => {
+        blob = object;
+        return 'blob:test';
+    };
+    URL.revokeObjectURL = () => {};
+    try {
+        download();
+    } finally {
+        delete globals.document;
+        URL.createObjectURL = createObjectURL;
+        URL.revokeObjectURL = revokeObjectURL;
+    }
+    assert.ok(blob, 'no file was downloaded');
+    return { filename: link.download, content: await blob.text() };
+}
+
+// --- Hyetograph CSV ---
+
+test('the CSV carries the export notes ahead of the table', () => {
+    const notes = getExportNotes(ADJUSTED_STORM);
+    assert.equal(notes.length, 2);
+    const lines = generateHyetographCsv(ADJUSTED_STORM).trimEnd().split('\n');
+    assert.deepEqual(lines.slice(0, 2), notes.map(note => `# ${note}`));
+    assert.equal(lines[2], 'Time_Start,Time_End,Intensity_(in_per_hr),Depth_Step_(in),Cumulative_Depth_(in)');
+    assert.equal(lines.length, 3 + 96);
+    assert.equal(lines[3], `0:00,0:15,${ADJUSTED_STORM.detailedData[0].intensity.toFixed(5)},${ADJUSTED_STORM.detailedData[0].depthStep.toFixed(5)},${ADJUSTED_STORM.detailedData[0].cumulativeDepth.toFixed(5)}`);
+    assert.ok(lines[lines.length - 1].startsWith('23:45,24:00,'));
+});
+
+test('the CSV adds the rainfall excess columns when a curve number is applied', () => {
+    const lines = generateHyetographCsv(calculateHyetograph({ ...STORM_INPUTS, curveNumber: 80 })).split('\n');
+    assert.ok(lines[0].endsWith(',Excess_Step_(in),Loss_Step_(in),Cumulative_Runoff_(in)'));
+    assert.equal(lines[1].split(',').length, 8);
+});
+
+test('a downloaded CSV keeps its note lines and every row', async () => {
+    const csv = generateHyetographCsv(ADJUSTED_STORM);
+    const { filename, content } = await captureDownload(() => downloadTextFile(csv, 'storm.csv', 'text/csv;charset=utf-8'));
+    assert.equal(filename, 'storm.csv');
+    assert.equal(content, csv);
+});
+
+// --- SWMM Files ---
+
+test('the SWMM .dat series has one line per step and a closing zero', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const info = { stormCategory: 'SCS', stormSubType: 'Type II', duration: 24, totalDepth: 5, depthUnits: 'us' } as const;
+    const lines = generateSwmmDatContent(storm, info).trimEnd().split('\n');
+    assert.equal(lines[0], ';SCS_Type_II 24hr 5in GStorm Hyetograph');
+    assert.equal(lines.length, 1 + 96 + 1);
+    assert.equal(lines[1], `0:00  ${storm.detailedData[0].intensity.toFixed(4)}`);
+    assert.equal(lines[lines.length - 1], '24:00  0');
+
+    const noted = generateSwmmDatContent(ADJUSTED_STORM, { ...info, title: 'Adjusted' }).split('\n');
+    assert.deepEqual(noted.slice(0, 3), [...getExportNotes(ADJUSTED_STORM).map(note => `;${note}`), ';Adjusted GStorm Hyetograph']);
+});
+
+test('the SWMM .inp fragment combines steps into the gage interval', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const seriesRows = (content: string) => content.split('\n').filter(line => line.startsWith('Gage_1_TS ')).map(line => line.trim().split(/\s+/));
+    const options = { gageName: 'Gage 1', intervalMinutes: 30, snowCatchFactor: 1 };
+
+    const intensity = generateSwmmInpContent(storm, { ...options, rainFormat: 'INTENSITY' });
+    assert.ok(intensity);
+    assert.match(intensity, /\n\[RAINGAGES\]\n/);
+    assert.match(intensity, /\nGage_1 +INTENSITY 0:30 +1 +TIMESERIES Gage_1_TS\n/);
+    const intensityRows = seriesRows(intensity);
+    assert.equal(intensityRows.length, 48 + 1);
+    const firstInterval = storm.detailedData[0].depthStep + storm.detailedData[1].depthStep;
+    assert.deepEqual(intensityRows[0], ['Gage_1_TS', '0:00', (firstInterval / 0.5).toFixed(5)]);
+    assert.deepEqual(intensityRows[48], ['Gage_1_TS', '24:00', '0.00000']);
+
+    const volumeRows = seriesRows(generateSwmmInpContent(storm, { ...options, rainFormat: 'VOLUME' }) ?? '');
+    const volumeTotal = volumeRows.slice(0, -1).reduce((sum, row) => sum + Number(row[2]), 0);
+    assert.ok(Math.abs(volumeTotal - 5) < 1e-3);
+    const cumulativeRows = seriesRows(generateSwmmInpContent(storm, { ...options, rainFormat: 'CUMULATIVE' }) ?? '');
+    assert.equal(cumulativeRows[47][2], '5.00000');
+
+    // 20 min is not a multiple of the 15-min step
+    assert.equal(generateSwmmInpContent(storm, { ...options, rainFormat: 'VOLUME', intervalMinutes: 20 }), null);
+});
+
+// --- HEC-HMS Files ---
+
+test('the HEC-HMS package names its files after the storm and stamps interval ends', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const info = { stormCategory: 'SCS', stormSubType: 'Type II', duration: 24, totalDepth: 5, depthUnits: 'us', noaaReturnPeriod: 100 } as const;
+    const files = generateHecHmsPackage(storm, info, { basinModel: 'Existing', subbasins: ['Sub-1', 'Sub-2'], now: new Date(2024, 5, 1, 12) });
+    assert.ok(files);
+    assert.deepEqual(files.map(file => file.name), ['GStorm_SCS_Type_II_24hr.gage', 'GStorm_SCS_Type_II_24hr.met', 'GStorm_SCS_Type_II_24hr.csv', 'README.txt']);
+    const [gage, met, csv] = files.map(file => String(file.content));
+    assert.match(gage, /\n {5}Description: GStorm 100-yr SCS Type II 24-hr 5 in\n/);
+    assert.match(gage, /\n {5}Start Time: 1 January 2000, 00:00\n {5}End Time: 2 January 2000, 00:00\n/);
+    assert.match(gage, /\n {5}DSS Pathname: \/\/GSTORM_SCS_TYPE_II_24HR\/PRECIP-INC\/01JAN2000\/15MIN\/GSTORM\/\n/);
+    assert.match(met, /\nSubbasin: Sub-1\n {5}Gage: GStorm_SCS_Type_II_24hr\nEnd:\n\nSubbasin: Sub-2\n/);
+    const rows = csv.trimEnd().split('\n');
+    assert.equal(rows[0], 'Ordinate,Date,Time,Precipitation (IN)');
+    assert.equal(rows.length, 1 + 96);
+    assert.equal(rows[1], `1,01Jan2000,00:15,${storm.detailedData[0].depthStep.toFixed(5)}`);
+    assert.ok(rows[96].startsWith('96,01Jan2000,24:00,'));
+
+    const dated = calculateHyetograph({ ...STORM_INPUTS, stormStart: parseStormStart('2024-06-01T18:00', '-05:00') ?? undefined });
+    const datedGage = String(generateHecHmsPackage(dated, info, { basinModel: 'Existing', subbasins: ['Sub-1'] })?.[0].content);
+    assert.match(datedGage, /\n {5}Start Time: 1 June 2024, 18:00\n {5}End Time: 2 June 2024, 18:00\n/);
+
+    // HMS has no 7-min gage interval
+    assert.equal(generateHecHmsPackage(calculateHyetograph({ ...STORM_INPUTS, timeStepMinutes: 7, durationInput: 7 }), info, { basinModel: 'Existing', subbasins: [] }), null);
+});
+
+// --- WinTR-20 Files ---
+
+test('WinTR-20 records place fields in 10-column slots from column 11', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const records = generateWinTr20Records(storm, { tableId: 'TYPE_II', incrementHours: 1 });
+    assert.ok(records);
+    const lines = records.trimEnd().split('\n');
+    assert.equal(lines[0], 'STORM ANALYSIS:');
+    assert.equal(lines[1], `${' '.repeat(10)}GSTORM    5.000     24.00     TYPE_II   2`);
+    assert.equal(lines[3], 'RAINFALL DISTRIBUTION:');
+    assert.equal(lines[4], `${' '.repeat(10)}TYPE_II   1`);
+
+    // 25 ordinates at 1 hr, five per record in columns 21-70
+    const ordinateLines = lines.slice(5);
+    assert.equal(ordinateLines.length, 5);
+    ordinateLines.forEach(line => assert.equal(line.slice(0, 20).trim(), ''));
+    const ordinates = ordinateLines.flatMap(line => line.slice(20).trim().split(/\s+/).map(Number));
+    assert.equal(ordinates.length, 25);
+    assert.equal(ordinates[0], 0);
+    assert.equal(ordinates[24], 1);
+    assert.ok(Math.abs(ordinates[12] - 0.663) < 1e-3);
+    assert.ok(ordinates.every((value, i) => i === 0 || value >= ordinates[i - 1]));
+
+    // 5 hr does not divide 24 hr
+    assert.equal(generateWinTr20Records(storm, { tableId: 'T', incrementHours: 5 }), null);
+});
+
+test('WinTR-20 storms come in inches, one per NOAA return period', () => {
+    const metric = calculateHyetograph({ ...STORM_INPUTS, totalDepthInput: 127, depthUnit: 'metric' });
+    assert.match(generateWinTr20Records(metric, { tableId: 'T', incrementHours: 6, antecedentCondition: 3 }) ?? '', /\n {10}GSTORM {4}5\.000 {5}24\.00 {5}T {9}3\n/);
+
+    const dataPoints = (depth6: number, depth24: number) => [
+        { durationLabel: '6-hr', depth: depth6, durationValue: 6, durationUnits: 'hours' as const },
+        { durationLabel: '24-hr', depth: depth24, durationValue: 24, durationUnits: 'hours' as const },
+    ];
+    const storms = getNoaaWinTr20Storms([
+        { returnPeriod: 10, dataPoints: dataPoints(2.5, 4.1) },
+        { returnPeriod: 100, dataPoints: dataPoints(3.9, 6.6) },
+    ], 24 * 60);
+    assert.deepEqual(storms, [{ id: '10-Yr', depth: 4.1 }, { id: '100-Yr', depth: 6.6 }]);
+    const lines = generateWinTr20Records(calculateHyetograph(STORM_INPUTS), { tableId: 'T', incrementHours: 6, storms })?.split('\n') ?? [];
+    assert.deepEqual(lines.slice(1, 3), [`${' '.repeat(10)}10-Yr     4.100     24.00     T         2`, `${' '.repeat(10)}100-Yr    6.600     24.00     T         2`]);
+});
+
+test('WinTR-20 records open with the export notes as comment lines', () => {
+    const notes = getExportNotes(ADJUSTED_STORM);
+    assert.equal(notes.length, 2);
+    const lines = generateWinTr20Records(ADJUSTED_STORM, { tableId: 'T', incrementHours: 1 })?.split('\n') ?? [];
+    assert.deepEqual(lines.slice(0, 2), notes.map(note => `# ${note}`));
+    assert.equal(lines[2], 'STORM ANALYSIS:');
+});
+
+// --- HEC-RAS Files ---
+
+test('the HEC-RAS boundary writes every value in 8-column fields', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const locationOptions = { flowAreaName: 'Perimeter 1', river: 'Creek', reach: 'Upper', station: '1200' };
+    const block = generateHecRasBoundary(storm, { ...locationOptions, boundaryType: 'precipitation' });
+    assert.ok(block);
+    const lines = block.split('\n');
+    assert.ok(lines[0].startsWith('Boundary Location='));
+    assert.equal(lines[0].split(',')[5].trim(), 'Perimeter 1');
+    assert.equal(lines[1], 'Interval=15MIN');
+    assert.equal(lines[2], 'Precipitation Hydrograph= 97 ');
+
+    // 97 values (a leading zero, then each step's depth) on 10 lines of up to 10 fields
+    const valueLines = lines.slice(3, 13);
+    valueLines.forEach(line => assert.equal(line.length % 8, 0));
+    const values = valueLines.flatMap(line => line.match(/.{8}/g) ?? []).map(Number);
+    assert.equal(values.length, 97);
+    assert.equal(values[0], 0);
+    assert.ok(Math.abs(values.reduce((sum, value) => sum + value, 0) - 5) < 1e-3);
+    assert.equal(lines[13], 'DSS Path=');
+    assert.ok(lines.includes('Use Fixed Start Time=False'));
+
+    const dated = calculateHyetograph({ ...STORM_INPUTS, stormStart: parseStormStart('2024-06-01T18:00', 'America/Chicago') ?? undefined });
+    const datedLines = generateHecRasBoundary(dated, { ...locationOptions, boundaryType: 'precipitation' })?.split('\n') ?? [];
+    assert.ok(datedLines.includes('Use Fixed Start Time=True'));
+    assert.ok(datedLines.includes('Fixed Start Date/Time=01Jun2024,1800'));
+});
+
+test('a HEC-RAS lateral inflow needs the runoff hydrograph', () => {
+    const storm = calculateHyetograph(STORM_INPUTS);
+    const options = { boundaryType: 'lateralInflow', flowAreaName: '', river: 'Creek', reach: 'Upper', station: '1200' } as const;
+    assert.equal(generateHecRasBoundary(storm, options, null), null);
+
+    const runoff = calculateRunoffHydrograph(storm, { drainageArea: 640, curveNumber: 80, timeOfConcentrationHours: 2, peakRateFactor: 484 });
+    const lines = generateHecRasBoundary(storm, options, runoff)?.split('\n') ?? [];
+    assert.deepEqual(lines[0].split(',').slice(0, 3).map(field => field.trim()), ['Boundary Location=Creek', 'Upper', '1200']);
+    assert.equal(lines[2], `Lateral Inflow Hydrograph= ${runoff?.dischargeData.length} `);
+});
+
+test('the HEC-RAS block is headed by the export notes', () => {
+    const options = { boundaryType: 'precipitation', flowAreaName: 'Perimeter 1', river: '', reach: '', station: '' } as const;
+    const lines = generateHecRasBoundary(ADJUSTED_STORM, options)?.split('\n') ?? [];
+    assert.deepEqual(lines.slice(0, 2), getExportNotes(ADJUSTED_STORM).map(note => `# ${note}`));
+    assert.ok(lines[2].startsWith('Boundary Location='));
+});
@@ -0,0 +1,36 @@
+// Form inputs shared by the tests, laid out as the web app's storm form holds them.
+
+import { StormInputParameters } from '../src/types';
+
+export const FORM_INPUTS: StormInputParameters = {
+    totalDepth: '5',
+    duration: 24,
+    stormCategory: 'SCS',
+    stormSubType: 'Type II',
+    timeStep: '15',
+    depthUnits: 'us',
+    curveNumber: '',
+    initialAbstractionRatio: 0.2,
+    drainageArea: '',
+    timeOfConcentration: '1.0',
+    peakRateFactor: '484',
+    peakPosition: '0.5',
+    noaaReturnPeriod: null,
+    idfA: '60',
+    idfB: '10',
+    idfC: '0.8',
+    huffProbability: null,
+    arealReductionMethod: 'none',
+    climateMethod: 'none',
+    climateUpliftPercent: '20',
+    climateScalingRate: '7',
+    climateWarming: '2',
+    climateChangeFactors: [],
+    climateTableName: '',
+    interpolationMode: 'linear',
+    atlas14Probability: 50,
+    peakShift: '',
+    stormStart: '',
+    timeZone: 'UTC',
+    timeFormat: 'relative',
+};
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph, getHuffProbabilityLevels, registerHuffProbabilityCurves } from '../src/utils/tr55';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+// Made-up curves in the Bulletin 71 layout (quartile, probability, cumulative percent of rainfall
+// at each percent of storm time); not published data
+const PROBABILITY_TABLE = [
+    'Quartile,Probability,0,25,50,75,100',
+    'I,10,0,80,92,97,100',
+    'I,50,0,55,80,92,100',
+    'Fourth,90,0,0.05,0.15,0.4,1',
+].join('\n');
+
+test('a probability table registers one curve per row', () => {
+    const registration = registerHuffProbabilityCurves(PROBABILITY_TABLE);
+    assert.deepEqual(registration.errors, []);
+    assert.deepEqual(registration.names, ['Huff Type I 10%', 'Huff Type I 50%', 'Huff Type IV 90%']);
+    assert.deepEqual(getHuffProbabilityLevels('Huff Type I'), [10, 50]);
+    assert.deepEqual(getHuffProbabilityLevels('Huff Type IV'), [90]);
+
+    // Curves are dimensionless in time, so any duration reads them directly
+    const result = calculateHyetograph({
+        totalDepthInput: 2, durationInput: 3, stormCategory: 'Huff', stormSubType: 'Huff Type I', huffProbability: 10,
+        timeStepMinutes: 15, depthUnit: 'us', durationUnit: 'hours',
+    });
+    assert.equal(result.detailedData.length, 12);
+    assert.ok(Math.abs(result.detailedData[2].cumulativeDepth - 0.8 * 2) < 1e-6);
+    assert.ok(Math.abs(result.totalDepthActual - 2) < 1e-6);
+
+    const fraction = calculateHyetograph({
+        totalDepthInput: 2, durationInput: 4, stormCategory: 'Huff', stormSubType: 'Huff Type IV', huffProbability: 90,
+        timeStepMinutes: 60, depthUnit: 'us', durationUnit: 'hours',
+    });
+    assert.ok(Math.abs(fraction.detailedData[1].cumulativeDepth - 0.15 * 2) < 1e-6);
+});
+
+test('bad probability tables are refused as a whole', () => {
+    const cases = [
+        'Quartile,Probability,0,50,90\nI,20,0,50,100',         // Times do not reach 100
+        'Quartile,Probability,0,50,100\nV,20,0,50,100',        // Unknown quartile
+        'Quartile,Probability,0,50,100\nII,100,0,50,100',      // Probability out of range
+        'Quartile,Probability,0,50,100\nII,20,0,60,50',        // Decreasing rainfall
+        'Quartile,Probability,0,50,100\nII,20,0,50,100\nII,20,0,40,100', // Duplicate curve
+    ];
+    cases.forEach(csvText => {
+        const registration = registerHuffProbabilityCurves(csvText);
+        assert.equal(registration.names.length, 0, csvText);
+        assert.equal(registration.errors.length, 1, csvText);
+    });
+    assert.deepEqual(getHuffProbabilityLevels('Huff Type II'), []);
+});
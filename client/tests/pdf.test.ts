@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph } from '../src/utils/tr55';
+import { createPdf, measurePdfText } from '../src/utils/pdf';
+import { generateStormReport } from '../src/utils/report';
+import { loadDistributions } from './distributions';
+import { FORM_INPUTS } from './fixtures';
+
+loadDistributions();
+
+/**
+ * Checks the cross-reference table of a PDF: every offset points at its object, and startxref at the table.
+ * @returns The document as Latin-1 text (one character per byte) and its page count.
+ */
+function checkPdfStructure(pdf: Uint8Array): { text: string; pageCount: number } {
+    const text = Buffer.from(pdf).toString('latin1');
+    assert.ok(text.startsWith('%PDF-1.4\n'));
+    assert.ok(text.endsWith('%%EOF\n'));
+    const startXref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    assert.ok(text.startsWith('xref\n', startXref), 'startxref points at the table');
+
+    const [, first, count] = text.slice(startXref).match(/^xref\n(\d+) (\d+)\n/) ?? [];
+    assert.equal(Number(first), 0);
+    const entries = text.slice(startXref).split('\n').slice(2, 2 + Number(count));
+    assert.equal(entries[0], '0000000000 65535 f ');
+    entries.slice(1).forEach((entry, i) => {
+        assert.match(entry, /^\d{10} 00000 n $/);
+        assert.ok(text.startsWith(`${i + 1} 0 obj\n`, Number(entry.slice(0, 10))), `object ${i + 1}`);
+    });
+    assert.match(text, new RegExp(`trailer\\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>`));
+
+    // Stream lengths match their content
+    for (const match of text.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+        const start = (match.index ?? 0) + match[0].length;
+        assert.ok(text.startsWith('\nendstream\n', start + Number(match[1])), 'stream length');
+    }
+    return { text, pageCount: Number(text.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)?.[1]) };
+}
+
+test('text widths follow the Helvetica metrics', () => {
+    assert.ok(Math.abs(measurePdfText('Hello', 10) - 22.78) < 1e-9);
+    assert.ok(measurePdfText('Hello', 10, true) > measurePdfText('Hello', 10));
+});
+
+test('a PDF has a valid cross-reference table and escaped strings', () => {
+    const { text, pageCount } = checkPdfStructure(createPdf([
+        { items: [{ type: 'text', x: 72, y: 72, text: 'Storm (24-hr) \\ report', size: 12 }, { type: 'line', x1: 72, y1: 80, x2: 540, y2: 80 }] },
+        { items: [{ type: 'rect', x: 72, y: 72, width: 100, height: 50, fillGray: 0.9, strokeGray: 0 }] },
+    ], 'Test – report', new Date(2024, 5, 1, 18, 30, 5)));
+    assert.equal(pageCount, 2);
+    assert.match(text, /\(Storm \\\(24-hr\\\) \\\\ report\) Tj/);
+    assert.match(text, /\/CreationDate \(D:20240601183005\)/);
+    // The en dash is WinAnsi code 150, written as an octal escape
+    assert.ok(text.includes('/Title (Test \\226 report)'));
+});
+
+test('the storm report runs the step table across numbered pages', () => {
+    const storm = calculateHyetograph({
+        totalDepthInput: 5, durationInput: 24, stormCategory: 'SCS', stormSubType: 'Type II', timeStepMinutes: 6, depthUnit: 'us', durationUnit: 'hours',
+    });
+    const pdf = generateStormReport(storm, { ...FORM_INPUTS, timeStep: '6' }, null, {
+        projectTitle: 'Culvert Replacement', preparedBy: 'A. Engineer', chartImage: null, generatedAt: new Date(2024, 5, 1),
+    });
+    const { text, pageCount } = checkPdfStructure(pdf);
+    assert.ok(pageCount > 2);
+    assert.ok(text.includes(`(Page ${pageCount} of ${pageCount}) Tj`));
+    assert.ok(text.includes('(Culvert Replacement) Tj'));
+    // Every one of the 240 steps is listed
+    assert.ok(text.includes('(23:54) Tj'));
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph } from '../src/utils/tr55';
+import { StoredCustomDistribution, restoreCustomDistributions } from '../src/utils/customDistributions';
+import { PROJECT_FILE_FORMAT, PROJECT_FILE_VERSION, createProjectFile, parseProjectFile } from '../src/utils/projectFile';
+import { loadDistributions } from './distributions';
+import { FORM_INPUTS } from './fixtures';
+
+loadDistributions();
+
+// Browser storage for the custom distribution store
+const storage = new Map<string, string>();
+(globalThis as unknown as Record<string, unknown>).window = {
+    localStorage: { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value) },
+};
+
+const STORM = calculateHyetograph({
+    totalDepthInput: 5, durationInput: 24, stormCategory: 'SCS', stormSubType: 'Type II', timeStepMinutes: 15, depthUnit: 'us', durationUnit: 'hours',
+});
+const PROJECT = {
+    inputs: { ...FORM_INPUTS, climateMethod: 'table' as const, climateChangeFactors: [{ durationHours: 24, factor: 1.15 }], climateTableName: 'factors.csv' },
+    noaa: { latitude: 41.88, longitude: -87.63, data: null, atlas14Volume: 2, retrievedAt: Date.UTC(2024, 5, 1) },
+    customDistributions: [],
+    seriesEvents: [],
+    results: { calculatedInputs: FORM_INPUTS, calculationResult: STORM, runoffResult: null },
+};
+
+test('a saved project opens as it was saved', () => {
+    const text = createProjectFile(PROJECT, new Date(Date.UTC(2024, 5, 2)));
+    const saved = JSON.parse(text);
+    assert.equal(saved.format, PROJECT_FILE_FORMAT);
+    assert.equal(saved.version, PROJECT_FILE_VERSION);
+    assert.equal(saved.savedAt, '2024-06-02T00:00:00.000Z');
+
+    const { project, diagnostics } = parseProjectFile(text, FORM_INPUTS);
+    assert.deepEqual(diagnostics, []);
+    // Compared after a JSON round trip, which drops the undefined fields of the results
+    assert.deepEqual(project, { format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, savedAt: '2024-06-02T00:00:00.000Z', ...JSON.parse(JSON.stringify(PROJECT)) });
+});
+
+test('inputs added since the file was saved take their defaults', () => {
+    const saved = JSON.parse(createProjectFile(PROJECT));
+    delete saved.inputs.timeFormat;
+    const { project } = parseProjectFile(JSON.stringify(saved), { ...FORM_INPUTS, timeFormat: 'iso' });
+    assert.equal(project?.inputs.timeFormat, 'iso');
+    assert.equal(project?.inputs.climateTableName, 'factors.csv');
+});
+
+test('a version 1 project is upgraded to the time zone input', () => {
+    const { timeZone, ...inputs } = FORM_INPUTS;
+    const version1 = {
+        ...JSON.parse(createProjectFile(PROJECT)),
+        version: 1,
+        inputs: { ...inputs, utcOffset: '-05:00' },
+        results: { calculatedInputs: { ...inputs, utcOffset: '+01:00' }, calculationResult: STORM, runoffResult: null },
+    };
+    const { project, diagnostics } = parseProjectFile(JSON.stringify(version1), { ...FORM_INPUTS, timeZone: 'America/Denver' });
+    assert.ok(project);
+    assert.equal(project.version, PROJECT_FILE_VERSION);
+    assert.equal(project.inputs.timeZone, '-05:00');
+    assert.equal(project.results?.calculatedInputs?.timeZone, '+01:00');
+    assert.ok(!('utcOffset' in project.inputs));
+    assert.deepEqual(diagnostics.map(d => [d.code, d.severity]), [['PROJECT_FILE_MIGRATED', 'info']]);
+});
+
+test('unreadable and newer files are refused', () => {
+    const refused = (text: string) => {
+        const { project, diagnostics } = parseProjectFile(text, FORM_INPUTS);
+        assert.equal(project, null);
+        assert.equal(diagnostics[0].code, 'PROJECT_FILE_INVALID');
+        return diagnostics[0].message;
+    };
+    refused('{ not json');
+    refused(JSON.stringify({ format: 'other', version: 1 }));
+    refused(JSON.stringify({ format: PROJECT_FILE_FORMAT, version: 0, inputs: {} }));
+    refused(JSON.stringify({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION }));
+    assert.match(refused(JSON.stringify({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION + 1, inputs: {} })), /newer GStorm/);
+});
+
+test('damaged entries are left out with a warning', () => {
+    const saved = JSON.parse(createProjectFile(PROJECT));
+    saved.customDistributions = [{ names: ['Mine'], name: 'Mine', format: 'cumulative', csvText: 'Time,Value\n0,0\n24,1' }, { name: 'Broken' }];
+    saved.seriesEvents = [{ id: 1, result: STORM }, { id: 2 }];
+    saved.results.calculationResult = { detailedData: 'lost' };
+    const { project, diagnostics } = parseProjectFile(JSON.stringify(saved), FORM_INPUTS);
+    assert.equal(project?.customDistributions.length, 1);
+    assert.equal(project?.seriesEvents.length, 1);
+    assert.equal(project?.results, null);
+    assert.deepEqual(diagnostics.map(d => [d.code, d.message]), [['PROJECT_FILE_ADJUSTED', '2 damaged custom distribution or event series entries were left out.']]);
+});
+
+test("a project's distribution files replace stored ones with the same names", () => {
+    const file = (csvText: string): StoredCustomDistribution => ({ names: ['Site Storm - 24HR'], name: 'Site Storm', format: 'cumulative', csvText });
+    const stored = restoreCustomDistributions([file('Time,Cumulative\n0:00,0\n12:00,0.4\n24:00,1')], []);
+    assert.deepEqual(stored.messages, []);
+    assert.equal(stored.entries.length, 1);
+    const names = stored.entries[0].names;
+
+    // The same file is kept as it is; a different one replaces it
+    assert.deepEqual(restoreCustomDistributions([{ ...stored.entries[0] }], stored.entries), stored);
+    const replaced = restoreCustomDistributions([{ ...file('Time,Cumulative\n0:00,0\n12:00,0.7\n24:00,1'), names }], stored.entries);
+    assert.equal(replaced.messages.length, 1);
+    assert.match(replaced.messages[0], /replaced by the project's copy/);
+    assert.equal(replaced.entries.length, 1);
+    assert.equal(JSON.parse(storage.get('gstorm.customDistributions') ?? '[]').length, 1);
+
+    const broken = restoreCustomDistributions([{ ...file('nothing here'), names: ['Other'] }], replaced.entries);
+    assert.match(broken.messages[0], /could not be restored/);
+    assert.equal(broken.entries.length, 1);
+});
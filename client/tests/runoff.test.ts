@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph, calculateScsRunoff } from '../src/utils/tr55';
+import { calculateRunoffHydrograph, shapeFactorForPeakRateFactor } from '../src/utils/runoff';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+const STORM = calculateHyetograph({
+    totalDepthInput: 5,
+    durationInput: 24,
+    stormCategory: 'SCS',
+    stormSubType: 'Type II',
+    timeStepMinutes: 6,
+    depthUnit: 'us',
+    durationUnit: 'hours',
+});
+const RUNOFF_INPUTS = { drainageArea: 640, curveNumber: 80, timeOfConcentrationHours: 1.5, peakRateFactor: 484 };
+
+test('the convolved hydrograph holds the runoff volume', () => {
+    const runoff = calculateRunoffHydrograph(STORM, RUNOFF_INPUTS);
+    assert.ok(runoff);
+    const runoffDepth = calculateScsRunoff(5, 2.5);
+    assert.ok(Math.abs(runoff.runoffDepth - runoffDepth) < 1e-9);
+    // acre-ft = inches / 12 * acres; the unit hydrograph is rescaled to hold exactly one inch
+    assert.ok(Math.abs(runoff.runoffVolume - runoffDepth / 12 * 640) < 1e-6);
+    const integrated = runoff.dischargeData.reduce((sum, q) => sum + q, 0) * 6 * 60 / 43560;
+    assert.ok(Math.abs(integrated - runoff.runoffVolume) < 1e-6);
+    assert.equal(runoff.dischargeData[0], 0);
+});
+
+test('unit hydrograph timing and peak rate factor', () => {
+    const standard = calculateRunoffHydrograph(STORM, RUNOFF_INPUTS);
+    const flat = calculateRunoffHydrograph(STORM, { ...RUNOFF_INPUTS, peakRateFactor: 300 });
+    assert.ok(standard && flat);
+    assert.ok(Math.abs(standard.lagTime - 54) < 1e-9);
+    assert.ok(Math.abs(standard.unitHydrographTimeToPeak - 57) < 1e-9);
+    assert.ok(flat.peakFlow < standard.peakFlow);
+    assert.ok(Math.abs(flat.runoffVolume - standard.runoffVolume) < 1e-6);
+    // m = 3.7 reproduces the standard NRCS dimensionless unit hydrograph
+    assert.ok(Math.abs(shapeFactorForPeakRateFactor(484) - 3.7) < 0.01);
+});
+
+test('coarse steps are flagged and invalid inputs are refused', () => {
+    const runoff = calculateRunoffHydrograph(STORM, { ...RUNOFF_INPUTS, timeOfConcentrationHours: 0.25 });
+    assert.equal(runoff?.warnings.length, 1);
+    assert.equal(calculateRunoffHydrograph(STORM, { ...RUNOFF_INPUTS, curveNumber: 120 }), null);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadStormRegions, suggestStormTypes } from '../src/utils/stormRegions';
+import { readDistributionFile } from './distributions';
+
+loadStormRegions(readDistributionFile('storm-regions.geojson'));
+
+/**
+ * Region names suggested for a point, most specific first.
+ */
+function regionsAt(lat: number, lon: number): string[] {
+    return suggestStormTypes(lat, lon).map(suggestion => suggestion.regionName);
+}
+
+test('cities fall in their NRCS area and SCS type', () => {
+    assert.deepEqual(regionsAt(41.878, -87.630), ['NRCS Ohio Valley', 'SCS Type II']);   // Chicago
+    assert.deepEqual(regionsAt(47.606, -122.332), ['SCS Type IA']);                      // Seattle
+    assert.deepEqual(regionsAt(34.052, -118.244), ['NRCS California', 'SCS Type I']);    // Los Angeles
+    assert.deepEqual(regionsAt(29.951, -90.072), ['NRCS Southeast', 'SCS Type III']);    // New Orleans
+});
+
+test('Alaska and Puerto Rico are covered', () => {
+    const anchorage = suggestStormTypes(61.218, -149.900);
+    assert.deepEqual(anchorage.map(suggestion => suggestion.regionName), ['SCS Alaska']);
+    assert.deepEqual(anchorage[0].stormSubTypes, ['Type I', 'Type Ia', 'Type II']);
+    assert.deepEqual(suggestStormTypes(18.466, -66.106), [
+        { regionName: 'SCS Puerto Rico and Virgin Islands', stormCategory: 'SCS', stormSubTypes: ['Type II'] },
+    ]); // San Juan
+    assert.deepEqual(regionsAt(21.307, -157.858), ['SCS Type I']); // Honolulu
+});
+
+test('points outside every region get no suggestion', () => {
+    assert.deepEqual(regionsAt(35, -40), []);   // Mid-Atlantic Ocean
+    assert.deepEqual(regionsAt(NaN, -90), []);
+});
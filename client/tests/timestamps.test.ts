@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateHyetograph } from '../src/utils/tr55';
+import { formatStepTime, generateHyetographCsv } from '../src/utils/exporters';
+import { formatCalendarTimestamp, formatTimestamp, isValidTimeZone, parseStormStart, parseUtcOffset } from '../src/utils/timestamps';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+test('UTC offsets in the accepted spellings', () => {
+    assert.equal(parseUtcOffset('-05:00'), -300);
+    assert.equal(parseUtcOffset('+0530'), 330);
+    assert.equal(parseUtcOffset('UTC+9'), 540);
+    assert.equal(parseUtcOffset('Z'), 0);
+    assert.equal(parseUtcOffset('+15:00'), null);
+    assert.equal(parseUtcOffset('-05:75'), null);
+    assert.equal(parseUtcOffset('America/Chicago'), null);
+    assert.ok(isValidTimeZone('America/Chicago'));
+    assert.ok(!isValidTimeZone('America/Springfield'));
+    assert.ok(!isValidTimeZone('-05:00'));
+});
+
+test('a storm start in a fixed offset or an IANA zone', () => {
+    assert.deepEqual(parseStormStart('2024-06-01T18:00', '-05:00'), { start: Date.UTC(2024, 5, 1, 23), utcOffsetMinutes: -300 });
+    assert.deepEqual(parseStormStart('2024-06-01 18:00', 'America/Chicago'), { start: Date.UTC(2024, 5, 1, 23), utcOffsetMinutes: -300, timeZone: 'America/Chicago' });
+    assert.deepEqual(parseStormStart('2024-01-15T18:00', 'America/Chicago'), { start: Date.UTC(2024, 0, 16, 0), utcOffsetMinutes: -360, timeZone: 'America/Chicago' });
+    assert.equal(parseStormStart('2024-02-30T00:00', 'UTC'), null);
+    assert.equal(parseStormStart('2024-06-01', 'UTC'), null);
+    assert.equal(parseStormStart('2024-06-01T18:00', 'Mars/Olympus'), null);
+});
+
+test('daylight saving changes: skipped times are refused, repeated times read as the first', () => {
+    assert.equal(parseStormStart('2024-03-10T02:30', 'America/New_York'), null);
+    const repeated = parseStormStart('2024-11-03T01:30', 'America/New_York');
+    assert.deepEqual(repeated, { start: Date.UTC(2024, 10, 3, 5, 30), utcOffsetMinutes: -240, timeZone: 'America/New_York' });
+    assert.equal(formatCalendarTimestamp(Date.UTC(2024, 10, 3, 6, 30), repeated, 'iso'), '2024-11-03T01:30:00-05:00');
+});
+
+test('dated steps follow the zone across a daylight saving change', () => {
+    const storm = calculateHyetograph({
+        totalDepthInput: 2, durationInput: 6, stormCategory: 'SCS', stormSubType: 'Type II', timeStepMinutes: 60, depthUnit: 'us', durationUnit: 'hours',
+        stormStart: parseStormStart('2024-03-10T00:00', 'America/New_York') ?? undefined,
+    });
+    const starts = storm.detailedData.map(step => formatStepTime(step, 'start', storm, 'iso'));
+    assert.deepEqual(starts, [
+        '2024-03-10T00:00:00-05:00', '2024-03-10T01:00:00-05:00', '2024-03-10T03:00:00-04:00',
+        '2024-03-10T04:00:00-04:00', '2024-03-10T05:00:00-04:00', '2024-03-10T06:00:00-04:00',
+    ]);
+    assert.equal(formatStepTime(storm.detailedData[5], 'end', storm, 'us'), '03/10/2024 07:00');
+    assert.equal(formatStepTime(storm.detailedData[1], 'end', storm, 'relative'), '2:00');
+
+    const csv = generateHyetographCsv(storm, 'iso').split('\n');
+    assert.equal(csv[0], '# Storm start 2024-03-10T00:00:00-05:00 (local times in America/New_York)');
+    assert.ok(csv[2].startsWith('2024-03-10T00:00:00-05:00,2024-03-10T01:00:00-05:00,'));
+});
+
+test('fixed offsets ignore daylight saving', () => {
+    const july = Date.UTC(2024, 6, 4, 12);
+    assert.equal(formatTimestamp(july, -300, 'iso'), '2024-07-04T07:00:00-05:00');
+    assert.equal(formatCalendarTimestamp(july, { start: july, utcOffsetMinutes: -300 }, 'us'), '07/04/2024 07:00');
+});
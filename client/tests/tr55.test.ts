@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CalculationInputs, calculateArealReductionFactor, calculateClimateFactor, calculateHyetograph, calculatePotentialRetention, calculateScsRunoff,
+    createPchipInterpolator, scaleDistributionDuration
+} from '../src/utils/tr55';
+import { loadDistributions } from './distributions';
+
+loadDistributions();
+
+// --- Helpers ---
+
+const TYPE_II_24HR: CalculationInputs = {
+    totalDepthInput: 5,
+    durationInput: 24,
+    stormCategory: 'SCS',
+    stormSubType: 'Type II',
+    timeStepMinutes: 6,
+    depthUnit: 'us',
+    durationUnit: 'hours',
+};
+
+function sumDepth(inputs: CalculationInputs): number {
+    return calculateHyetograph(inputs).detailedData.reduce((sum, step) => sum + step.depthStep, 0);
+}
+
+// --- Hyetograph ---
+
+test('SCS Type II 24-hr storm follows the published curve', () => {
+    const result = calculateHyetograph(TYPE_II_24HR);
+    assert.equal(result.detailedData.length, 240);
+    assert.ok(Math.abs(sumDepth(TYPE_II_24HR) - 5) < 1e-9);
+    assert.ok(Math.abs(result.totalDepthActual - 5) < 1e-9);
+    // Half the duration carries 66.3% of the Type II depth
+    assert.ok(Math.abs(result.detailedData[119].cumulativeDepth / 5 - 0.663) < 1e-3);
+    assert.equal(result.diagnostics.filter(d => d.severity === 'error').length, 0);
+});
+
+test('every bundled NRCS and Huff curve keeps its depth', () => {
+    const cases: Pick<CalculationInputs, 'stormCategory' | 'stormSubType' | 'durationInput'>[] = [
+        { stormCategory: 'NRCS', stormSubType: 'Northeast Type D', durationInput: 24 },
+        { stormCategory: 'NRCS', stormSubType: 'Northeast Type D', durationInput: 6 },
+        { stormCategory: 'Huff', stormSubType: 'Huff Type II', durationInput: 24 },
+    ];
+    cases.forEach(c => {
+        const inputs = { ...TYPE_II_24HR, ...c };
+        assert.ok(Math.abs(sumDepth(inputs) - 5) < 1e-6, `${c.stormSubType} ${c.durationInput} hr`);
+    });
+});
+
+test('durations without a published curve are time-scaled and reported', () => {
+    const result = calculateHyetograph({ ...TYPE_II_24HR, durationInput: 3 });
+    assert.equal(result.detailedData.length, 30);
+    assert.equal(result.scaledFromDuration, 6);
+    assert.ok(result.diagnostics.some(d => d.code === 'DURATION_TIME_SCALED'));
+    assert.ok(Math.abs(result.totalDepthActual - 5) < 1e-9);
+});
+
+test('scaleDistributionDuration keeps the cumulative fraction at each relative time', () => {
+    const curve = { time_minutes: [0, 60, 120, 360], cumulative_fraction: [0, 0.2, 0.7, 1] };
+    const scaled = scaleDistributionDuration(curve, 720);
+    assert.deepEqual(scaled.time_minutes, [0, 120, 240, 720]);
+    assert.deepEqual(scaled.cumulative_fraction, curve.cumulative_fraction);
+});
+
+// --- PCHIP Interpolation ---
+
+test('PCHIP reproduces the points and stays monotone', () => {
+    const x = [0, 60, 120, 180, 240];
+    const y = [0, 0.05, 0.6, 0.62, 1];
+    const interpolate = createPchipInterpolator(x, y);
+    x.forEach((xi, i) => assert.ok(Math.abs(interpolate(xi) - y[i]) < 1e-12));
+    let previous = -Infinity;
+    for (let t = 0; t <= 240; t += 0.5) {
+        const value = interpolate(t);
+        assert.ok(value >= previous - 1e-12, `decreases at ${t}`);
+        assert.ok(value >= 0 && value <= 1, `overshoots at ${t}`);
+        previous = value;
+    }
+    assert.equal(interpolate(-10), 0);
+    assert.equal(interpolate(300), 1);
+});
+
+test('a PCHIP storm keeps its depth with no negative steps', () => {
+    const result = calculateHyetograph({ ...TYPE_II_24HR, timeStepMinutes: 5, interpolationMode: 'pchip' });
+    assert.ok(result.detailedData.every(step => step.depthStep >= 0));
+    assert.ok(Math.abs(result.totalDepthActual - 5) < 1e-9);
+});
+
+// --- Areal Reduction ---
+
+test('areal reduction factors fall with area and rise with duration', () => {
+    (['TP-29', 'NERC'] as const).forEach(method => {
+        const small = calculateArealReductionFactor(method, 10, 24);
+        const large = calculateArealReductionFactor(method, 300, 24);
+        const longer = calculateArealReductionFactor(method, 300, 48);
+        assert.ok(small < 1 && small > large && large > 0, method);
+        assert.ok(longer > large, method);
+    });
+    // TP-29 at 10 mi², 24 hr
+    const exponent = -1.1 * Math.pow(24, 0.25);
+    assert.ok(Math.abs(calculateArealReductionFactor('TP-29', 10, 24) - (1 - Math.exp(exponent) + Math.exp(exponent - 0.1))) < 1e-12);
+    assert.ok(isNaN(calculateArealReductionFactor('TP-29', 0, 24)));
+});
+
+test('the areal reduction factor scales the storm depth', () => {
+    const result = calculateHyetograph({ ...TYPE_II_24HR, arealReduction: { method: 'TP-29', drainageArea: 6400 } });
+    const factor = calculateArealReductionFactor('TP-29', 10, 24);
+    assert.equal(result.arealReduction?.factor, factor);
+    assert.ok(Math.abs(result.totalDepthActual - 5 * factor) < 1e-9);
+});
+
+// --- Climate Adjustment ---
+
+test('climate factors for each method', () => {
+    assert.ok(Math.abs(calculateClimateFactor({ method: 'uniform', upliftPercent: 20 }, 24) - 1.2) < 1e-12);
+    assert.ok(Math.abs(calculateClimateFactor({ method: 'clausius-clapeyron', scalingRate: 7, warming: 2 }, 24) - 1.1449) < 1e-12);
+    const changeFactors = [{ durationHours: 1, factor: 1.3 }, { durationHours: 24, factor: 1.1 }];
+    // Log-duration interpolation: the geometric mean of the durations is halfway
+    assert.ok(Math.abs(calculateClimateFactor({ method: 'table', changeFactors }, Math.sqrt(24)) - 1.2) < 1e-12);
+    assert.equal(calculateClimateFactor({ method: 'table', changeFactors }, 0.5), 1.3);
+    assert.equal(calculateClimateFactor({ method: 'table', changeFactors }, 48), 1.1);
+    assert.ok(isNaN(calculateClimateFactor({ method: 'uniform' }, 24)));
+});
+
+test('a climate uplift scales the depth and keeps the baseline', () => {
+    const result = calculateHyetograph({ ...TYPE_II_24HR, climateAdjustment: { method: 'uniform', upliftPercent: 20 } });
+    assert.ok(Math.abs(result.totalDepthActual - 6) < 1e-9);
+    assert.equal(result.climateAdjustment?.baselineDepth, 5);
+});
+
+// --- Rainfall Excess ---
+
+test('rainfall excess matches the SCS runoff equation', () => {
+    assert.equal(calculatePotentialRetention(80), 2.5);
+    const expected = Math.pow(5 - 0.5, 2) / (5 + 2);
+    assert.ok(Math.abs(calculateScsRunoff(5, 2.5) - expected) < 1e-12);
+
+    const result = calculateHyetograph({ ...TYPE_II_24HR, curveNumber: 80 });
+    const lastStep = result.detailedData[result.detailedData.length - 1];
+    assert.ok(Math.abs((lastStep.cumulativeRunoff ?? NaN) - expected) < 1e-9);
+    assert.ok(result.detailedData.every(step => Math.abs((step.excessDepth ?? 0) + (step.lossDepth ?? 0) - step.depthStep) < 1e-9));
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32 } from 'node:zlib';
+import { calculateHyetograph } from '../src/utils/tr55';
+import { generateStormWorkbook } from '../src/utils/exporters';
+import { parseStormStart } from '../src/utils/timestamps';
+import { createXlsx } from '../src/utils/xlsx';
+import { createZip } from '../src/utils/zip';
+import { loadDistributions } from './distributions';
+import { FORM_INPUTS } from './fixtures';
+
+loadDistributions();
+
+/**
+ * Reads a stored zip archive through its central directory, checking each entry's checksum.
+ * @returns Entry contents as text, by name, in archive order.
+ */
+function readZip(archive: Uint8Array): Map<string, string> {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    const decoder = new TextDecoder();
+    const endOffset = archive.length - 22;
+    assert.equal(view.getUint32(endOffset, true), 0x06054B50, 'end of central directory');
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let position = view.getUint32(endOffset + 16, true);
+    const entries = new Map<string, string>();
+    for (let i = 0; i < entryCount; i++) {
+        assert.equal(view.getUint32(position, true), 0x02014B50, 'central directory header');
+        const checksum = view.getUint32(position + 16, true);
+        const size = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+        assert.equal(view.getUint32(localOffset, true), 0x04034B50, `local header of ${name}`);
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = archive.subarray(dataStart, dataStart + size);
+        assert.equal(crc32(data), checksum, `checksum of ${name}`);
+        entries.set(name, decoder.decode(data));
+        position += 46 + nameLength;
+    }
+    return entries;
+}
+
+test('zip archives store each entry with its checksum', () => {
+    const entries = readZip(createZip([
+        { name: 'a.txt', content: 'first' },
+        { name: 'folder/b.gage', content: 'Ünïcode ✓' },
+        { name: 'empty', content: new Uint8Array(0) },
+    ]));
+    assert.deepEqual([...entries], [['a.txt', 'first'], ['folder/b.gage', 'Ünïcode ✓'], ['empty', '']]);
+});
+
+test('a workbook holds its sheets, styles and escaped text', () => {
+    const entries = readZip(createXlsx([
+        { name: 'Inputs/Results: 1', headerRow: true, rows: [['Name', 'Value'], ['Depth <in> & more', { value: 2.5, format: '0.000' }], [null, 3]] },
+        { name: 'Inputs/Results: 1', rows: [] },
+    ]));
+    assert.deepEqual([...entries.keys()], [
+        '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml',
+        'xl/worksheets/sheet1.xml', 'xl/worksheets/sheet2.xml',
+    ]);
+    // Sheet names are made valid and unique
+    assert.match(entries.get('xl/workbook.xml') ?? '', /<sheet name="Inputs_Results_ 1" sheetId="1" r:id="rId1"\/><sheet name="Inputs_Results_ 1_2" sheetId="2" r:id="rId2"\/>/);
+    assert.match(entries.get('xl/styles.xml') ?? '', /<numFmt numFmtId="164" formatCode="0.000"\/>/);
+    const sheet = entries.get('xl/worksheets/sheet1.xml') ?? '';
+    assert.match(sheet, /<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"\/>/);
+    assert.match(sheet, /<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Name<\/t><\/is><\/c>/);
+    assert.match(sheet, /<t xml:space="preserve">Depth &lt;in&gt; &amp; more<\/t>/);
+    assert.match(sheet, /<c r="B2" s="2"><v>2.5<\/v><\/c>/);
+    assert.match(sheet, /<row r="3"><c r="B3"><v>3<\/v><\/c><\/row>/);
+});
+
+test('the storm workbook has inputs, summary and step sheets', () => {
+    const stormStart = parseStormStart('2024-06-01T18:00', 'America/Chicago') ?? undefined;
+    const storm = calculateHyetograph({
+        totalDepthInput: 5, durationInput: 24, stormCategory: 'SCS', stormSubType: 'Type II', timeStepMinutes: 15, depthUnit: 'us', durationUnit: 'hours', stormStart,
+    });
+    const sheets = generateStormWorkbook(storm, { ...FORM_INPUTS, stormStart: '2024-06-01T18:00', timeZone: 'America/Chicago' }, null);
+    assert.deepEqual(sheets.map(sheet => sheet.name), ['Inputs', 'Summary', 'Hyetograph']);
+
+    const [headers, firstStep] = sheets[2].rows;
+    assert.deepEqual(headers.slice(0, 4), ['Time Start (min)', 'Time End (min)', 'Start (America/Chicago)', 'End (America/Chicago)']);
+    assert.equal(sheets[2].rows.length, 1 + 96);
+    // 18:00 local on 1 June 2024 as an Excel serial date
+    const start = firstStep[2];
+    assert.ok(start !== null && typeof start === 'object');
+    assert.ok(Math.abs(start.value - (45444 + 0.75)) < 1e-9);
+    assert.ok(readZip(createXlsx(sheets)).has('xl/worksheets/sheet3.xml'));
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Compiles the gstorm CLI to a single Node script; the distribution CSVs are embedded
+// through the same ?raw imports the web app uses
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/gstorm.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'gstorm.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});